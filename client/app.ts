@@ -1,8 +1,21 @@
 import { SocketClient } from './net/SocketClient';
 import { OperationStore } from './state/OperationStore';
-import { CanvasRenderer } from './canvas/CanvasRenderer';
+import { CanvasRenderer, LiveStroke } from './canvas/CanvasRenderer';
+import { Camera } from './canvas/Camera';
 import { InputHandler } from './input/InputHandler';
-import { Point } from '../shared/types';
+import { TextEditor } from './input/TextEditor';
+import { SelectionTool } from './input/SelectionTool';
+import { ExportFormat, Exporter } from './export/Exporter';
+import { Timeline } from './timeline/Timeline';
+import { TimelinePlayer } from './timeline/TimelinePlayer';
+import { objectHitsSegment, textContainsPoint } from './canvas/geometry';
+import { BrushKind, CanvasObject, Checkpoint, CheckpointSummary, ClientMessageType, Layer, Point, Role, Shape, ShapeKind, TextBox, Transform, UserProfile } from '../shared/types';
+import { BRUSHES, BRUSH_KINDS, DEFAULT_BRUSH, isBrushKind } from '../shared/brushes';
+import { DEFAULT_LAYER_ID, MAX_LAYER_NAME_LENGTH, compositeLayers } from '../shared/layers';
+import { hasRole } from '../shared/roles';
+import { SHAPE_KINDS } from '../shared/shapes';
+import { DEFAULT_STICKY_COLOR, isTextBox, sameTextBox } from '../shared/text';
+import { transformObject } from '../shared/transform';
 import { v4 as uuidv4 } from 'uuid';
 
 
@@ -10,24 +23,78 @@ import { v4 as uuidv4 } from 'uuid';
 // Configuration & State
 // ==========================================
 
+// Access process.env directly so bundlers (Parcel/Vite) can replace it at build time
+const SERVER_URL = process.env.SERVER_URL || 'http://localhost:3000';
+
+// Access tokens for secured rooms, kept per room (see below)
+const tokenKey = (id: string) => `canvas:token:${id}`;
+
 // Get Room ID from URL query param
 const urlParams = new URLSearchParams(window.location.search);
 let roomId = urlParams.get('roomId');
 
-// If no room ID, generate one and redirect
+// If no room ID, create one and redirect
 if (!roomId) {
-    roomId = uuidv4();
-    window.location.search = `?roomId=${roomId}`;
+    createRoomAndOpen();
     throw new Error('Redirecting to new room...'); // Stop execution
 }
 
 const ROOM_ID = roomId;
 
+// Access token for secured rooms. An invite link carries it as `?token=`; it is
+// kept per room in localStorage and taken out of the address bar, so copying
+// the URL never hands out someone else's role.
+const urlToken = urlParams.get('token');
+if (urlToken) {
+    localStorage.setItem(tokenKey(ROOM_ID), urlToken);
+    urlParams.delete('token');
+    history.replaceState(null, '', `?${urlParams}`);
+}
+const ROOM_TOKEN = localStorage.getItem(tokenKey(ROOM_ID));
+
+// Stable per-browser user ID, so the server can scope undo/redo to our own
+// operations even after a refresh or reconnect. The server assigns it, with a
+// token that proves it (see onIdentity); until the first connection it is unknown.
+const USER_ID_KEY = 'canvas:userId';
+const USER_TOKEN_KEY = 'canvas:userToken';
+let currentUserId = localStorage.getItem(USER_ID_KEY) ?? '';
+let currentUserToken = localStorage.getItem(USER_TOKEN_KEY);
+
+// Display name shown to others (participant list, cursor label).
+// Empty means "let the server pick a guest name".
+const USER_NAME_KEY = 'canvas:userName';
+let userName = localStorage.getItem(USER_NAME_KEY) ?? '';
+
 // Current user state
+type Tool = 'pen' | 'eraser' | 'select' | 'lasso' | 'text' | 'note' | ShapeKind;
+let currentTool: Tool = 'pen';
 let currentColor = '#000000';
 let currentSize = 5;
+let currentBrush: BrushKind = DEFAULT_BRUSH;
+
+// Committed strokes are simplified until they deviate by this much (screen pixels at the current zoom)
+const SIMPLIFY_TOLERANCE_PX = 0.5;
+let currentFontSize = 24;
 let currentStrokeId: string | null = null;
 
+// Our role in the room, from the server's ROSTER. Viewers can look around but not edit.
+let currentRole: Role = 'editor';
+
+// History timeline (see openTimeline); null on the live board
+let timeline: Timeline | null = null;
+let timelinePlayer: TimelinePlayer | null = null;
+let timelineSeq = 0;
+let timelineDrawing: LiveStroke | null = null;
+
+// Saved versions of the board, and the one being previewed (see previewCheckpoint)
+let checkpoints: CheckpointSummary[] = [];
+let previewedCheckpoint: Checkpoint | null = null;
+
+// Layer new objects go on, and the layers the panel last showed (to spot changes)
+let activeLayerId = DEFAULT_LAYER_ID;
+let shownLayers: ReadonlyArray<Layer> | null = null;
+let createdLayerId: string | null = null; // Added by us; becomes active when it arrives
+
 // ==========================================
 // Health Check Service
 // ==========================================
@@ -113,23 +180,70 @@ const redoBtn = document.getElementById('redo-btn') as HTMLButtonElement;
 const colorPicker = document.getElementById('color-picker') as HTMLInputElement;
 const penBtn = document.getElementById('pen-btn') as HTMLButtonElement;
 const eraserBtn = document.getElementById('eraser-btn') as HTMLButtonElement;
+const selectBtn = document.getElementById('select-btn') as HTMLButtonElement;
+const lassoBtn = document.getElementById('lasso-btn') as HTMLButtonElement;
+const deleteBtn = document.getElementById('delete-btn') as HTMLButtonElement;
+const shapeButtons = new Map(SHAPE_KINDS.map(kind => [kind, document.getElementById(`${kind}-btn`) as HTMLButtonElement]));
+const fillToggle = document.getElementById('fill-toggle') as HTMLInputElement;
+const fillPicker = document.getElementById('fill-picker') as HTMLInputElement;
+const textBtn = document.getElementById('text-btn') as HTMLButtonElement;
+const noteBtn = document.getElementById('note-btn') as HTMLButtonElement;
+const fontSizeSelect = document.getElementById('font-size') as HTMLSelectElement;
+const textEditorElement = document.getElementById('text-editor') as HTMLTextAreaElement;
 const sizeSlider = document.getElementById('size-slider') as HTMLInputElement;
+const brushSelect = document.getElementById('brush-select') as HTMLSelectElement;
+const penOnlyToggle = document.getElementById('pen-only-toggle') as HTMLInputElement;
 const statusDiv = document.getElementById('status') as HTMLDivElement;
+const participantsList = document.getElementById('participants-list') as HTMLUListElement;
 
 // Room UI
 const createRoomBtn = document.getElementById('create-room-btn') as HTMLButtonElement;
 const joinRoomBtn = document.getElementById('join-room-btn') as HTMLButtonElement;
 const joinRoomInput = document.getElementById('join-room-input') as HTMLInputElement;
 const shareBtn = document.getElementById('share-btn') as HTMLButtonElement;
+const exportFormat = document.getElementById('export-format') as HTMLSelectElement;
+const exportBtn = document.getElementById('export-btn') as HTMLButtonElement;
+const importBtn = document.getElementById('import-btn') as HTMLButtonElement;
+const importInput = document.getElementById('import-input') as HTMLInputElement;
+const shareRoleSelect = document.getElementById('share-role') as HTMLSelectElement;
+const historyBtn = document.getElementById('history-btn') as HTMLButtonElement;
+const timelineBar = document.getElementById('timeline-bar') as HTMLDivElement;
+const timelinePlayBtn = document.getElementById('timeline-play-btn') as HTMLButtonElement;
+const timelineSlider = document.getElementById('timeline-slider') as HTMLInputElement;
+const timelineLabel = document.getElementById('timeline-label') as HTMLSpanElement;
+const timelineSpeed = document.getElementById('timeline-speed') as HTMLSelectElement;
+const timelineCloseBtn = document.getElementById('timeline-close-btn') as HTMLButtonElement;
+const versionsBtn = document.getElementById('versions-btn') as HTMLButtonElement;
+const versionsPanel = document.getElementById('versions') as HTMLDivElement;
+const versionsList = document.getElementById('versions-list') as HTMLUListElement;
+const saveVersionBtn = document.getElementById('save-version-btn') as HTMLButtonElement;
+const checkpointBar = document.getElementById('checkpoint-bar') as HTMLDivElement;
+const checkpointLabel = document.getElementById('checkpoint-label') as HTMLSpanElement;
+const checkpointRestoreBtn = document.getElementById('checkpoint-restore-btn') as HTMLButtonElement;
+const checkpointCloseBtn = document.getElementById('checkpoint-close-btn') as HTMLButtonElement;
+const layersBtn = document.getElementById('layers-btn') as HTMLButtonElement;
+const layersPanel = document.getElementById('layers') as HTMLDivElement;
+const layersList = document.getElementById('layers-list') as HTMLUListElement;
+const addLayerBtn = document.getElementById('add-layer-btn') as HTMLButtonElement;
+
+// Controls that change the board, disabled for viewers
+const editControls = document.querySelectorAll<HTMLButtonElement | HTMLInputElement | HTMLSelectElement>('.edit-control');
 
 // Components
-// Components
-// Access process.env directly so bundlers (Parcel/Vite) can replace it at build time
-const SERVER_URL = process.env.SERVER_URL || 'http://localhost:3000';
 console.log('Connecting to server:', SERVER_URL);
-const socketClient = new SocketClient(SERVER_URL, ROOM_ID);
 const operationStore = new OperationStore();
-const canvasRenderer = new CanvasRenderer(baseCanvas, liveCanvas, cursorCanvas);
+const socketClient = new SocketClient(SERVER_URL, ROOM_ID, currentUserToken, () => operationStore.getLastSeq(), () => userName, ROOM_TOKEN);
+const camera = new Camera();
+const canvasRenderer = new CanvasRenderer(baseCanvas, liveCanvas, cursorCanvas, camera);
+const exporter = new Exporter(canvasRenderer);
+const textEditor = new TextEditor(textEditorElement, camera);
+const selectionTool = new SelectionTool({
+    queryObjects: (bounds) => canvasRenderer.queryStrokes(bounds)
+        .filter(object => !pendingErasedStrokes.has(object.id))
+        .map(object => pendingTransforms.get(object.id) ?? object),
+    getObject: (id) => getCurrentObject(id),
+    onTransform: (ids, transform) => commitTransform(ids, transform)
+}, camera);
 
 // ==========================================
 // Wiring: Input -> Socket & Renderer
@@ -137,15 +251,42 @@ const canvasRenderer = new CanvasRenderer(baseCanvas, liveCanvas, cursorCanvas);
 
 const inputHandler = new InputHandler(inputLayer, {
     onStart: (points: Point[]) => {
+        if (!canEdit()) return; // The server would refuse it; panning and zooming still work
+        // Any press on the canvas finishes the text edit in progress.
+        // With a text tool, that click only closes the editor.
+        if (textEditor.isOpen()) {
+            textEditor.commit();
+            if (isTextTool(currentTool)) return;
+        }
+        if (isTextTool(currentTool)) {
+            textClick = points[0];
+            return;
+        }
+        if (isSelectTool(currentTool)) {
+            selectionTool.pointerDown(points[0]);
+            renderAllLiveStrokes();
+            return;
+        }
+        if (currentTool === 'eraser') {
+            lastEraserPoint = null;
+            eraseAlong(points);
+            return;
+        }
+        if (!canDrawOnActiveLayer()) return;
+        if (isShapeTool(currentTool)) {
+            startShape(currentTool, points[0]);
+            return;
+        }
+
         // 1. Generate a new Stroke ID
         currentStrokeId = uuidv4();
         const startPoint = points[0]; // We expect at least one point
 
         // 2. Optimistically render locally
-        canvasRenderer.renderLiveStroke(points, currentColor, currentSize);
+        canvasRenderer.renderLiveStroke({ points, color: currentColor, size: currentSize, brush: currentBrush });
 
         // 3. Emit to server
-        socketClient.emitStrokeStart(currentStrokeId, currentColor, currentSize, startPoint);
+        socketClient.emitStrokeStart(currentStrokeId, currentColor, currentSize, currentBrush, startPoint, SIMPLIFY_TOLERANCE_PX / camera.getZoom(), activeLayerId);
 
         // If there are more points (rare for onStart, but possible with batching), emit them too
         if (points.length > 1) {
@@ -154,6 +295,27 @@ const inputHandler = new InputHandler(inputLayer, {
         }
     },
     onMove: (points: Point[]) => {
+        if (!canEdit() || isTextTool(currentTool)) return;
+        if (isSelectTool(currentTool)) {
+            const wasDragging = selectionTool.getDraggedIds().length > 0;
+            selectionTool.pointerMove(points[points.length - 1]);
+            if (!wasDragging) {
+                refreshHiddenObjects(); // The dragged objects move to the live layer
+            }
+            renderAllLiveStrokes();
+            return;
+        }
+        if (currentTool === 'eraser') {
+            eraseAlong(points);
+            return;
+        }
+        if (shapeDraft) {
+            // The shape spans from the press to the latest pointer position
+            shapeDraft.end = { x: points[points.length - 1].x, y: points[points.length - 1].y };
+            renderAllLiveStrokes();
+            return;
+        }
+
         const id = currentStrokeId;
         if (!id) return;
 
@@ -167,6 +329,30 @@ const inputHandler = new InputHandler(inputLayer, {
         socketClient.emitStrokeMove(id, points);
     },
     onEnd: () => {
+        if (!canEdit()) return;
+        if (isTextTool(currentTool)) {
+            // Opened on release: the press itself would take focus away from the editor
+            if (textClick) {
+                editTextAt(textClick);
+                textClick = null;
+            }
+            return;
+        }
+        if (isSelectTool(currentTool)) {
+            selectionTool.pointerUp();
+            refreshHiddenObjects();
+            renderAllLiveStrokes();
+            return;
+        }
+        if (currentTool === 'eraser') {
+            lastEraserPoint = null;
+            return;
+        }
+        if (shapeDraft) {
+            finishShape();
+            return;
+        }
+
         const id = currentStrokeId;
         if (!id) return;
 
@@ -175,7 +361,8 @@ const inputHandler = new InputHandler(inputLayer, {
             pendingLocalStrokes.set(id, {
                 points: [...liveStrokePoints],
                 color: currentColor,
-                size: currentSize
+                size: currentSize,
+                brush: currentBrush
             });
         }
 
@@ -188,95 +375,468 @@ const inputHandler = new InputHandler(inputLayer, {
 
         // 4. Re-render with pending stroke still visible
         renderAllLiveStrokes();
+    },
+    onPan: (dx, dy) => {
+        camera.panBy(dx, dy);
+    },
+    onZoom: (factor, x, y) => {
+        camera.zoomAt(factor, x, y);
+    },
+    onGesture: (gesture) => {
+        camera.panBy(gesture.dx, gesture.dy);
+        camera.zoomAt(gesture.scale, gesture.centerX, gesture.centerY);
+    },
+    onPenDetected: () => {
+        // A stylus showed up: touch is for navigating from now on
+        penOnlyToggle.checked = true;
     }
+}, camera);
+
+// Viewport changes (pan/zoom) re-project every layer.
+// Coalesced to one render per frame, since wheel/touch events fire much faster.
+let viewportRenderPending = false;
+camera.onChange(() => {
+    if (viewportRenderPending) return;
+    viewportRenderPending = true;
+
+    requestAnimationFrame(() => {
+        viewportRenderPending = false;
+        canvasRenderer.renderBase();
+        renderAllLiveStrokes();
+        canvasRenderer.renderCursors(remoteCursors);
+    });
 });
 
 // Cursor Tracking (Local -> Server)
+// At most one update per frame: pointer events can fire far more often than
+// that, and the server rate-limits cursor messages.
+let pendingCursor: { x: number, y: number } | null = null;
 inputLayer.addEventListener('pointermove', (e) => {
-    // Throttle? Maybe not needed for local network, but good practice.
-    // For now, raw events.
+    // Cursors are shared in world coordinates so they line up for every viewer
     const rect = inputLayer.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-    socketClient.emitCursorMove(x, y);
+    const world = camera.screenToWorld(e.clientX - rect.left, e.clientY - rect.top);
+
+    const scheduled = pendingCursor !== null;
+    pendingCursor = world;
+    if (scheduled) return;
+
+    requestAnimationFrame(() => {
+        if (pendingCursor) {
+            socketClient.emitCursorMove(pendingCursor.x, pendingCursor.y);
+            pendingCursor = null;
+        }
+    });
 });
 
 // Local state for the current live stroke (to support full redraws)
 let liveStrokePoints: Point[] = [];
 
 // Track pending strokes that are being drawn locally but not yet confirmed by server
-const pendingLocalStrokes = new Map<string, { points: Point[], color: string, size: number }>();
+const pendingLocalStrokes = new Map<string, LiveStroke>();
+
+// Shape being dragged out (local preview only; sent on release)
+let shapeDraft: Shape | null = null;
+
+// Shapes sent but not yet confirmed by server, kept on the live layer meanwhile
+const pendingLocalShapes = new Map<string, Shape>();
+
+function isShapeTool(tool: Tool): tool is ShapeKind {
+    return (SHAPE_KINDS as ReadonlyArray<string>).includes(tool);
+}
+
+function startShape(kind: ShapeKind, point: Point) {
+    shapeDraft = {
+        id: uuidv4(),
+        kind,
+        start: { x: point.x, y: point.y },
+        end: { x: point.x, y: point.y },
+        style: {
+            stroke: currentColor,
+            strokeWidth: currentSize,
+            fill: fillToggle.checked ? fillPicker.value : null
+        },
+        layerId: activeLayerId
+    };
+    renderAllLiveStrokes();
+}
+
+function finishShape() {
+    const shape = shapeDraft!;
+    shapeDraft = null;
+
+    // A click without a drag would be an invisible shape; drop it
+    if (shape.start.x === shape.end.x && shape.start.y === shape.end.y) {
+        renderAllLiveStrokes();
+        return;
+    }
+
+    pendingLocalShapes.set(shape.id, shape);
+    socketClient.emitAddShape(shape);
+    renderAllLiveStrokes();
+}
+
+// Where the text tool was pressed; the editor opens there on release
+let textClick: Point | null = null;
+
+// Text boxes (new or edited) sent but not yet confirmed by server, keyed by text box ID.
+// Drawn on the live layer; an edited box stays hidden on the base layer meanwhile.
+const pendingLocalTexts = new Map<string, TextBox>();
+
+function isTextTool(tool: Tool): tool is 'text' | 'note' {
+    return tool === 'text' || tool === 'note';
+}
+
+/**
+ * Opens the editor on the text box under `point`, or on a new one there.
+ */
+function editTextAt(point: Point) {
+    const existing = findTextAt(point);
+    if (!existing && !canDrawOnActiveLayer()) return;
+
+    const text: TextBox = existing ?? {
+        id: uuidv4(),
+        kind: 'text',
+        x: point.x,
+        y: point.y,
+        text: '',
+        fontSize: currentFontSize,
+        color: currentColor,
+        background: currentTool === 'note' ? DEFAULT_STICKY_COLOR : null,
+        layerId: activeLayerId
+    };
+
+    textEditor.open(text, (edited) => commitText(existing, edited));
+    refreshHiddenObjects(); // The editor replaces the box on screen while it is open
+}
+
+/**
+ * The topmost visible text box containing `point` (with our unconfirmed edits applied).
+ */
+function findTextAt(point: Point): TextBox | null {
+    const nearby = canvasRenderer.queryStrokes({ minX: point.x, minY: point.y, maxX: point.x, maxY: point.y });
+
+    for (let i = nearby.length - 1; i >= 0; i--) {
+        const object = nearby[i];
+        if (!isTextBox(object) || pendingErasedStrokes.has(object.id)) continue;
+
+        const text = pendingLocalTexts.get(object.id) ?? object;
+        if (textContainsPoint(text, point)) {
+            return text;
+        }
+    }
+    return null;
+}
+
+/**
+ * Sends the result of an edit: a new box, new content for an existing box,
+ * or a removal when an existing box was emptied. Empty new boxes are dropped.
+ */
+function commitText(original: TextBox | null, text: TextBox) {
+    const isEmpty = text.text.trim().length === 0;
+
+    if (!original) {
+        if (!isEmpty) {
+            pendingLocalTexts.set(text.id, text);
+            socketClient.emitAddText(text);
+        }
+    } else if (isEmpty) {
+        pendingErasedStrokes.add(text.id);
+        socketClient.emitErase([text.id]);
+    } else if (!sameTextBox(original, text)) {
+        pendingLocalTexts.set(text.id, text);
+        socketClient.emitUpdateText(text);
+    }
+
+    refreshHiddenObjects();
+    renderAllLiveStrokes();
+}
+
+// Objects moved/scaled/rotated locally whose TRANSFORM hasn't come back yet, transform applied.
+// Drawn on the live layer in place of their committed copies, like pending text edits.
+const pendingTransforms = new Map<string, CanvasObject>();
+
+function isSelectTool(tool: Tool): tool is 'select' | 'lasso' {
+    return tool === 'select' || tool === 'lasso';
+}
+
+/**
+ * A visible object as this user currently sees it (with local unconfirmed changes applied).
+ */
+function getCurrentObject(id: string): CanvasObject | undefined {
+    if (pendingErasedStrokes.has(id)) return undefined;
+    return pendingTransforms.get(id) ?? canvasRenderer.getObject(id);
+}
+
+function commitTransform(ids: string[], transform: Transform) {
+    for (const id of ids) {
+        const object = getCurrentObject(id);
+        if (object) {
+            pendingTransforms.set(id, transformObject(object, transform));
+        }
+    }
+    socketClient.emitTransform(ids, transform);
+}
+
+/**
+ * Deletes the selected objects (one undoable step).
+ */
+function deleteSelection() {
+    const ids = selectionTool.getSelectedIds();
+    if (ids.length === 0) return;
+
+    for (const id of ids) {
+        pendingErasedStrokes.add(id);
+    }
+    socketClient.emitErase(ids);
+    selectionTool.clear();
+    refreshHiddenObjects();
+    renderAllLiveStrokes();
+}
+
+// Objects hit by the local eraser whose REMOVE_STROKE hasn't come back yet.
+// Hidden optimistically so erasing feels instant.
+const pendingErasedStrokes = new Set<string>();
+
+/**
+ * Leaves out of the base layer: optimistically erased objects, the text box
+ * open in the editor, and objects whose edit or transform is still pending or
+ * being dragged (drawn live instead).
+ */
+function refreshHiddenObjects() {
+    const hidden = new Set(pendingErasedStrokes);
+    for (const id of [...pendingLocalTexts.keys(), ...pendingTransforms.keys(), ...selectionTool.getDraggedIds()]) {
+        hidden.add(id);
+    }
+
+    const editingId = textEditor.getEditingId();
+    if (editingId) {
+        hidden.add(editingId);
+    }
+    canvasRenderer.setHiddenStrokes(hidden);
+}
+
+// Last eraser position, so we test the swept path (not just sampled points)
+let lastEraserPoint: Point | null = null;
+
+/**
+ * Hit-tests the eraser path against visible strokes and asks the server
+ * to remove every stroke it touches.
+ */
+function eraseAlong(points: Point[]) {
+    const radius = currentSize / 2;
+    const hitIds: string[] = [];
+
+    for (const point of points) {
+        const from = lastEraserPoint ?? point;
+
+        // Narrow down to strokes near this segment via the renderer's spatial index
+        const nearby = canvasRenderer.queryStrokes({
+            minX: Math.min(from.x, point.x) - radius,
+            minY: Math.min(from.y, point.y) - radius,
+            maxX: Math.max(from.x, point.x) + radius,
+            maxY: Math.max(from.y, point.y) + radius
+        });
+
+        for (const stroke of nearby) {
+            if (pendingErasedStrokes.has(stroke.id)) continue;
+
+            if (objectHitsSegment(stroke, from, point, radius)) {
+                pendingErasedStrokes.add(stroke.id);
+                hitIds.push(stroke.id);
+            }
+        }
+
+        lastEraserPoint = point;
+    }
+
+    if (hitIds.length > 0) {
+        socketClient.emitErase(hitIds);
+        refreshHiddenObjects();
+    }
+}
 
 // ==========================================
 // Wiring: Socket -> Store & Renderer
 // ==========================================
 
-socketClient.onSync((ops) => {
-    console.log('Received SYNC', ops.length);
-    operationStore.setOperations(ops);
-    canvasRenderer.renderHistory(operationStore.getSnapshot());
-    statusDiv.textContent = 'Connected';
-    statusDiv.style.backgroundColor = 'rgba(0, 128, 0, 0.7)';
-});
+socketClient.onSync((snapshot, ops, removedOperationIds, seq) => {
+    if (snapshot) {
+        console.log('Received full SYNC', snapshot.strokes.length, ops.length);
+        operationStore.reset(snapshot, ops, seq);
+    } else {
+        console.log('Received catch-up SYNC', ops.length, removedOperationIds.length);
+        operationStore.applyChanges(removedOperationIds, ops, seq);
+    }
+
+    // Our own strokes, shapes and text may have been committed while we were offline
+    for (const op of ops) {
+        if (op.type === 'ADD_STROKE') {
+            pendingLocalStrokes.delete(op.stroke.id);
+        } else if (op.type === 'ADD_SHAPE') {
+            pendingLocalShapes.delete(op.shape.id);
+        } else if (op.type === 'ADD_TEXT' || op.type === 'UPDATE_TEXT') {
+            pendingLocalTexts.delete(op.text.id);
+        }
+    }
+    for (const object of snapshot?.strokes ?? []) {
+        pendingLocalStrokes.delete(object.id);
+        pendingLocalShapes.delete(object.id);
+        const pendingText = pendingLocalTexts.get(object.id);
+        if (pendingText && isTextBox(object) && sameTextBox(object, pendingText)) {
+            pendingLocalTexts.delete(object.id);
+        }
+    }
+
+    // Remote live strokes and cursors may be stale after time away; their END is lost
+    remoteStrokes.clear();
+    remoteCursors.clear();
+    canvasRenderer.renderCursors(remoteCursors);
 
-socketClient.onError((err) => {
-    statusDiv.textContent = 'Connection Failed';
-    statusDiv.style.backgroundColor = 'rgba(255, 0, 0, 0.7)';
-    console.error('Connection failed:', err);
+    // Like erases, transforms in flight are not re-sent; the synced state is the truth
+    pendingErasedStrokes.clear();
+    pendingTransforms.clear();
+    canvasRenderer.resetHistory(operationStore.getBaseStrokes(), operationStore.getSnapshot(), operationStore.getBaseLayers());
+    refreshLayers();
+    selectionTool.prune();
+    refreshHiddenObjects();
+    renderAllLiveStrokes();
 });
 
-socketClient.onOperation((op) => {
-    console.log('Received OP', op.type);
-    
-    // Check if this is our own stroke coming back from server
-    if (op.type === 'ADD_STROKE') {
-        const strokeId = op.stroke.id;
-        const wasPending = pendingLocalStrokes.has(strokeId);
-        
-        if (wasPending) {
-            // Remove from pending (smooth transition from live to history)
-            pendingLocalStrokes.delete(strokeId);
-            console.log('Confirmed local stroke:', strokeId);
+socketClient.onOperation((ops) => {
+    console.log('Received OP', ops.length === 1 ? ops[0].type : `batch of ${ops.length}`);
+
+    for (const op of ops) {
+        // Check if this is our own stroke coming back from server
+        if (op.type === 'ADD_STROKE') {
+            const strokeId = op.stroke.id;
+            const wasPending = pendingLocalStrokes.has(strokeId);
+
+            if (wasPending) {
+                // Remove from pending (smooth transition from live to history)
+                pendingLocalStrokes.delete(strokeId);
+                console.log('Confirmed local stroke:', strokeId);
+            }
+        } else if (op.type === 'ADD_SHAPE') {
+            pendingLocalShapes.delete(op.shape.id);
+        } else if (op.type === 'ADD_TEXT' || op.type === 'UPDATE_TEXT') {
+            // Ours, or someone else's edit that got there first; either way the base layer is current
+            pendingLocalTexts.delete(op.text.id);
+        } else if (op.type === 'TRANSFORM') {
+            pendingTransforms.delete(op.objectId);
+        } else if (op.type === 'REMOVE_STROKE') {
+            // Our optimistic erase (if any) is now authoritative.
+            // A pending edit or transform of a removed object will never be committed.
+            pendingErasedStrokes.delete(op.strokeId);
+            pendingLocalTexts.delete(op.strokeId);
+            pendingTransforms.delete(op.strokeId);
         }
     }
-    
-    // Add to operation store and re-render
-    operationStore.addOperation(op);
-    canvasRenderer.renderHistory(operationStore.getSnapshot());
+
+    // Add to operation store and repaint the affected area
+    operationStore.addOperations(ops);
+    canvasRenderer.applyOperations(ops);
+    refreshLayers();
+    selectionTool.prune();
+    refreshHiddenObjects();
     
     // Re-render live strokes (this will now exclude the confirmed stroke)
     renderAllLiveStrokes();
 });
 
-socketClient.onUndo((op) => {
-    console.log('Received UNDO', op.id);
-    
+socketClient.onUndo((ops, seq) => {
+    console.log('Received UNDO', ops.map(op => op.id));
+
     // If this was a pending stroke, remove it from pending
-    if (op.type === 'ADD_STROKE') {
-        const strokeId = op.stroke.id;
-        if (pendingLocalStrokes.has(strokeId)) {
-            pendingLocalStrokes.delete(strokeId);
-            console.log('Removed pending stroke due to undo:', strokeId);
+    for (const op of ops) {
+        if (op.type === 'ADD_STROKE') {
+            const strokeId = op.stroke.id;
+            if (pendingLocalStrokes.has(strokeId)) {
+                pendingLocalStrokes.delete(strokeId);
+                console.log('Removed pending stroke due to undo:', strokeId);
+            }
+        } else if (op.type === 'ADD_SHAPE') {
+            pendingLocalShapes.delete(op.shape.id);
+        } else if (op.type === 'ADD_TEXT') {
+            pendingLocalTexts.delete(op.text.id);
         }
     }
-    
-    operationStore.removeOperation(op.id);
-    canvasRenderer.renderHistory(operationStore.getSnapshot());
+
+    const ids = ops.map(op => op.id);
+    operationStore.removeOperations(ids, seq);
+    canvasRenderer.revertOperations(ids);
+    refreshLayers();
+    selectionTool.prune();
+    refreshHiddenObjects();
     renderAllLiveStrokes(); // Update live layer too
 });
 
-socketClient.onRedo((op) => {
-    console.log('Received REDO', op.type);
-    operationStore.addOperation(op);
-    canvasRenderer.renderHistory(operationStore.getSnapshot());
+socketClient.onRedo((ops) => {
+    console.log('Received REDO', ops.map(op => op.type));
+
+    // A redone stroke is a fresh commit; don't keep hiding it because of an older erase
+    for (const op of ops) {
+        if (op.type === 'ADD_STROKE') {
+            pendingErasedStrokes.delete(op.stroke.id);
+        } else if (op.type === 'ADD_SHAPE') {
+            pendingErasedStrokes.delete(op.shape.id);
+        } else if (op.type === 'ADD_TEXT') {
+            pendingErasedStrokes.delete(op.text.id);
+        }
+    }
+
+    operationStore.addOperations(ops);
+    canvasRenderer.applyOperations(ops);
+    refreshLayers();
+    selectionTool.prune();
+    refreshHiddenObjects();
     renderAllLiveStrokes(); // Update live layer too
 });
 
+// The server refused one of our messages (malformed, or over a limit) and stored nothing from it.
+// An object it refused will never be committed, so drop its optimistic copy.
+socketClient.onRejected((code, message, rejectedType, id) => {
+    console.warn(`Server rejected ${rejectedType ?? 'a message'} (${code}): ${message}`);
+
+    // Erases and transforms name several objects and come back without an id, so we
+    // can't tell which are refused: drop them all. Those still in flight show their
+    // committed copies until they come back through onOperation.
+    if (rejectedType === ClientMessageType.ERASE || rejectedType === ClientMessageType.TRANSFORM) {
+        pendingErasedStrokes.clear();
+        pendingTransforms.clear();
+        refreshHiddenObjects();
+        renderAllLiveStrokes();
+        return;
+    }
+    if (id === undefined) return;
+
+    switch (rejectedType) {
+        case ClientMessageType.STROKE_START:
+        case ClientMessageType.STROKE_END: // Its layer was locked while it was drawn
+            pendingLocalStrokes.delete(id);
+            if (currentStrokeId === id) {
+                // Stop streaming the rest of it
+                currentStrokeId = null;
+                liveStrokePoints = [];
+            }
+            break;
+        case ClientMessageType.ADD_SHAPE:
+            pendingLocalShapes.delete(id);
+            break;
+        case ClientMessageType.ADD_TEXT:
+        case ClientMessageType.UPDATE_TEXT:
+            pendingLocalTexts.delete(id);
+            break;
+    }
+
+    refreshHiddenObjects();
+    renderAllLiveStrokes();
+});
+
 // Remote Live Drawing
-const remoteStrokes = new Map<string, { points: Point[], color: string, size: number }>();
+const remoteStrokes = new Map<string, LiveStroke & { userId: string }>();
 
-socketClient.onStrokeStart((userId, id, color, size, startPoint) => {
-    remoteStrokes.set(id, { points: [startPoint], color, size });
+socketClient.onStrokeStart((userId, id, color, size, brush, startPoint) => {
+    remoteStrokes.set(id, { userId, points: [startPoint], color, size, brush });
     renderAllLiveStrokes();
 });
 
@@ -293,23 +853,141 @@ socketClient.onStrokeEnd((userId, id) => {
     renderAllLiveStrokes();
 });
 
-// Remote Cursors
-const remoteCursors = new Map<string, { x: number, y: number, color: string }>();
+// Remote Cursors (keyed by user ID)
+const remoteCursors = new Map<string, { x: number, y: number, color: string, name?: string }>();
 
 socketClient.onCursorMove((userId, x, y, color) => {
-    remoteCursors.set(userId, { x, y, color });
+    remoteCursors.set(userId, { x, y, color, name: participants.get(userId)?.name });
+    canvasRenderer.renderCursors(remoteCursors);
+});
+
+// ==========================================
+// Presence
+// ==========================================
+
+// Everyone in the room, including ourselves
+const participants = new Map<string, UserProfile>();
+
+// Sent before the roster, so we recognize ourselves in it
+socketClient.onIdentity((userId, userToken) => {
+    currentUserId = userId;
+    currentUserToken = userToken;
+    localStorage.setItem(USER_ID_KEY, userId);
+    localStorage.setItem(USER_TOKEN_KEY, userToken);
+});
+
+socketClient.onRoster((users, role) => {
+    applyRole(role);
+
+    participants.clear();
+    for (const user of users) {
+        participants.set(user.userId, user);
+    }
+
+    // Anyone who left while we were away is gone for good
+    for (const id of remoteCursors.keys()) {
+        if (!participants.has(id)) remoteCursors.delete(id);
+    }
+    canvasRenderer.renderCursors(remoteCursors);
+    renderParticipants();
+});
+
+socketClient.onUserJoined((user) => {
+    participants.set(user.userId, user);
+
+    // Keep an existing cursor label in sync with a rename
+    const cursor = remoteCursors.get(user.userId);
+    if (cursor) {
+        cursor.name = user.name;
+        canvasRenderer.renderCursors(remoteCursors);
+    }
+    renderParticipants();
+});
+
+socketClient.onUserLeft((userId) => {
+    participants.delete(userId);
+    remoteCursors.delete(userId);
+
+    // The server discarded their unfinished strokes; no STROKE_END will follow
+    for (const [id, stroke] of remoteStrokes) {
+        if (stroke.userId === userId) remoteStrokes.delete(id);
+    }
+
     canvasRenderer.renderCursors(remoteCursors);
+    renderAllLiveStrokes();
+    renderParticipants();
 });
 
+function renderParticipants() {
+    participantsList.replaceChildren();
+
+    for (const user of participants.values()) {
+        const item = document.createElement('li');
+        const swatch = document.createElement('span');
+        swatch.className = 'swatch';
+        swatch.style.background = user.color;
+        item.append(swatch, user.userId === currentUserId ? `${user.name} (you)` : user.name);
+
+        if (user.userId === currentUserId) {
+            item.classList.add('self');
+            item.title = 'Click to change your name';
+            item.addEventListener('click', renameSelf);
+        }
+        participantsList.append(item);
+    }
+}
+
+// Looking back through history, or at a saved version, is read-only
+function canEdit(): boolean {
+    return hasRole(currentRole, 'editor') && !timeline && !previewedCheckpoint;
+}
+
+/**
+ * Switches the toolbar between editing and read-only, and shows the share
+ * options only to owners (the only ones who can mint invite links).
+ */
+function applyRole(role: Role) {
+    currentRole = role;
+
+    editControls.forEach((control) => {
+        control.disabled = !canEdit();
+    });
+    shareRoleSelect.hidden = !hasRole(role, 'owner');
+    checkpointRestoreBtn.disabled = !hasRole(role, 'editor');
+    renderCheckpoints();
+    renderLayers();
+
+    if (!canEdit()) {
+        selectionTool.clear();
+        renderAllLiveStrokes();
+    }
+}
+
+function renameSelf() {
+    const name = prompt('Display name', participants.get(currentUserId)?.name ?? userName)?.trim();
+    if (!name) return;
+
+    userName = name;
+    localStorage.setItem(USER_NAME_KEY, name);
+    socketClient.emitProfileUpdate(name);
+}
+
 function renderAllLiveStrokes() {
-    const strokesToRender: { points: Point[], color: string, size: number }[] = [];
+    // The past has no strokes in progress, except the one being played back
+    if (timeline || previewedCheckpoint) {
+        canvasRenderer.renderLiveStrokes(timelineDrawing ? [timelineDrawing] : []);
+        return;
+    }
+
+    const strokesToRender: LiveStroke[] = [];
 
     // Add current live stroke if it exists (actively being drawn)
     if (liveStrokePoints.length > 0) {
         strokesToRender.push({
             points: liveStrokePoints,
             color: currentColor,
-            size: currentSize
+            size: currentSize,
+            brush: currentBrush
         });
     }
 
@@ -323,7 +1001,20 @@ function renderAllLiveStrokes() {
         strokesToRender.push(stroke);
     }
 
-    canvasRenderer.renderLiveStrokes(strokesToRender);
+    // Shapes: the one being dragged out, then those awaiting confirmation; then pending
+    // text and transforms, and the selection being dragged
+    const objectsToRender: CanvasObject[] = [...pendingLocalShapes.values()];
+    if (shapeDraft) {
+        objectsToRender.push(shapeDraft);
+    }
+    objectsToRender.push(...pendingLocalTexts.values());
+    objectsToRender.push(...[...pendingTransforms.values()].filter(object => !selectionTool.getDraggedIds().includes(object.id)));
+    objectsToRender.push(...selectionTool.getPreview());
+
+    canvasRenderer.renderLiveStrokes(strokesToRender, objectsToRender);
+    if (isSelectTool(currentTool)) {
+        canvasRenderer.renderSelection(selectionTool.getOverlay());
+    }
 }
 
 // ==========================================
@@ -334,17 +1025,37 @@ function renderAllLiveStrokes() {
 // Tool Management
 // ==========================================
 
-function setTool(tool: 'pen' | 'eraser') {
-    if (tool === 'pen') {
-        currentColor = colorPicker.value;
-        penBtn.classList.add('active');
-        eraserBtn.classList.remove('active');
-        inputLayer.style.cursor = 'crosshair';
+function setTool(tool: Tool) {
+    currentTool = tool;
+
+    penBtn.classList.toggle('active', tool === 'pen');
+    eraserBtn.classList.toggle('active', tool === 'eraser');
+    for (const [kind, button] of shapeButtons) {
+        button.classList.toggle('active', tool === kind);
+    }
+    textBtn.classList.toggle('active', tool === 'text');
+    noteBtn.classList.toggle('active', tool === 'note');
+    selectBtn.classList.toggle('active', tool === 'select');
+    lassoBtn.classList.toggle('active', tool === 'lasso');
+
+    if (isSelectTool(tool)) {
+        selectionTool.setMode(tool === 'lasso' ? 'lasso' : 'marquee');
     } else {
-        currentColor = '#f0f0f0'; // Match background
-        penBtn.classList.remove('active');
-        eraserBtn.classList.add('active');
+        selectionTool.clear();
+    }
+    renderAllLiveStrokes(); // Show or hide the selection
+
+    if (tool === 'eraser') {
+        // Object eraser: removes whole strokes/shapes it touches (see eraseAlong)
         inputLayer.style.cursor = 'cell'; // Square cursor for eraser
+    } else if (isTextTool(tool)) {
+        currentColor = colorPicker.value;
+        inputLayer.style.cursor = 'text';
+    } else if (isSelectTool(tool)) {
+        inputLayer.style.cursor = 'default';
+    } else {
+        currentColor = colorPicker.value;
+        inputLayer.style.cursor = 'crosshair';
     }
 }
 
@@ -357,8 +1068,8 @@ redoBtn.addEventListener('click', () => {
 });
 
 colorPicker.addEventListener('change', (e) => {
-    // Picking a color automatically switches to Pen
-    setTool('pen');
+    // Picking a color while erasing switches back to Pen; drawing tools keep going
+    setTool(currentTool === 'eraser' ? 'pen' : currentTool);
 });
 
 penBtn.addEventListener('click', () => {
@@ -369,14 +1080,490 @@ eraserBtn.addEventListener('click', () => {
     setTool('eraser');
 });
 
+for (const [kind, button] of shapeButtons) {
+    button.addEventListener('click', () => {
+        setTool(kind);
+    });
+}
+
+selectBtn.addEventListener('click', () => {
+    setTool('select');
+});
+
+lassoBtn.addEventListener('click', () => {
+    setTool('lasso');
+});
+
+deleteBtn.addEventListener('click', () => {
+    deleteSelection();
+});
+
+window.addEventListener('keydown', (e) => {
+    const target = e.target as HTMLElement;
+    if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+
+    if (e.key === 'Escape' && (timeline || previewedCheckpoint)) {
+        closeTimeline();
+        closeCheckpointPreview();
+        return;
+    }
+
+    if ((e.key === 'Delete' || e.key === 'Backspace') && isSelectTool(currentTool)) {
+        e.preventDefault();
+        deleteSelection();
+    }
+});
+
+textBtn.addEventListener('click', () => {
+    setTool('text');
+});
+
+noteBtn.addEventListener('click', () => {
+    setTool('note');
+});
+
+fontSizeSelect.addEventListener('change', () => {
+    currentFontSize = Number(fontSizeSelect.value);
+});
+
 sizeSlider.addEventListener('change', (e) => {
     currentSize = parseInt((e.target as HTMLInputElement).value, 10);
 });
 
+// Brush picker: options come from the shared presets
+for (const kind of BRUSH_KINDS) {
+    brushSelect.add(new Option(BRUSHES[kind].label, kind, kind === DEFAULT_BRUSH, kind === DEFAULT_BRUSH));
+}
+penOnlyToggle.addEventListener('change', () => {
+    inputHandler.setPenOnly(penOnlyToggle.checked);
+});
+
+brushSelect.addEventListener('change', () => {
+    if (isBrushKind(brushSelect.value)) {
+        currentBrush = brushSelect.value;
+    }
+    // Picking a brush means drawing with it
+    setTool('pen');
+});
+
+// ==========================================
+// History Timeline
+// ==========================================
+// A read-only look back: the slider picks a seq and the board shows the history up
+// to it; Play draws what came after, stroke by stroke. It works on a frozen copy
+// (see Timeline), so the live store keeps updating and nobody else is affected.
+
+function openTimeline() {
+    if (timeline) return;
+    closeCheckpointPreview();
+    finishEditing();
+
+    timeline = new Timeline(operationStore.getBaseStrokes(), operationStore.getSnapshot(), operationStore.getBaseSeq(), operationStore.getBaseLayers());
+    timelinePlayer = new TimelinePlayer(timeline, {
+        onApply: (ops, seq) => {
+            timelineSeq = seq;
+            canvasRenderer.applyTimelineOperations(ops);
+            updateTimelineControls();
+        },
+        onDrawing: (stroke) => {
+            timelineDrawing = stroke;
+            renderAllLiveStrokes();
+        },
+        onEnd: () => updateTimelineControls()
+    });
+    timelinePlayer.setSpeed(Number(timelineSpeed.value));
+
+    timelineSlider.min = String(timeline.getStartSeq());
+    timelineSlider.max = String(timeline.getEndSeq());
+    timelineBar.hidden = false;
+    historyBtn.classList.add('active');
+    applyRole(currentRole);
+
+    showTimelineAt(timeline.getEndSeq());
+}
+
+// Before a read-only view: finish anything half-done; the toolbar is disabled until we're back
+function finishEditing() {
+    if (textEditor.isOpen()) textEditor.commit();
+    selectionTool.clear();
+}
+
+function closeTimeline() {
+    if (!timeline) return;
+
+    timelinePlayer?.stop();
+    timeline = null;
+    timelinePlayer = null;
+    timelineDrawing = null;
+
+    timelineBar.hidden = true;
+    historyBtn.classList.remove('active');
+    canvasRenderer.hideTimeline();
+    applyRole(currentRole);
+    renderAllLiveStrokes();
+}
+
+function showTimelineAt(seq: number) {
+    if (!timeline) return;
+
+    timelineSeq = seq;
+    canvasRenderer.showTimeline(timeline.getBaseStrokes(), timeline.getOperationsUntil(seq), timeline.getBaseLayers());
+    updateTimelineControls();
+}
+
+function updateTimelineControls() {
+    if (!timeline) return;
+
+    timelineSlider.value = String(timelineSeq);
+    timelineLabel.textContent = `${timelineSeq} / ${timeline.getEndSeq()}`;
+    timelinePlayBtn.textContent = timelinePlayer?.isPlaying() ? 'Pause' : 'Play';
+}
+
+historyBtn.addEventListener('click', () => {
+    if (timeline) {
+        closeTimeline();
+    } else {
+        openTimeline();
+    }
+});
+
+timelineCloseBtn.addEventListener('click', () => {
+    closeTimeline();
+});
+
+timelinePlayBtn.addEventListener('click', () => {
+    if (!timeline || !timelinePlayer) return;
+
+    if (timelinePlayer.isPlaying()) {
+        timelinePlayer.stop();
+    } else {
+        // From the start when at the end, otherwise from where the slider is
+        if (timelineSeq >= timeline.getEndSeq()) {
+            showTimelineAt(timeline.getStartSeq());
+        }
+        timelinePlayer.play(timelineSeq);
+    }
+    updateTimelineControls();
+});
+
+// Scrubbing refolds the history; coalesced to one fold per frame
+let timelineScrubPending = false;
+timelineSlider.addEventListener('input', () => {
+    timelinePlayer?.stop();
+    if (timelineScrubPending) return;
+    timelineScrubPending = true;
+
+    requestAnimationFrame(() => {
+        timelineScrubPending = false;
+        showTimelineAt(Number(timelineSlider.value));
+    });
+});
+
+timelineSpeed.addEventListener('change', () => {
+    timelinePlayer?.setSpeed(Number(timelineSpeed.value));
+});
+
+// ==========================================
+// Versions (Checkpoints)
+// ==========================================
+// Named copies of the board, kept by the server. A preview shows one read-only,
+// the way the timeline shows the past; restoring commits it for everyone as one
+// batch, which arrives like any other operations and which we can undo.
+
+socketClient.onCheckpoints((list) => {
+    checkpoints = list;
+    renderCheckpoints();
+});
+
+function renderCheckpoints() {
+    versionsList.replaceChildren();
+
+    if (checkpoints.length === 0) {
+        const empty = document.createElement('li');
+        empty.textContent = 'No saved versions yet';
+        versionsList.append(empty);
+        return;
+    }
+
+    // Newest first
+    for (const checkpoint of [...checkpoints].reverse()) {
+        const item = document.createElement('li');
+
+        const name = document.createElement('span');
+        name.className = 'version-name';
+        name.textContent = checkpoint.name;
+        name.title = `${checkpoint.name}\nSaved ${new Date(checkpoint.createdAt).toLocaleString()} (seq ${checkpoint.seq})`;
+
+        const preview = document.createElement('button');
+        preview.textContent = 'Preview';
+        preview.addEventListener('click', () => previewCheckpoint(checkpoint.id));
+
+        const restore = document.createElement('button');
+        restore.textContent = 'Restore';
+        restore.disabled = !hasRole(currentRole, 'editor');
+        restore.addEventListener('click', () => restoreCheckpoint(checkpoint));
+
+        const remove = document.createElement('button');
+        remove.textContent = '×';
+        remove.title = 'Delete this version';
+        remove.disabled = !hasRole(currentRole, 'editor');
+        remove.addEventListener('click', () => deleteCheckpoint(checkpoint));
+
+        item.append(name, preview, restore, remove);
+        versionsList.append(item);
+    }
+}
+
+/**
+ * Sends a request to the room's checkpoint API, telling the user if it fails.
+ * @returns The response, or null if it failed.
+ */
+async function requestCheckpoints(action: string, method: string, path: string, body?: unknown): Promise<Response | null> {
+    const headers: Record<string, string> = { ...authHeaders() };
+    if (body !== undefined) {
+        headers['Content-Type'] = 'application/json';
+    }
+
+    try {
+        const response = await fetch(`${SERVER_URL}/rooms/${encodeURIComponent(ROOM_ID)}/checkpoints${path}`, {
+            method,
+            headers,
+            body: body !== undefined ? JSON.stringify(body) : undefined
+        });
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({}));
+            alert(`${action} failed: ${error.error ?? response.statusText}`);
+            return null;
+        }
+        return response;
+    } catch (err) {
+        console.error(`${action} failed:`, err);
+        alert(`${action} failed: server unreachable`);
+        return null;
+    }
+}
+
+async function saveCheckpoint() {
+    const name = prompt('Name this version', `Version ${checkpoints.length + 1}`)?.trim();
+    if (!name) return;
+
+    // The new list arrives as S_CHECKPOINTS
+    await requestCheckpoints('Saving the version', 'POST', '', { name });
+}
+
+async function previewCheckpoint(checkpointId: string) {
+    const response = await requestCheckpoints('Loading the version', 'GET', `/${encodeURIComponent(checkpointId)}`);
+    if (!response) return;
+    const checkpoint = await response.json() as Checkpoint;
+
+    closeTimeline();
+    finishEditing();
+
+    previewedCheckpoint = checkpoint;
+    canvasRenderer.showTimeline(checkpoint.objects, [], checkpoint.layers);
+    checkpointLabel.textContent = `Previewing “${checkpoint.name}”`;
+    checkpointBar.hidden = false;
+    applyRole(currentRole);
+    renderAllLiveStrokes();
+}
+
+function closeCheckpointPreview() {
+    if (!previewedCheckpoint) return;
+
+    previewedCheckpoint = null;
+    checkpointBar.hidden = true;
+    canvasRenderer.hideTimeline();
+    applyRole(currentRole);
+    renderAllLiveStrokes();
+}
+
+async function restoreCheckpoint(checkpoint: CheckpointSummary) {
+    if (!confirm(`Restore “${checkpoint.name}” for everyone in the room? You can undo it.`)) return;
+
+    const path = `/${encodeURIComponent(checkpoint.id)}/restore`;
+    if (await requestCheckpoints('Restoring the version', 'POST', path)) {
+        // Back to the live board, where the restore is arriving
+        closeCheckpointPreview();
+        closeTimeline();
+    }
+}
+
+async function deleteCheckpoint(checkpoint: CheckpointSummary) {
+    if (!confirm(`Delete the version “${checkpoint.name}”?`)) return;
+
+    await requestCheckpoints('Deleting the version', 'DELETE', `/${encodeURIComponent(checkpoint.id)}`);
+}
+
+versionsBtn.addEventListener('click', () => {
+    versionsPanel.hidden = !versionsPanel.hidden;
+    versionsBtn.classList.toggle('active', !versionsPanel.hidden);
+});
+
+saveVersionBtn.addEventListener('click', () => {
+    saveCheckpoint();
+});
+
+checkpointRestoreBtn.addEventListener('click', () => {
+    if (previewedCheckpoint) restoreCheckpoint(previewedCheckpoint);
+});
+
+checkpointCloseBtn.addEventListener('click', () => {
+    closeCheckpointPreview();
+});
+
+// ==========================================
+// Layers
+// ==========================================
+// Layer changes are operations like any other: they come back through onOperation
+// (and can be undone), and the panel follows the committed layers. Objects on
+// hidden or locked layers can't be picked, and new objects go on the active layer.
+
+/**
+ * Catches up with a change to the committed layers: the panel, the active layer
+ * (its creation may have been undone), and our pending changes to objects on a
+ * layer that was just locked. The server got those after the lock and refuses
+ * them (see room-owner.ts), so they will never come back.
+ */
+function refreshLayers() {
+    const layers = canvasRenderer.getLayers();
+    if (layers === shownLayers) return;
+    shownLayers = layers;
+
+    if (createdLayerId && layers.some(layer => layer.id === createdLayerId)) {
+        activeLayerId = createdLayerId;
+        createdLayerId = null;
+    }
+    if (!layers.some(layer => layer.id === activeLayerId)) {
+        activeLayerId = DEFAULT_LAYER_ID;
+    }
+
+    for (const id of pendingErasedStrokes) {
+        if (canvasRenderer.isOnLockedLayer(id)) pendingErasedStrokes.delete(id);
+    }
+    for (const id of [...pendingLocalTexts.keys(), ...pendingTransforms.keys()]) {
+        if (canvasRenderer.isOnLockedLayer(id)) {
+            pendingLocalTexts.delete(id);
+            pendingTransforms.delete(id);
+        }
+    }
+    renderLayers();
+}
+
+// New objects would be refused on a locked layer, and invisible on a hidden one
+function canDrawOnActiveLayer(): boolean {
+    const layer = canvasRenderer.getLayers().find(layer => layer.id === activeLayerId);
+    return layer !== undefined && !layer.hidden && !layer.locked;
+}
+
+function renderLayers() {
+    layersList.replaceChildren();
+    const layers = canvasRenderer.getLayers();
+
+    // Top first, the way they stack
+    for (let i = layers.length - 1; i >= 0; i--) {
+        const layer = layers[i];
+        const item = document.createElement('li');
+        item.classList.toggle('active', layer.id === activeLayerId);
+
+        const name = document.createElement('span');
+        name.className = 'layer-name';
+        name.textContent = layer.name;
+        name.title = `${layer.name}\nClick to draw on this layer, double-click to rename`;
+        name.addEventListener('click', () => {
+            activeLayerId = layer.id;
+            renderLayers();
+        });
+        name.addEventListener('dblclick', () => renameLayer(layer));
+
+        const visibility = document.createElement('button');
+        visibility.textContent = layer.hidden ? 'Show' : 'Hide';
+        visibility.addEventListener('click', () => socketClient.emitUpdateLayer(layer.id, { hidden: !layer.hidden }));
+
+        const lock = document.createElement('button');
+        lock.textContent = layer.locked ? 'Unlock' : 'Lock';
+        lock.addEventListener('click', () => socketClient.emitUpdateLayer(layer.id, { locked: !layer.locked }));
+
+        const up = document.createElement('button');
+        up.textContent = '↑';
+        up.title = 'Move the layer up';
+        up.addEventListener('click', () => socketClient.emitMoveLayer(layer.id, i + 1));
+
+        const down = document.createElement('button');
+        down.textContent = '↓';
+        down.title = 'Move the layer down';
+        down.addEventListener('click', () => socketClient.emitMoveLayer(layer.id, i - 1));
+
+        const moveHere = document.createElement('button');
+        moveHere.textContent = '⇤';
+        moveHere.title = 'Move the selected objects to this layer';
+        moveHere.addEventListener('click', () => moveSelectionToLayer(layer.id));
+
+        visibility.disabled = lock.disabled = !canEdit();
+        up.disabled = !canEdit() || i === layers.length - 1;
+        down.disabled = !canEdit() || i === 0;
+        moveHere.disabled = !canEdit() || layer.locked;
+
+        item.append(name, visibility, lock, up, down, moveHere);
+        layersList.append(item);
+    }
+}
+
+function addLayer() {
+    const name = prompt('Name the new layer', `Layer ${canvasRenderer.getLayers().length + 1}`)?.trim().slice(0, MAX_LAYER_NAME_LENGTH);
+    if (!name) return;
+
+    const layer: Layer = { id: uuidv4(), name, hidden: false, locked: false };
+    createdLayerId = layer.id;
+    socketClient.emitAddLayer(layer);
+}
+
+function renameLayer(layer: Layer) {
+    if (!canEdit()) return;
+
+    const name = prompt('Rename the layer', layer.name)?.trim().slice(0, MAX_LAYER_NAME_LENGTH);
+    if (!name || name === layer.name) return;
+    socketClient.emitUpdateLayer(layer.id, { name });
+}
+
+// Keeps the objects' stacking order within the layer (one undoable step)
+function moveSelectionToLayer(layerId: string) {
+    const ids = selectionTool.getSelectedIds();
+    if (ids.length === 0) return;
+
+    socketClient.emitMoveToLayer(ids, layerId);
+}
+
+layersBtn.addEventListener('click', () => {
+    layersPanel.hidden = !layersPanel.hidden;
+    layersBtn.classList.toggle('active', !layersPanel.hidden);
+});
+
+addLayerBtn.addEventListener('click', () => {
+    addLayer();
+});
+
 // Room Controls
+
+/**
+ * Creates a secured room (we become its owner) and opens it.
+ * Falls back to an open room if the server can't create one.
+ */
+async function createRoomAndOpen() {
+    try {
+        const response = await fetch(`${SERVER_URL}/rooms`, { method: 'POST' });
+        if (!response.ok) throw new Error(`Room creation failed: ${response.status}`);
+
+        const { roomId: newId, token } = await response.json();
+        localStorage.setItem(tokenKey(newId), token);
+        window.location.href = `/?roomId=${encodeURIComponent(newId)}`;
+    } catch (err) {
+        console.error('Could not create a secured room, opening an open one:', err);
+        window.location.href = `/?roomId=${uuidv4()}`;
+    }
+}
+
 createRoomBtn.addEventListener('click', () => {
-    const newId = uuidv4();
-    window.location.href = `/?roomId=${newId}`;
+    createRoomAndOpen();
 });
 
 joinRoomBtn.addEventListener('click', () => {
@@ -386,8 +1573,32 @@ joinRoomBtn.addEventListener('click', () => {
     }
 });
 
-shareBtn.addEventListener('click', () => {
-    navigator.clipboard.writeText(window.location.href).then(() => {
+// Owners mint an invite link for the role picked next to the button.
+// Everyone else copies the room's address (enough for an open room).
+shareBtn.addEventListener('click', async () => {
+    let link = window.location.href;
+
+    if (hasRole(currentRole, 'owner')) {
+        try {
+            const response = await fetch(`${SERVER_URL}/rooms/${encodeURIComponent(ROOM_ID)}/share`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', ...authHeaders() },
+                body: JSON.stringify({ role: shareRoleSelect.value })
+            });
+            const body = await response.json().catch(() => ({}));
+            if (!response.ok) {
+                alert(`Sharing failed: ${body.error ?? response.statusText}`);
+                return;
+            }
+            link = body.link;
+        } catch (err) {
+            console.error('Sharing failed:', err);
+            alert('Sharing failed: server unreachable');
+            return;
+        }
+    }
+
+    navigator.clipboard.writeText(link).then(() => {
         const originalText = shareBtn.textContent;
         shareBtn.textContent = 'Copied!';
         setTimeout(() => {
@@ -396,6 +1607,54 @@ shareBtn.addEventListener('click', () => {
     });
 });
 
+// For the HTTP API (share, import, checkpoints); secured rooms check the same token as
+// the socket, and changes are attributed to the user our identity token proves
+function authHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (ROOM_TOKEN) headers.Authorization = `Bearer ${ROOM_TOKEN}`;
+    if (currentUserToken) headers['X-User-Token'] = currentUserToken;
+    return headers;
+}
+
+exportBtn.addEventListener('click', async () => {
+    // Option values look like "png:2" (format and scale)
+    const [format, scale] = exportFormat.value.split(':');
+    try {
+        const blob = await exporter.export(compositeLayers(operationStore.getVisibleStrokes(), operationStore.getLayers()), format as ExportFormat, Number(scale ?? 1));
+        exporter.download(blob, `canvas-${ROOM_ID}.${format}`);
+    } catch (err) {
+        console.error('Export failed:', err);
+    }
+});
+
+importBtn.addEventListener('click', () => {
+    importInput.click();
+});
+
+importInput.addEventListener('change', async () => {
+    const file = importInput.files?.[0];
+    importInput.value = ''; // Allow importing the same file again
+    if (!file) return;
+
+    // The server validates the document and commits it as one undoable batch.
+    // The strokes then arrive like any other operation (BROADCAST_OPERATION).
+    try {
+        const response = await fetch(`${SERVER_URL}/rooms/${encodeURIComponent(ROOM_ID)}/import`, {
+            method: 'POST',
+            headers: { 'Content-Type': file.type || 'text/plain', ...authHeaders() },
+            body: await file.text()
+        });
+
+        if (!response.ok) {
+            const body = await response.json().catch(() => ({}));
+            alert(`Import failed: ${body.error ?? response.statusText}`);
+        }
+    } catch (err) {
+        console.error('Import failed:', err);
+        alert('Import failed: server unreachable');
+    }
+});
+
 // ==========================================
 // Start
 // ==========================================
@@ -408,8 +1667,7 @@ async function initializeApp() {
         // Wait for server to be ready (with retries and backoff)
         await healthCheck.waitForServer();
         
-        // Server is ready, now connect WebSocket
-        statusDiv.innerHTML = `<span style="color: green;">✅ Connecting to room...</span>`;
+        // Server is ready, now connect WebSocket (status updates via onConnectionStateChange)
         socketClient.connect();
         
         // Setup input handling
@@ -422,18 +1680,37 @@ async function initializeApp() {
 }
 
 // Handle socket connection events
-socketClient.onConnect(() => {
-    statusDiv.innerHTML = `<span style="color: green;">✅ Connected to room: ${ROOM_ID}</span>`;
+// SocketClient reconnects on its own and queues our strokes while offline,
+// so pending strokes stay on screen until the server confirms them.
+socketClient.onConnectionStateChange((state, queued) => {
+    const pendingNote = queued > 0 ? ` (${queued} pending)` : '';
+
+    switch (state) {
+        case 'connecting':
+            statusDiv.innerHTML = `<span style="color: orange;">🔄 Connecting to room...</span>`;
+            break;
+        case 'connected':
+            statusDiv.innerHTML = `<span style="color: green;">✅ Connected to room: ${ROOM_ID}${canEdit() ? '' : ' (view only)'}</span>`;
+            break;
+        case 'reconnecting':
+            statusDiv.innerHTML = `<span style="color: orange;">🔄 Connection lost, reconnecting...${pendingNote}</span>`;
+            break;
+        case 'disconnected': {
+            statusDiv.innerHTML = `<span style="color: red;">❌ Disconnected${pendingNote}. <button onclick="location.reload()" style="margin-left: 8px; padding: 4px 8px; background: #007acc; color: white; border: none; border-radius: 4px; cursor: pointer;">Reload</button></span>`;
+            // The server's reason, if it closed or refused the connection (e.g. the room is full)
+            const reason = socketClient.getDisconnectMessage();
+            if (reason) {
+                const note = document.createElement('div');
+                note.textContent = reason;
+                statusDiv.firstElementChild?.append(note);
+            }
+            break;
+        }
+    }
 });
 
 socketClient.onError((error) => {
     console.error('WebSocket error:', error);
-    
-    // Clear pending strokes since we can't confirm them
-    pendingLocalStrokes.clear();
-    renderAllLiveStrokes();
-    
-    statusDiv.innerHTML = `<span style="color: red;">❌ Connection lost. <button onclick="location.reload()" style="margin-left: 8px; padding: 4px 8px; background: #007acc; color: white; border: none; border-radius: 4px; cursor: pointer;">Reconnect</button></span>`;
 });
 
 // Start the application
@@ -442,7 +1719,7 @@ initializeApp();
 // Handle resize
 window.addEventListener('resize', () => {
     canvasRenderer.resize(window.innerWidth, window.innerHeight);
-    canvasRenderer.renderHistory(operationStore.getSnapshot());
+    canvasRenderer.renderBase();
 });
 
 // Initial resize
@@ -0,0 +1,96 @@
+/**
+ * The viewport onto the infinite canvas.
+ *
+ * COORDINATE SPACES:
+ * - **World**: Where strokes live. Unbounded, shared by every client.
+ * - **Screen**: CSS pixels relative to the canvas element's top-left corner.
+ *
+ * screen = (world - offset) * zoom
+ *
+ * Each client has its own camera; it is never synced. Changing it only
+ * affects how the (shared) world is projected onto this screen.
+ */
+export class Camera {
+    public static readonly MIN_ZOOM = 0.1;
+    public static readonly MAX_ZOOM = 8;
+
+    // World coordinate shown at the screen's top-left corner
+    private offsetX = 0;
+    private offsetY = 0;
+    private zoom = 1;
+
+    private listeners: (() => void)[] = [];
+
+    public getZoom(): number {
+        return this.zoom;
+    }
+
+    public getOffset(): { x: number, y: number } {
+        return { x: this.offsetX, y: this.offsetY };
+    }
+
+    public screenToWorld(x: number, y: number): { x: number, y: number } {
+        return {
+            x: x / this.zoom + this.offsetX,
+            y: y / this.zoom + this.offsetY
+        };
+    }
+
+    public worldToScreen(x: number, y: number): { x: number, y: number } {
+        return {
+            x: (x - this.offsetX) * this.zoom,
+            y: (y - this.offsetY) * this.zoom
+        };
+    }
+
+    /**
+     * Moves the view by a screen-space delta, so content follows the pointer.
+     */
+    public panBy(dx: number, dy: number) {
+        if (dx === 0 && dy === 0) return;
+
+        this.offsetX -= dx / this.zoom;
+        this.offsetY -= dy / this.zoom;
+        this.notify();
+    }
+
+    /**
+     * Multiplies the zoom by `factor`, keeping the world point under
+     * the given screen position fixed (zoom "towards the cursor").
+     */
+    public zoomAt(factor: number, x: number, y: number) {
+        const nextZoom = Math.min(Camera.MAX_ZOOM, Math.max(Camera.MIN_ZOOM, this.zoom * factor));
+        if (nextZoom === this.zoom) return;
+
+        const anchor = this.screenToWorld(x, y);
+        this.zoom = nextZoom;
+        this.offsetX = anchor.x - x / this.zoom;
+        this.offsetY = anchor.y - y / this.zoom;
+        this.notify();
+    }
+
+    /**
+     * The world-space rectangle visible on a screen of the given size.
+     */
+    public getVisibleBounds(width: number, height: number): { minX: number, minY: number, maxX: number, maxY: number } {
+        return {
+            minX: this.offsetX,
+            minY: this.offsetY,
+            maxX: this.offsetX + width / this.zoom,
+            maxY: this.offsetY + height / this.zoom
+        };
+    }
+
+    /**
+     * Registers a callback fired whenever the view changes.
+     */
+    public onChange(callback: () => void) {
+        this.listeners.push(callback);
+    }
+
+    private notify() {
+        for (const listener of this.listeners) {
+            listener();
+        }
+    }
+}
@@ -1,29 +1,72 @@
-import { ServerCanvasOperation, Stroke, Point } from '../../shared/types';
+import { CanvasObject, Layer, ServerCanvasOperation, Shape, Stroke, TextBox } from '../../shared/types';
+import { getBrush, getPaintOrder } from '../../shared/brushes';
+import { getStrokeOutline, traceOutline } from '../../shared/ink';
+import { compositeLayers, getObjectLayer } from '../../shared/layers';
+import { getArrowHead, getShapeBox, isShape } from '../../shared/shapes';
+import { TEXT_FONT_FAMILY, getTextLayout, isTextBox } from '../../shared/text';
+import { SelectionOverlay } from '../input/SelectionTool';
+import { Camera } from './Camera';
+import { SceneIndex } from './SceneIndex';
+import { Bounds } from './SpatialIndex';
+import { TileCache } from './TileCache';
+import { DEFAULT_EXPORT_PADDING, getExportBounds } from '../../shared/export';
 
 /**
  * Handles the rendering logic for the collaborative canvas.
  * 
  * ARCHITECTURE:
  * We use a dual-layer strategy for performance:
- * 1.  **Base Layer**: Contains the "committed" state (history). Only re-rendered when
- *     history changes (undo/redo/sync).
+ * 1.  **Base Layer**: Contains the "committed" state (history). Composited from a
+ *     tile cache; a history change only repaints the tiles the affected stroke touches.
  * 2.  **Live Layer**: Contains "active" strokes (users currently drawing). Cleared and
  *     re-drawn frequently (every frame or mouse event).
  * 
  * This separation ensures that a user drawing a new line doesn't trigger a re-render
  * of thousands of existing strokes.
+ * 
+ * The committed history is kept as an incrementally maintained visible-stroke map
+ * with a spatial index (SceneIndex), so no event refolds or redraws the whole log.
+ * Each tile composites the room's layers bottom to top, leaving hidden ones out;
+ * a change to the layers repaints every tile.
+ * 
+ * Strokes are in world coordinates; the base and live layers draw them through the
+ * camera transform and skip strokes outside the viewport. The cursor layer draws in
+ * screen space so cursors keep a constant size at any zoom.
+ */
+
+/**
+ * A stroke being drawn (or awaiting confirmation): just what it takes to draw it.
  */
+export type LiveStroke = Pick<Stroke, 'points' | 'color' | 'size' | 'brush'>;
+
 export class CanvasRenderer {
     private baseCtx: CanvasRenderingContext2D;
     private liveCtx: CanvasRenderingContext2D;
     private cursorCtx: CanvasRenderingContext2D;
     private width: number = 0;
     private height: number = 0;
+    private dpr: number = 1;
+
+    // Incrementally maintained fold of the committed history
+    private scene = new SceneIndex();
+    private tiles = new TileCache();
+
+    // Shown instead of the committed history while looking back through it (see showTimeline)
+    private timelineScene: SceneIndex | null = null;
+
+    // Strokes left out of the base layer (see setHiddenStrokes)
+    private hiddenStrokeIds = new Set<string>();
+
+    // Pencil grain fills, per color (see getGrainPattern)
+    private grainPatterns = new Map<string, CanvasPattern>();
+    private readonly GRAIN_SIZE = 64;
+    private readonly MAX_GRAIN_PATTERNS = 32;
 
     constructor(
         private baseCanvas: HTMLCanvasElement,
         private liveCanvas: HTMLCanvasElement,
-        private cursorCanvas: HTMLCanvasElement
+        private cursorCanvas: HTMLCanvasElement,
+        private camera: Camera
     ) {
         // We assume 2D context is available.
         this.baseCtx = this.baseCanvas.getContext('2d')!;
@@ -46,6 +89,7 @@ export class CanvasRenderer {
         this.height = height;
 
         const dpr = window.devicePixelRatio || 1;
+        this.dpr = dpr;
 
         // 1. Set the CSS size (layout size)
         this.baseCanvas.style.width = `${width}px`;
@@ -63,10 +107,9 @@ export class CanvasRenderer {
         this.cursorCanvas.width = width * dpr;
         this.cursorCanvas.height = height * dpr;
 
-        // 3. Scale the context so drawing operations use logical pixels
-        this.baseCtx.scale(dpr, dpr);
-        this.liveCtx.scale(dpr, dpr);
-        this.cursorCtx.scale(dpr, dpr);
+        // 3. Scale the cursor context so drawing operations use logical pixels.
+        // Base and live layers get the full camera transform on each render.
+        this.cursorCtx.setTransform(dpr, 0, 0, dpr, 0, 0);
 
         // Reset context properties after resize (they get cleared)
         this.baseCtx.lineCap = 'round';
@@ -76,70 +119,366 @@ export class CanvasRenderer {
     }
 
     /**
-     * Renders remote cursors on the cursor layer.
+     * Renders remote cursors on the cursor layer, each with its user's name.
      */
-    public renderCursors(cursors: Map<string, { x: number, y: number, color: string }>) {
-        this.cursorCtx.clearRect(0, 0, this.width, this.height);
+    public renderCursors(cursors: Map<string, { x: number, y: number, color: string, name?: string }>) {
+        const ctx = this.cursorCtx;
+        ctx.clearRect(0, 0, this.width, this.height);
 
         for (const cursor of cursors.values()) {
-            this.cursorCtx.fillStyle = cursor.color;
-            this.cursorCtx.beginPath();
-            this.cursorCtx.arc(cursor.x, cursor.y, 5, 0, Math.PI * 2);
-            this.cursorCtx.fill();
+            // Cursors arrive in world coordinates
+            const position = this.camera.worldToScreen(cursor.x, cursor.y);
+            if (position.x < 0 || position.y < 0 || position.x > this.width || position.y > this.height) {
+                continue;
+            }
+
+            ctx.fillStyle = cursor.color;
+            ctx.beginPath();
+            ctx.arc(position.x, position.y, 5, 0, Math.PI * 2);
+            ctx.fill();
 
-            // Optional: Draw a label or name if we had one
+            if (cursor.name) {
+                this.drawCursorLabel(position.x + 8, position.y + 8, cursor.name, cursor.color);
+            }
         }
     }
 
+    // Name tag: white text on a pill in the user's color
+    private drawCursorLabel(x: number, y: number, name: string, color: string) {
+        const ctx = this.cursorCtx;
+        ctx.font = '12px -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
+        ctx.textBaseline = 'middle';
+
+        const paddingX = 6;
+        const height = 18;
+        const width = ctx.measureText(name).width + paddingX * 2;
+
+        ctx.fillStyle = color;
+        ctx.beginPath();
+        ctx.roundRect(x, y, width, height, 4);
+        ctx.fill();
+
+        ctx.fillStyle = '#ffffff';
+        ctx.fillText(name, x + paddingX, y + height / 2);
+    }
+
+    // ==========================================
+    // Base Layer (committed history)
+    // ==========================================
+
+    /**
+     * Replaces the committed history, e.g. after a SYNC, and repaints the base layer.
+     * This is the only O(N) path; everything else updates incrementally.
+     *
+     * @param baseStrokes Objects from the compacted snapshot, in z-order.
+     * @param operations The authoritative operations after the snapshot.
+     * @param baseLayers Layers from the compacted snapshot, bottom first.
+     */
+    public resetHistory(baseStrokes: ReadonlyArray<CanvasObject>, operations: ReadonlyArray<ServerCanvasOperation>, baseLayers?: ReadonlyArray<Layer>) {
+        this.scene.reset(baseStrokes, operations, baseLayers);
+        this.tiles.clear();
+        this.renderBase();
+    }
+
+    /**
+     * Applies committed (or redone) operations, repainting only affected tiles.
+     * A batch is applied in one go and repainted once.
+     */
+    public applyOperations(ops: ReadonlyArray<ServerCanvasOperation>) {
+        this.updateScene(this.scene, () => {
+            for (const op of ops) {
+                this.invalidate(this.scene.apply(op));
+            }
+        });
+    }
+
+    /**
+     * Reverts undone operations, repainting only affected tiles.
+     */
+    public revertOperations(opIds: ReadonlyArray<string>) {
+        this.updateScene(this.scene, () => {
+            for (const opId of opIds) {
+                this.invalidate(this.scene.revert(opId));
+            }
+        });
+    }
+
+    /**
+     * The committed layers, bottom first. A new array whenever they change.
+     */
+    public getLayers(): ReadonlyArray<Layer> {
+        return this.scene.getLayers();
+    }
+
     /**
-     * Renders the authoritative history onto the base layer.
-     * This is an expensive operation (O(N) where N is total strokes), so call sparingly.
-     * 
-     * @param operations The full authoritative history from the server.
+     * Hides strokes from the base layer without touching history,
+     * e.g. strokes erased locally whose removal hasn't been confirmed yet.
      */
-    public renderHistory(operations: ReadonlyArray<ServerCanvasOperation>) {
-        // Clear the base layer
+    public setHiddenStrokes(strokeIds: ReadonlySet<string>) {
+        const changed: Bounds[] = [];
+        for (const id of this.hiddenStrokeIds) {
+            if (!strokeIds.has(id)) this.collectBounds(id, changed);
+        }
+        for (const id of strokeIds) {
+            if (!this.hiddenStrokeIds.has(id)) this.collectBounds(id, changed);
+        }
+
+        this.hiddenStrokeIds = new Set(strokeIds);
+        if (changed.length > 0) {
+            this.invalidate(changed);
+            this.renderBase();
+        }
+    }
+
+    /**
+     * Shows a past state of the board on the base layer instead of the committed
+     * history, which keeps being updated underneath. Calling it again replaces the state.
+     *
+     * @param baseStrokes Objects from the compacted snapshot, in z-order.
+     * @param operations The operations up to the point in time shown.
+     * @param baseLayers Layers from the compacted snapshot, bottom first.
+     */
+    public showTimeline(baseStrokes: ReadonlyArray<CanvasObject>, operations: ReadonlyArray<ServerCanvasOperation>, baseLayers?: ReadonlyArray<Layer>) {
+        this.timelineScene ??= new SceneIndex();
+        this.timelineScene.reset(baseStrokes, operations, baseLayers);
+        this.tiles.clear();
+        this.renderBase();
+    }
+
+    /**
+     * Moves the past state shown forward, repainting only affected tiles (playback).
+     */
+    public applyTimelineOperations(ops: ReadonlyArray<ServerCanvasOperation>) {
+        const scene = this.timelineScene;
+        if (!scene) return;
+
+        this.updateScene(scene, () => {
+            for (const op of ops) {
+                this.invalidate(scene.apply(op));
+            }
+        });
+    }
+
+    /**
+     * Goes back to showing the committed history.
+     */
+    public hideTimeline() {
+        if (!this.timelineScene) return;
+
+        this.timelineScene = null;
+        this.tiles.clear();
+        this.renderBase();
+    }
+
+    /**
+     * Committed objects whose painted area intersects `bounds`, bottom to top.
+     * Backed by the spatial index; used for hit-testing, so objects on hidden
+     * or locked layers are left out.
+     */
+    public queryStrokes(bounds: Bounds): CanvasObject[] {
+        return this.scene.query(bounds)
+            .map(entry => entry.object)
+            .filter(object => this.isPickable(object));
+    }
+
+    /**
+     * A committed, visible object by ID, unless it is on a hidden or locked layer.
+     */
+    public getObject(strokeId: string): CanvasObject | undefined {
+        const object = this.scene.get(strokeId)?.object;
+        return object && this.isPickable(object) ? object : undefined;
+    }
+
+    /**
+     * Whether a committed object is on a locked layer, so the server refuses changes to it.
+     */
+    public isOnLockedLayer(strokeId: string): boolean {
+        const object = this.scene.get(strokeId)?.object;
+        return object !== undefined && getObjectLayer(object, this.scene.getLayers()).locked;
+    }
+
+    private isPickable(object: CanvasObject): boolean {
+        const layer = getObjectLayer(object, this.scene.getLayers());
+        return !layer.hidden && !layer.locked;
+    }
+
+    /**
+     * Composites the base layer from cached tiles.
+     * Only tiles that were invalidated (or scrolled into view) are repainted,
+     * so this is cheap enough to call on every change and every pan.
+     */
+    public renderBase() {
+        const zoom = this.camera.getZoom();
+        const offset = this.camera.getOffset();
+        this.tiles.setScale(zoom, this.dpr);
+
+        this.baseCtx.setTransform(1, 0, 0, 1, 0, 0);
         this.baseCtx.clearRect(0, 0, this.baseCanvas.width, this.baseCanvas.height);
 
-        // 1. Fold operations to get the final state of strokes
-        // We need to track which strokes are currently "added" and not "removed".
-        const visibleStrokes = new Map<string, Stroke>();
+        const range = this.tiles.getTileRange(this.camera.getVisibleBounds(this.width, this.height));
+        const scale = zoom * this.dpr;
 
-        for (const op of operations) {
-            if (op.type === 'ADD_STROKE') {
-                visibleStrokes.set(op.stroke.id, op.stroke);
-            } else if (op.type === 'REMOVE_STROKE') {
-                visibleStrokes.delete(op.strokeId);
+        for (let tx = range.minTX; tx <= range.maxTX; tx++) {
+            for (let ty = range.minTY; ty <= range.maxTY; ty++) {
+                const tile = this.tiles.getTile(tx, ty, (ctx, bounds) => this.paintTile(ctx, bounds));
+                const tileBounds = this.tiles.getTileBounds(tx, ty);
+
+                // Snap to device pixels; tiles are an integer number of device pixels
+                // apart, so rounding keeps neighbours seamless.
+                const x = Math.round((tileBounds.minX - offset.x) * scale);
+                const y = Math.round((tileBounds.minY - offset.y) * scale);
+                this.baseCtx.drawImage(tile.canvas, x, y);
             }
         }
+    }
+
+    private paintTile(ctx: CanvasRenderingContext2D, bounds: Bounds) {
+        // Hidden strokes are pending local erases; they don't apply to the past
+        const scene = this.timelineScene ?? this.scene;
+        const objects = scene.query(bounds)
+            .map(entry => entry.object)
+            .filter(object => this.timelineScene || !this.hiddenStrokeIds.has(object.id));
+
+        for (const object of getPaintOrder(compositeLayers(objects, scene.getLayers()))) {
+            this.drawObject(ctx, object);
+        }
+    }
+
+    // Runs a change to a scene and repaints: the affected tiles, or all of them if the layers changed
+    private updateScene(scene: SceneIndex, change: () => void) {
+        const layers = scene.getLayers();
+        change();
+        if (scene.getLayers() !== layers) {
+            this.tiles.clear();
+        }
+        this.renderBase();
+    }
+
+    private invalidate(areas: Bounds[]) {
+        for (const area of areas) {
+            this.tiles.invalidate(area);
+        }
+    }
+
+    private collectBounds(strokeId: string, out: Bounds[]) {
+        const entry = this.scene.get(strokeId);
+        if (entry) out.push(entry.bounds);
+    }
+
+    // ==========================================
+    // Export
+    // ==========================================
+
+    /**
+     * Renders objects into a new offscreen canvas cropped to the drawing,
+     * using the same drawing routines as the on-screen layers.
+     * Pass them composited (see compositeLayers), in the order they are stacked.
+     *
+     * @param scale Output pixels per world unit.
+     * @param background Fill color, or undefined for a transparent image.
+     */
+    public renderToImage(strokes: ReadonlyArray<CanvasObject>, scale: number, background?: string): HTMLCanvasElement {
+        const bounds = getExportBounds(strokes, DEFAULT_EXPORT_PADDING);
+
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.ceil(bounds.width * scale));
+        canvas.height = Math.max(1, Math.ceil(bounds.height * scale));
+
+        const ctx = canvas.getContext('2d')!;
+        if (background) {
+            ctx.fillStyle = background;
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+        }
+
+        ctx.setTransform(scale, 0, 0, scale, -bounds.x * scale, -bounds.y * scale);
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
 
-        // 3. Draw each visible stroke
-        for (const stroke of visibleStrokes.values()) {
-            this.drawStroke(this.baseCtx, stroke.points, stroke.color, stroke.size);
+        for (const object of getPaintOrder(strokes)) {
+            this.drawObject(ctx, object);
         }
+        return canvas;
     }
 
+    // ==========================================
+    // Live Layer (in-progress strokes)
+    // ==========================================
+
     /**
-     * Renders multiple live strokes (local and remote) onto the live layer.
+     * Renders multiple live strokes (local and remote) onto the live layer,
+     * plus objects being dragged out, moved, or awaiting confirmation.
      * This clears the live layer first.
+     *
+     * The live layer sits above the base layer, so a highlighter only drops beneath
+     * committed ink once it is committed; until then it is drawn translucent on top.
      */
-    public renderLiveStrokes(strokes: { points: Point[], color: string, size: number }[]) {
+    public renderLiveStrokes(strokes: LiveStroke[], objects: CanvasObject[] = []) {
         this.clearLive();
 
-        for (const stroke of strokes) {
+        for (const stroke of getPaintOrder(strokes)) {
             if (stroke.points.length > 0) {
-                this.drawStroke(this.liveCtx, stroke.points, stroke.color, stroke.size);
+                this.drawStroke(this.liveCtx, stroke);
             }
         }
+        for (const object of objects) {
+            this.drawObject(this.liveCtx, object);
+        }
+    }
+
+    /**
+     * Draws the selection box, its handles and the marquee/lasso being dragged
+     * on top of the live layer. Call after renderLiveStrokes, which clears it.
+     */
+    public renderSelection(overlay: SelectionOverlay) {
+        const ctx = this.liveCtx;
+        const lineWidth = 1 / this.camera.getZoom(); // One screen pixel
+        ctx.save();
+        ctx.lineWidth = lineWidth;
+        ctx.strokeStyle = '#1a73e8';
+        ctx.setLineDash([4 * lineWidth, 4 * lineWidth]);
+
+        if (overlay.area) {
+            ctx.fillStyle = 'rgba(26, 115, 232, 0.08)';
+            ctx.beginPath();
+            overlay.area.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+            ctx.closePath();
+            ctx.fill();
+            ctx.stroke();
+        }
+
+        const { bounds } = overlay;
+        if (bounds) {
+            ctx.strokeRect(bounds.minX, bounds.minY, bounds.maxX - bounds.minX, bounds.maxY - bounds.minY);
+            ctx.setLineDash([]);
+
+            const half = overlay.handleSize / 2;
+            ctx.fillStyle = '#ffffff';
+            if (overlay.rotateHandle) {
+                ctx.beginPath();
+                ctx.moveTo(overlay.rotateHandle.x, bounds.minY);
+                ctx.lineTo(overlay.rotateHandle.x, overlay.rotateHandle.y + half);
+                ctx.stroke();
+                ctx.beginPath();
+                ctx.arc(overlay.rotateHandle.x, overlay.rotateHandle.y, half, 0, Math.PI * 2);
+                ctx.fill();
+                ctx.stroke();
+            }
+            for (const handle of overlay.handles) {
+                ctx.fillRect(handle.x - half, handle.y - half, overlay.handleSize, overlay.handleSize);
+                ctx.strokeRect(handle.x - half, handle.y - half, overlay.handleSize, overlay.handleSize);
+            }
+        }
+
+        ctx.restore();
     }
 
     /**
      * Renders a single live stroke (in-progress) onto the live layer.
      * NOTE: This clears the entire live layer! Use renderLiveStrokes for multi-user.
      */
-    public renderLiveStroke(points: Point[], color: string, size: number) {
+    public renderLiveStroke(stroke: LiveStroke) {
         this.clearLive();
-        this.drawStroke(this.liveCtx, points, color, size);
+        this.drawStroke(this.liveCtx, stroke);
     }
 
     /**
@@ -147,63 +486,176 @@ export class CanvasRenderer {
      * Called when a stroke ends or is cancelled.
      */
     public clearLive() {
-        this.liveCtx.clearRect(0, 0, this.width, this.height);
+        this.clearLayer(this.liveCtx);
     }
 
     /**
-     * Core drawing routine using Quadratic Bezier curves for smoothing.
-     * 
-     * Algorithm:
-     * Instead of connecting points with straight lines (which look jagged),
-     * we use the midpoints between captured events as control points for
-     * quadratic curves. This creates a smooth, organic feel.
+     * Clears the live layer and leaves the camera transform applied,
+     * so subsequent drawing uses world coordinates.
      */
-    protected drawStroke(
-        ctx: CanvasRenderingContext2D,
-        points: Point[],
-        color: string,
-        size: number
-    ) {
-        if (points.length === 0) return;
+    private clearLayer(ctx: CanvasRenderingContext2D) {
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
 
-        ctx.strokeStyle = color;
-        ctx.lineWidth = size;
+        // screen = (world - offset) * zoom, then scaled by DPR for the bitmap
+        const zoom = this.camera.getZoom();
+        const offset = this.camera.getOffset();
+        const scale = zoom * this.dpr;
+        ctx.setTransform(scale, 0, 0, scale, -offset.x * scale, -offset.y * scale);
+    }
+
+    protected drawObject(ctx: CanvasRenderingContext2D, object: CanvasObject) {
+        // Moved/scaled/rotated objects are drawn from their stored geometry, through their transform
+        const m = object.transform;
+        if (m) {
+            ctx.save();
+            ctx.transform(m.a, m.b, m.c, m.d, m.e, m.f);
+        }
+
+        if (isShape(object)) {
+            this.drawShape(ctx, object);
+        } else if (isTextBox(object)) {
+            this.drawText(ctx, object);
+        } else {
+            this.drawStroke(ctx, object);
+        }
+
+        if (m) {
+            ctx.restore();
+        }
+    }
+
+    /**
+     * Draws a shape: fill first (rect/ellipse only), then the outline on top.
+     * Relies on the context's round caps/joins, like strokes.
+     */
+    protected drawShape(ctx: CanvasRenderingContext2D, shape: Shape) {
+        const { style } = shape;
+        ctx.strokeStyle = style.stroke;
+        ctx.lineWidth = style.strokeWidth;
         ctx.beginPath();
 
-        // Case 1: Single point (a dot)
-        if (points.length === 1) {
-            const p = points[0];
-            ctx.fillStyle = color;
-            ctx.arc(p.x, p.y, size / 2, 0, Math.PI * 2);
+        switch (shape.kind) {
+            case 'line':
+                ctx.moveTo(shape.start.x, shape.start.y);
+                ctx.lineTo(shape.end.x, shape.end.y);
+                break;
+
+            case 'arrow': {
+                ctx.moveTo(shape.start.x, shape.start.y);
+                ctx.lineTo(shape.end.x, shape.end.y);
+                const head = getArrowHead(shape);
+                if (head) {
+                    ctx.moveTo(head[0].x, head[0].y);
+                    ctx.lineTo(shape.end.x, shape.end.y);
+                    ctx.lineTo(head[1].x, head[1].y);
+                }
+                break;
+            }
+
+            case 'rect': {
+                const box = getShapeBox(shape);
+                ctx.rect(box.x, box.y, box.width, box.height);
+                break;
+            }
+
+            case 'ellipse': {
+                const box = getShapeBox(shape);
+                ctx.ellipse(box.x + box.width / 2, box.y + box.height / 2, box.width / 2, box.height / 2, 0, 0, Math.PI * 2);
+                break;
+            }
+        }
+
+        if (style.fill && (shape.kind === 'rect' || shape.kind === 'ellipse')) {
+            ctx.fillStyle = style.fill;
             ctx.fill();
-            return;
         }
+        ctx.stroke();
+    }
+
+    /**
+     * Draws a text box: the sticky-note background (if any), then one line at a time.
+     * Lines are capped at their estimated width (see shared/text.ts) so the text
+     * never paints outside the bounds the scene index knows about.
+     */
+    protected drawText(ctx: CanvasRenderingContext2D, text: TextBox) {
+        const layout = getTextLayout(text);
 
-        // Case 2: Multiple points (a curve)
-        // Move to the first point
-        ctx.moveTo(points[0].x, points[0].y);
+        if (text.background) {
+            ctx.fillStyle = text.background;
+            ctx.fillRect(text.x, text.y, layout.width, layout.height);
+        }
 
-        // Draw quadratic curves between points
-        // We stop at length - 1 because we need pairs of points
-        for (let i = 1; i < points.length - 1; i++) {
-            const p1 = points[i];
-            const p2 = points[i + 1];
+        ctx.fillStyle = text.color;
+        ctx.font = `${text.fontSize}px ${TEXT_FONT_FAMILY}`;
+        ctx.textBaseline = 'top';
+        layout.lines.forEach((line, i) => {
+            if (line.length === 0) return;
+            ctx.fillText(line, text.x + layout.padding, text.y + layout.padding + i * layout.lineHeight, layout.lineWidths[i]);
+        });
+    }
 
-            // The control point is p1 (the captured event)
-            // The end point of the curve is the midpoint between p1 and p2
-            const midPoint = {
-                x: (p1.x + p2.x) / 2,
-                y: (p1.y + p2.y) / 2
-            };
+    /**
+     * Core drawing routine: fills the stroke's variable-width outline.
+     *
+     * The outline (pressure, tapers, caps) comes from shared/ink.ts and is traced
+     * as quadratic curves through its midpoints, the same path the SVG export
+     * writes; opacity, blend mode and texture come from the stroke's brush.
+     * Every layer goes through here, so a stroke looks the same while being
+     * drawn, once committed and when exported.
+     */
+    protected drawStroke(ctx: CanvasRenderingContext2D, stroke: LiveStroke) {
+        if (stroke.points.length === 0) return;
+        const brush = getBrush(stroke.brush);
 
-            ctx.quadraticCurveTo(p1.x, p1.y, midPoint.x, midPoint.y);
+        ctx.save();
+        ctx.globalAlpha = brush.opacity;
+        ctx.globalCompositeOperation = brush.blend;
+        ctx.fillStyle = brush.texture === 'grain' ? this.getGrainPattern(ctx, stroke.color) : stroke.color;
+        ctx.beginPath();
+        traceOutline(getStrokeOutline(stroke.points, stroke.size, brush.ink), ctx);
+        ctx.fill();
+        ctx.restore();
+    }
+
+    /**
+     * A fill of `color` with per-pixel noise in its alpha, for pencil strokes.
+     * The noise is seeded, so every client (and every tile) shows the same grain;
+     * patterns follow the context transform, so the grain is anchored in world space.
+     */
+    private getGrainPattern(ctx: CanvasRenderingContext2D, color: string): CanvasPattern | string {
+        const cached = this.grainPatterns.get(color);
+        if (cached) return cached;
+
+        const canvas = document.createElement('canvas');
+        canvas.width = this.GRAIN_SIZE;
+        canvas.height = this.GRAIN_SIZE;
+        const grainCtx = canvas.getContext('2d')!;
+        grainCtx.fillStyle = color;
+        grainCtx.fillRect(0, 0, canvas.width, canvas.height);
+
+        // mulberry32
+        let seed = 0x9e3779b9;
+        const random = () => {
+            seed = (seed + 0x6d2b79f5) | 0;
+            let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+            t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+            return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+        };
+
+        const image = grainCtx.getImageData(0, 0, canvas.width, canvas.height);
+        for (let i = 3; i < image.data.length; i += 4) {
+            image.data[i] = Math.round(image.data[i] * (0.45 + 0.55 * random()));
         }
+        grainCtx.putImageData(image, 0, 0);
 
-        // Connect the last segment with a straight line
-        // (or we could use the last point as a control point, but this is standard)
-        const lastPoint = points[points.length - 1];
-        ctx.lineTo(lastPoint.x, lastPoint.y);
+        const pattern = ctx.createPattern(canvas, 'repeat');
+        if (!pattern) return color;
 
-        ctx.stroke();
+        if (this.grainPatterns.size >= this.MAX_GRAIN_PATTERNS) {
+            this.grainPatterns.clear();
+        }
+        this.grainPatterns.set(color, pattern);
+        return pattern;
     }
 }
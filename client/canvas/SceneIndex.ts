@@ -0,0 +1,238 @@
+import { CanvasObject, Layer, ServerCanvasOperation, Transform } from '../../shared/types';
+import { withTransformOf } from '../../shared/history';
+import { DEFAULT_LAYERS, foldLayers, isLayerOperation, moveToLayer } from '../../shared/layers';
+import { transformObject } from '../../shared/transform';
+import { Bounds, SpatialIndex } from './SpatialIndex';
+import { getObjectBounds } from './geometry';
+
+/**
+ * One history entry that touches an object.
+ * `z` is the entry's position in the log: the op's seq, or a negative
+ * number for objects that come from the compacted base snapshot.
+ */
+interface StrokeEntry {
+    opId: string;
+    z: number;
+    object: CanvasObject | null; // null for a removal, a transform or a layer move
+    update?: boolean;            // Only applies while the object is visible (UPDATE_TEXT)
+    transform?: Transform;       // Likewise; composed onto the visible object (TRANSFORM)
+    layerId?: string;            // Likewise; the layer the visible object moves to (MOVE_TO_LAYER)
+}
+
+/**
+ * A visible object (stroke, shape or text box), with its z-order and padded bounds.
+ */
+export interface SceneStroke {
+    object: CanvasObject;
+    z: number;
+    bounds: Bounds;
+}
+
+/**
+ * Incrementally maintained fold of the operation history.
+ *
+ * WHY:
+ * Refolding the whole log on every operation is O(N). Instead we keep, per object,
+ * the few operations that touch it. When one of them is applied or undone (even
+ * from the middle of the log), only that object's visibility is recomputed.
+ *
+ * The result is identical to `foldOperations` (shared/history.ts), including
+ * z-order: an object sits at the position of the ADD that last made it visible.
+ *
+ * Layer operations are few, so the layers are simply refolded from them
+ * (`foldLayers`) whenever one is applied or undone.
+ */
+export class SceneIndex {
+    private entriesByStroke = new Map<string, StrokeEntry[]>();
+    private strokeIdByOp = new Map<string, string>();
+    private visible = new Map<string, SceneStroke>();
+    private spatial = new SpatialIndex();
+
+    private baseLayers: ReadonlyArray<Layer> = DEFAULT_LAYERS;
+    private layerOps: ServerCanvasOperation[] = []; // In log order
+    private layers: ReadonlyArray<Layer> = DEFAULT_LAYERS;
+
+    /**
+     * Rebuilds everything from a snapshot and the operations after it.
+     */
+    public reset(
+        baseStrokes: ReadonlyArray<CanvasObject>,
+        operations: ReadonlyArray<ServerCanvasOperation>,
+        baseLayers: ReadonlyArray<Layer> = DEFAULT_LAYERS
+    ) {
+        this.entriesByStroke.clear();
+        this.strokeIdByOp.clear();
+        this.visible.clear();
+        this.spatial.clear();
+
+        this.baseLayers = baseLayers;
+        this.layerOps = operations.filter(isLayerOperation);
+        this.layers = foldLayers(this.baseLayers, this.layerOps);
+
+        // Base objects sit below every logged operation, in their snapshot order
+        baseStrokes.forEach((object, i) => {
+            this.addEntry(object.id, { opId: `base:${object.id}`, z: i - baseStrokes.length, object });
+        });
+        for (const op of operations) {
+            if (!isLayerOperation(op)) {
+                this.addEntry(...this.toEntry(op));
+            }
+        }
+
+        for (const strokeId of this.entriesByStroke.keys()) {
+            this.refresh(strokeId);
+        }
+    }
+
+    /**
+     * Applies a committed (or redone) operation.
+     * @returns Bounds that need repainting (before and after), if anything changed.
+     *          A layer operation returns none; see `getLayers`.
+     */
+    public apply(op: ServerCanvasOperation): Bounds[] {
+        if (isLayerOperation(op)) {
+            // Almost always an append, like entries
+            let index = this.layerOps.length;
+            while (index > 0 && this.layerOps[index - 1].seq > op.seq) {
+                index--;
+            }
+            this.layerOps.splice(index, 0, op);
+            this.layers = foldLayers(this.baseLayers, this.layerOps);
+            return [];
+        }
+
+        const [strokeId, entry] = this.toEntry(op);
+        this.addEntry(strokeId, entry);
+        return this.refresh(strokeId);
+    }
+
+    /**
+     * Reverts an operation wherever it is in the history (undo).
+     * @returns Bounds that need repainting, if anything changed.
+     */
+    public revert(opId: string): Bounds[] {
+        const layerIndex = this.layerOps.findIndex(op => op.id === opId);
+        if (layerIndex !== -1) {
+            this.layerOps.splice(layerIndex, 1);
+            this.layers = foldLayers(this.baseLayers, this.layerOps);
+            return [];
+        }
+
+        const strokeId = this.strokeIdByOp.get(opId);
+        if (strokeId === undefined) return [];
+
+        this.strokeIdByOp.delete(opId);
+        const entries = this.entriesByStroke.get(strokeId)!;
+        const index = entries.findIndex(entry => entry.opId === opId);
+        if (index !== -1) {
+            entries.splice(index, 1);
+        }
+        if (entries.length === 0) {
+            this.entriesByStroke.delete(strokeId);
+        }
+
+        return this.refresh(strokeId);
+    }
+
+    /**
+     * The layers, bottom first. A new array whenever they change, so callers
+     * can tell by comparing.
+     */
+    public getLayers(): ReadonlyArray<Layer> {
+        return this.layers;
+    }
+
+    public get(strokeId: string): SceneStroke | undefined {
+        return this.visible.get(strokeId);
+    }
+
+    /**
+     * Visible objects intersecting `bounds`, sorted bottom to top.
+     */
+    public query(bounds: Bounds): SceneStroke[] {
+        const result: SceneStroke[] = [];
+        for (const id of this.spatial.query(bounds)) {
+            result.push(this.visible.get(id)!);
+        }
+        return result.sort((a, b) => a.z - b.z);
+    }
+
+    private toEntry(op: Exclude<ServerCanvasOperation, { type: 'ADD_LAYER' | 'UPDATE_LAYER' | 'MOVE_LAYER' }>): [string, StrokeEntry] {
+        switch (op.type) {
+            case 'ADD_STROKE':
+                return [op.stroke.id, { opId: op.id, z: op.seq, object: op.stroke }];
+            case 'ADD_SHAPE':
+                return [op.shape.id, { opId: op.id, z: op.seq, object: op.shape }];
+            case 'ADD_TEXT':
+                return [op.text.id, { opId: op.id, z: op.seq, object: op.text }];
+            case 'UPDATE_TEXT':
+                return [op.text.id, { opId: op.id, z: op.seq, object: op.text, update: true }];
+            case 'TRANSFORM':
+                return [op.objectId, { opId: op.id, z: op.seq, object: null, transform: op.transform }];
+            case 'MOVE_TO_LAYER':
+                return [op.objectId, { opId: op.id, z: op.seq, object: null, layerId: op.layerId }];
+            case 'REMOVE_STROKE':
+                return [op.strokeId, { opId: op.id, z: op.seq, object: null }];
+        }
+    }
+
+    private addEntry(strokeId: string, entry: StrokeEntry) {
+        let entries = this.entriesByStroke.get(strokeId);
+        if (!entries) {
+            entries = [];
+            this.entriesByStroke.set(strokeId, entries);
+        }
+
+        // Keep entries in log order. Almost always an append.
+        let index = entries.length;
+        while (index > 0 && entries[index - 1].z > entry.z) {
+            index--;
+        }
+        entries.splice(index, 0, entry);
+        this.strokeIdByOp.set(entry.opId, strokeId);
+    }
+
+    /**
+     * Recomputes one object's visibility from its entries, mirroring the fold:
+     * the last entry decides visibility, and the z-order is that of the ADD
+     * which started the current visible run. Updates, transforms and layer moves
+     * change the object without moving it in z, and are ignored while it is not visible.
+     */
+    private refresh(strokeId: string): Bounds[] {
+        const entries = this.entriesByStroke.get(strokeId) ?? [];
+
+        let object: CanvasObject | null = null;
+        let z = 0;
+        for (const entry of entries) {
+            if (entry.transform) {
+                if (object) object = transformObject(object, entry.transform);
+            } else if (entry.layerId !== undefined) {
+                if (object) object = moveToLayer(object, entry.layerId);
+            } else if (entry.update) {
+                if (object) object = withTransformOf(entry.object!, object);
+            } else if (entry.object) {
+                if (!object) z = entry.z;
+                object = entry.object;
+            } else {
+                object = null;
+            }
+        }
+
+        const previous = this.visible.get(strokeId);
+        if (!object) {
+            if (!previous) return [];
+            this.visible.delete(strokeId);
+            this.spatial.remove(strokeId);
+            return [previous.bounds];
+        }
+
+        if (previous && previous.object === object && previous.z === z) {
+            return [];
+        }
+
+        const next: SceneStroke = { object, z, bounds: getObjectBounds(object) };
+        this.visible.set(strokeId, next);
+        this.spatial.insert(strokeId, next.bounds);
+        return previous ? [previous.bounds, next.bounds] : [next.bounds];
+    }
+}
@@ -0,0 +1,123 @@
+/**
+ * Axis-aligned rectangle in world coordinates.
+ */
+export interface Bounds {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
+
+/**
+ * A uniform-grid spatial hash of bounding boxes.
+ *
+ * WHY A GRID:
+ * Strokes are small relative to the board and mostly evenly spread, so a fixed
+ * grid gives O(1) inserts/removes and queries proportional to the area asked for.
+ * That's all we need to answer "which strokes touch this tile / eraser segment".
+ */
+export class SpatialIndex {
+    // "cx,cy" -> IDs of entries overlapping that cell
+    private cells = new Map<string, Set<string>>();
+    private entries = new Map<string, Bounds>();
+
+    constructor(private cellSize: number = 512) {}
+
+    public insert(id: string, bounds: Bounds) {
+        if (this.entries.has(id)) {
+            this.remove(id);
+        }
+
+        this.entries.set(id, bounds);
+        this.forEachCell(bounds, (key) => {
+            let cell = this.cells.get(key);
+            if (!cell) {
+                cell = new Set();
+                this.cells.set(key, cell);
+            }
+            cell.add(id);
+        });
+    }
+
+    public remove(id: string) {
+        const bounds = this.entries.get(id);
+        if (!bounds) return;
+
+        this.entries.delete(id);
+        this.forEachCell(bounds, (key) => {
+            const cell = this.cells.get(key);
+            if (!cell) return;
+            cell.delete(id);
+            if (cell.size === 0) {
+                this.cells.delete(key);
+            }
+        });
+    }
+
+    public clear() {
+        this.cells.clear();
+        this.entries.clear();
+    }
+
+    public getBounds(id: string): Bounds | undefined {
+        return this.entries.get(id);
+    }
+
+    /**
+     * Returns IDs of every entry whose bounds intersect `bounds`.
+     */
+    public query(bounds: Bounds): Set<string> {
+        const result = new Set<string>();
+
+        // A huge area (e.g. zoomed far out) spans more cells than there are entries;
+        // scanning the entries directly is cheaper than walking empty cells.
+        if (this.countCells(bounds) > this.entries.size) {
+            for (const [id, entry] of this.entries) {
+                if (intersects(entry, bounds)) {
+                    result.add(id);
+                }
+            }
+            return result;
+        }
+
+        this.forEachCell(bounds, (key) => {
+            const cell = this.cells.get(key);
+            if (!cell) return;
+
+            for (const id of cell) {
+                if (result.has(id)) continue;
+
+                // Cells are coarse; confirm the actual boxes overlap
+                const entry = this.entries.get(id)!;
+                if (intersects(entry, bounds)) {
+                    result.add(id);
+                }
+            }
+        });
+
+        return result;
+    }
+
+    private countCells(bounds: Bounds): number {
+        const columns = Math.floor(bounds.maxX / this.cellSize) - Math.floor(bounds.minX / this.cellSize) + 1;
+        const rows = Math.floor(bounds.maxY / this.cellSize) - Math.floor(bounds.minY / this.cellSize) + 1;
+        return columns * rows;
+    }
+
+    private forEachCell(bounds: Bounds, fn: (key: string) => void) {
+        const minCX = Math.floor(bounds.minX / this.cellSize);
+        const minCY = Math.floor(bounds.minY / this.cellSize);
+        const maxCX = Math.floor(bounds.maxX / this.cellSize);
+        const maxCY = Math.floor(bounds.maxY / this.cellSize);
+
+        for (let cx = minCX; cx <= maxCX; cx++) {
+            for (let cy = minCY; cy <= maxCY; cy++) {
+                fn(`${cx},${cy}`);
+            }
+        }
+    }
+}
+
+export function intersects(a: Bounds, b: Bounds): boolean {
+    return a.maxX >= b.minX && a.minX <= b.maxX && a.maxY >= b.minY && a.minY <= b.maxY;
+}
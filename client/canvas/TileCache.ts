@@ -0,0 +1,130 @@
+import { Bounds } from './SpatialIndex';
+
+/**
+ * A cached raster of one square tile of the world at a given zoom.
+ */
+export interface Tile {
+    tx: number;
+    ty: number;
+    canvas: HTMLCanvasElement;
+}
+
+/**
+ * Caches rendered tiles of the base layer.
+ *
+ * Tiles are a fixed size in *screen* pixels, so their world size depends on zoom.
+ * All cached tiles belong to a single zoom level (and device pixel ratio); changing
+ * either discards the cache, while panning reuses it.
+ *
+ * The cache is bounded and evicts least-recently-used tiles, since each one holds
+ * a full bitmap.
+ */
+export class TileCache {
+    // "tx,ty" -> tile. Map order doubles as LRU order (oldest first).
+    private tiles = new Map<string, Tile>();
+    private zoom = 0;
+    private dpr = 0;
+
+    constructor(
+        public readonly tileSize: number = 256, // CSS pixels
+        private maxTiles: number = 128
+    ) {}
+
+    /**
+     * World-space width/height of one tile at the current zoom.
+     */
+    public getWorldSize(): number {
+        return this.tileSize / this.zoom;
+    }
+
+    /**
+     * Switches the cache to a new scale, dropping tiles rendered at the old one.
+     */
+    public setScale(zoom: number, dpr: number) {
+        if (zoom === this.zoom && dpr === this.dpr) return;
+        this.zoom = zoom;
+        this.dpr = dpr;
+        this.tiles.clear();
+    }
+
+    /**
+     * Returns a cached tile, or renders and caches it with `paint`.
+     * `paint` receives a context already transformed so it can draw in world coordinates.
+     */
+    public getTile(tx: number, ty: number, paint: (ctx: CanvasRenderingContext2D, bounds: Bounds) => void): Tile {
+        const key = `${tx},${ty}`;
+        const cached = this.tiles.get(key);
+        if (cached) {
+            // Refresh LRU position
+            this.tiles.delete(key);
+            this.tiles.set(key, cached);
+            return cached;
+        }
+
+        const tile = this.renderTile(tx, ty, paint);
+        this.tiles.set(key, tile);
+
+        if (this.tiles.size > this.maxTiles) {
+            const oldest = this.tiles.keys().next().value;
+            if (oldest !== undefined) this.tiles.delete(oldest);
+        }
+        return tile;
+    }
+
+    /**
+     * Drops every cached tile that overlaps the given world-space area,
+     * so it is repainted on next use.
+     */
+    public invalidate(bounds: Bounds) {
+        const range = this.getTileRange(bounds);
+        for (let tx = range.minTX; tx <= range.maxTX; tx++) {
+            for (let ty = range.minTY; ty <= range.maxTY; ty++) {
+                this.tiles.delete(`${tx},${ty}`);
+            }
+        }
+    }
+
+    public clear() {
+        this.tiles.clear();
+    }
+
+    /**
+     * Tile coordinates covering a world-space area.
+     */
+    public getTileRange(bounds: Bounds): { minTX: number, minTY: number, maxTX: number, maxTY: number } {
+        const size = this.getWorldSize();
+        return {
+            minTX: Math.floor(bounds.minX / size),
+            minTY: Math.floor(bounds.minY / size),
+            maxTX: Math.floor(bounds.maxX / size),
+            maxTY: Math.floor(bounds.maxY / size)
+        };
+    }
+
+    public getTileBounds(tx: number, ty: number): Bounds {
+        const size = this.getWorldSize();
+        return {
+            minX: tx * size,
+            minY: ty * size,
+            maxX: (tx + 1) * size,
+            maxY: (ty + 1) * size
+        };
+    }
+
+    private renderTile(tx: number, ty: number, paint: (ctx: CanvasRenderingContext2D, bounds: Bounds) => void): Tile {
+        const canvas = document.createElement('canvas');
+        const pixels = Math.round(this.tileSize * this.dpr);
+        canvas.width = pixels;
+        canvas.height = pixels;
+
+        const ctx = canvas.getContext('2d')!;
+        const bounds = this.getTileBounds(tx, ty);
+        const scale = this.zoom * this.dpr;
+        ctx.setTransform(scale, 0, 0, scale, -bounds.minX * scale, -bounds.minY * scale);
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+
+        paint(ctx, bounds);
+        return { tx, ty, canvas };
+    }
+}
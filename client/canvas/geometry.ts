@@ -0,0 +1,319 @@
+import { CanvasObject, Shape, Stroke, TextBox } from '../../shared/types';
+import { getBrush } from '../../shared/brushes';
+import { getMaxStrokeWidth } from '../../shared/ink';
+import { getShapeBounds, getShapeOutline, isShape } from '../../shared/shapes';
+import { getTextBounds, isTextBox } from '../../shared/text';
+import { applyToPoint, getScaleFactor, invert, transformBounds } from '../../shared/transform';
+import { Bounds } from './SpatialIndex';
+
+/**
+ * Geometry helpers for hit-testing strokes, shapes and text boxes.
+ *
+ * Strokes are rendered as filled outlines around their samples (see shared/ink.ts).
+ * They are tested against the raw polyline, padded by the widest the outline can
+ * get: generous where pressure thins the line, but never missing a visible edge.
+ * Shapes are tested against their outline (see getShapeOutline), text boxes
+ * against their whole box.
+ *
+ * Transformed objects are tested in their own (untransformed) space: the query
+ * is mapped through the inverse transform instead of transforming every point.
+ */
+
+type Vec = { x: number, y: number };
+
+/**
+ * Shortest distance from point `p` to the segment `a`-`b`.
+ */
+export function distanceToSegment(p: Vec, a: Vec, b: Vec): number {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+
+    // Degenerate segment: both ends are the same point
+    if (lengthSq === 0) {
+        return Math.hypot(p.x - a.x, p.y - a.y);
+    }
+
+    // Project p onto the segment, clamped to its ends
+    const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+    return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+/**
+ * Shortest distance between segments `a1`-`a2` and `b1`-`b2`.
+ * Zero if they cross.
+ */
+export function segmentDistance(a1: Vec, a2: Vec, b1: Vec, b2: Vec): number {
+    if (segmentsIntersect(a1, a2, b1, b2)) {
+        return 0;
+    }
+
+    // Otherwise the closest pair always involves at least one endpoint
+    return Math.min(
+        distanceToSegment(a1, b1, b2),
+        distanceToSegment(a2, b1, b2),
+        distanceToSegment(b1, a1, a2),
+        distanceToSegment(b2, a1, a2)
+    );
+}
+
+/**
+ * Checks whether a swept path segment (e.g. the eraser moving from `from` to `to`)
+ * touches a stroke.
+ *
+ * @param radius Radius of the tool. The stroke's own (maximum) half-width is added
+ *               to it, so thick strokes are hit when the tool grazes their visible edge.
+ */
+export function strokeHitsSegment(stroke: Stroke, from: Vec, to: Vec, radius: number): boolean {
+    const points = stroke.points;
+    if (points.length === 0) return false;
+
+    const threshold = radius + getMaxStrokeWidth(stroke.size, getBrush(stroke.brush).ink) / 2;
+
+    // Cheap rejection: is the swept segment anywhere near the stroke's bounding box?
+    const box = getStrokeBounds(stroke);
+    if (
+        Math.max(from.x, to.x) < box.minX - threshold ||
+        Math.min(from.x, to.x) > box.maxX + threshold ||
+        Math.max(from.y, to.y) < box.minY - threshold ||
+        Math.min(from.y, to.y) > box.maxY + threshold
+    ) {
+        return false;
+    }
+
+    // Single point strokes are drawn as dots
+    if (points.length === 1) {
+        return distanceToSegment(points[0], from, to) <= threshold;
+    }
+
+    for (let i = 0; i < points.length - 1; i++) {
+        if (segmentDistance(from, to, points[i], points[i + 1]) <= threshold) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Checks whether a swept path segment touches any object (see strokeHitsSegment).
+ */
+export function objectHitsSegment(object: CanvasObject, from: Vec, to: Vec, radius: number): boolean {
+    if (object.transform) {
+        const inverse = invert(object.transform);
+        from = applyToPoint(inverse, from);
+        to = applyToPoint(inverse, to);
+        radius /= getScaleFactor(object.transform);
+    }
+
+    if (isShape(object)) return shapeHitsSegment(object, from, to, radius);
+    if (isTextBox(object)) return textHitsSegment(object, from, to, radius);
+    return strokeHitsSegment(object, from, to, radius);
+}
+
+/**
+ * Checks whether a swept path segment touches a shape's outline, or its
+ * interior when the shape is filled.
+ */
+export function shapeHitsSegment(shape: Shape, from: Vec, to: Vec, radius: number): boolean {
+    const threshold = radius + shape.style.strokeWidth / 2;
+
+    for (const outline of getShapeOutline(shape)) {
+        for (let i = 0; i < outline.length - 1; i++) {
+            if (segmentDistance(from, to, outline[i], outline[i + 1]) <= threshold) {
+                return true;
+            }
+        }
+    }
+
+    // A filled shape is solid; an eraser passing through its middle hits it
+    if (shape.style.fill && (shape.kind === 'rect' || shape.kind === 'ellipse')) {
+        return containsPoint(shape, from) || containsPoint(shape, to);
+    }
+    return false;
+}
+
+/**
+ * Checks whether a swept path segment touches a text box. The box is solid:
+ * text is hard to hit glyph by glyph.
+ */
+export function textHitsSegment(text: TextBox, from: Vec, to: Vec, radius: number): boolean {
+    const box = getTextBounds(text);
+    if (pointInBounds(from, box) || pointInBounds(to, box)) {
+        return true;
+    }
+
+    // Otherwise the segment must cross (or come within `radius` of) an edge
+    const corners = [
+        { x: box.minX, y: box.minY },
+        { x: box.maxX, y: box.minY },
+        { x: box.maxX, y: box.maxY },
+        { x: box.minX, y: box.maxY }
+    ];
+    for (let i = 0; i < corners.length; i++) {
+        if (segmentDistance(from, to, corners[i], corners[(i + 1) % corners.length]) <= radius) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Whether a point lies inside a text box. Used to pick the box under the text tool.
+ */
+export function textContainsPoint(text: TextBox, p: Vec): boolean {
+    if (text.transform) {
+        p = applyToPoint(invert(text.transform), p);
+    }
+    return pointInBounds(p, getTextBounds(text));
+}
+
+/**
+ * Whether an object's geometry touches a closed polygon (a lasso, or a marquee's
+ * four corners): a vertex of the object inside it, an edge crossing it, or the
+ * polygon lying inside a solid object (text box, filled shape).
+ */
+export function objectIntersectsPolygon(object: CanvasObject, polygon: ReadonlyArray<Vec>): boolean {
+    if (polygon.length < 3) return false;
+
+    for (const polyline of getObjectPolylines(object)) {
+        for (let i = 0; i < polyline.length; i++) {
+            if (pointInPolygon(polyline[i], polygon)) {
+                return true;
+            }
+            if (i === 0) continue;
+
+            for (let j = 0; j < polygon.length; j++) {
+                const next = polygon[(j + 1) % polygon.length];
+                if (segmentsIntersect(polyline[i - 1], polyline[i], polygon[j], next)) {
+                    return true;
+                }
+            }
+        }
+    }
+
+    return objectHitsSegment(object, polygon[0], polygon[0], 0);
+}
+
+/**
+ * An object's geometry as polylines in world coordinates (transform applied):
+ * stroke samples, shape outlines, text box edges.
+ */
+export function getObjectPolylines(object: CanvasObject): Vec[][] {
+    let polylines: Vec[][];
+    if (isShape(object)) {
+        polylines = getShapeOutline(object);
+    } else if (isTextBox(object)) {
+        const box = getTextBounds(object);
+        polylines = [[
+            { x: box.minX, y: box.minY },
+            { x: box.maxX, y: box.minY },
+            { x: box.maxX, y: box.maxY },
+            { x: box.minX, y: box.maxY },
+            { x: box.minX, y: box.minY }
+        ]];
+    } else {
+        polylines = [object.points];
+    }
+
+    const m = object.transform;
+    return m ? polylines.map(polyline => polyline.map(p => applyToPoint(m, p))) : polylines;
+}
+
+/**
+ * Bounds of the painted area of an object (for strokes: sample points plus half the widest ink),
+ * transform included.
+ */
+export function getObjectBounds(object: CanvasObject): Bounds {
+    const bounds = getUntransformedBounds(object);
+    return object.transform ? transformBounds(bounds, object.transform) : bounds;
+}
+
+function getUntransformedBounds(object: CanvasObject): Bounds {
+    if (isShape(object)) {
+        return getShapeBounds(object);
+    }
+    if (isTextBox(object)) {
+        return getTextBounds(object);
+    }
+
+    const bounds = getStrokeBounds(object);
+    const pad = getMaxStrokeWidth(object.size, getBrush(object.brush).ink) / 2;
+    return {
+        minX: bounds.minX - pad,
+        minY: bounds.minY - pad,
+        maxX: bounds.maxX + pad,
+        maxY: bounds.maxY + pad
+    };
+}
+
+/**
+ * Axis-aligned bounds of a stroke's sample points (not including its width).
+ */
+export function getStrokeBounds(stroke: Stroke): Bounds {
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+
+    for (const p of stroke.points) {
+        if (p.x < minX) minX = p.x;
+        if (p.y < minY) minY = p.y;
+        if (p.x > maxX) maxX = p.x;
+        if (p.y > maxY) maxY = p.y;
+    }
+
+    return { minX, minY, maxX, maxY };
+}
+
+// Even-odd ray casting
+function pointInPolygon(p: Vec, polygon: ReadonlyArray<Vec>): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+function pointInBounds(p: Vec, box: Bounds): boolean {
+    return p.x >= box.minX && p.x <= box.maxX && p.y >= box.minY && p.y <= box.maxY;
+}
+
+// Interior test for rect/ellipse
+function containsPoint(shape: Shape, p: Vec): boolean {
+    const minX = Math.min(shape.start.x, shape.end.x);
+    const maxX = Math.max(shape.start.x, shape.end.x);
+    const minY = Math.min(shape.start.y, shape.end.y);
+    const maxY = Math.max(shape.start.y, shape.end.y);
+
+    if (shape.kind === 'rect') {
+        return p.x >= minX && p.x <= maxX && p.y >= minY && p.y <= maxY;
+    }
+
+    const rx = (maxX - minX) / 2;
+    const ry = (maxY - minY) / 2;
+    if (rx === 0 || ry === 0) return false;
+    const dx = (p.x - (minX + rx)) / rx;
+    const dy = (p.y - (minY + ry)) / ry;
+    return dx * dx + dy * dy <= 1;
+}
+
+function segmentsIntersect(a1: Vec, a2: Vec, b1: Vec, b2: Vec): boolean {
+    const d1 = cross(b1, b2, a1);
+    const d2 = cross(b1, b2, a2);
+    const d3 = cross(a1, a2, b1);
+    const d4 = cross(a1, a2, b2);
+
+    // Proper crossing: each segment's ends lie on opposite sides of the other.
+    // Collinear/touching cases are picked up by the endpoint distance check.
+    return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) &&
+        ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+}
+
+// Z component of (b - a) x (c - a)
+function cross(a: Vec, b: Vec, c: Vec): number {
+    return (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+}
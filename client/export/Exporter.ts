@@ -0,0 +1,67 @@
+import { CanvasObject } from '../../shared/types';
+import { createStrokeDocument, createSvgDocument, getExportBounds } from '../../shared/export';
+import { CanvasRenderer } from '../canvas/CanvasRenderer';
+
+export type ExportFormat = 'png' | 'svg' | 'json';
+
+/**
+ * Turns the folded board into downloadable files.
+ *
+ * - **PNG**: Rasterized by CanvasRenderer at a chosen scale (pixels per world unit).
+ * - **SVG**: Vector paths matching the on-screen quadratic smoothing.
+ * - **JSON**: The versioned StrokeDocument, suitable for re-import.
+ *
+ * SVG and JSON come from shared/export.ts, so they match the server's
+ * `/rooms/:roomId/export.*` routes exactly.
+ */
+export class Exporter {
+    // Browsers refuse (or silently blank) canvases much larger than this
+    private readonly MAX_DIMENSION = 16384;
+    private readonly BACKGROUND = '#ffffff';
+
+    constructor(private renderer: CanvasRenderer) {}
+
+    public async export(strokes: ReadonlyArray<CanvasObject>, format: ExportFormat, scale: number = 1): Promise<Blob> {
+        switch (format) {
+            case 'png':
+                return this.toPng(strokes, scale);
+            case 'svg':
+                return new Blob([createSvgDocument(strokes, { background: this.BACKGROUND })], { type: 'image/svg+xml' });
+            case 'json':
+                return new Blob([JSON.stringify(createStrokeDocument(strokes), null, 2)], { type: 'application/json' });
+        }
+    }
+
+    /**
+     * Saves a blob through a temporary download link.
+     */
+    public download(blob: Blob, filename: string) {
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = filename;
+        link.click();
+
+        // Give the browser a moment to start the download before revoking
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+    }
+
+    private toPng(strokes: ReadonlyArray<CanvasObject>, scale: number): Promise<Blob> {
+        // Clamp the scale so very large boards still produce a valid image
+        const bounds = getExportBounds(strokes);
+        const largest = Math.max(bounds.width, bounds.height);
+        const safeScale = largest * scale > this.MAX_DIMENSION ? this.MAX_DIMENSION / largest : scale;
+
+        const canvas = this.renderer.renderToImage(strokes, safeScale, this.BACKGROUND);
+
+        return new Promise((resolve, reject) => {
+            canvas.toBlob((blob) => {
+                if (blob) {
+                    resolve(blob);
+                } else {
+                    reject(new Error('PNG encoding failed'));
+                }
+            }, 'image/png');
+        });
+    }
+}
@@ -1,39 +1,127 @@
 import { Point } from '../../shared/types';
+import { Camera } from '../canvas/Camera';
+import { InputPipeline, InputPipelineOptions, Sample } from './InputPipeline';
 
 interface InputHandlerCallbacks {
     onStart: (points: Point[]) => void;
     onMove: (points: Point[]) => void;
     onEnd: () => void;
+    onPan: (dx: number, dy: number) => void;                // Screen-space delta
+    onZoom: (factor: number, x: number, y: number) => void; // Zoom around a screen point
+    onGesture: (gesture: TouchGesture) => void;             // Two-finger pan/pinch step
+    onPenDetected?: () => void;                             // First pen contact (pen-only mode switched on)
+}
+
+/**
+ * One step of a two-finger gesture, relative to the previous step (screen space).
+ */
+export interface TouchGesture {
+    dx: number;      // Movement of the fingers' midpoint
+    dy: number;
+    scale: number;   // Change in finger spread (> 1 = pinch out)
+    centerX: number; // Midpoint of the fingers, after the move
+    centerY: number;
+}
+
+/**
+ * A pointer currently in contact.
+ */
+interface TrackedPointer {
+    type: string;     // PointerEvent.pointerType
+    position: { x: number, y: number }; // Screen
+    rejected: boolean; // Palm: ignored until it lifts
 }
 
 /**
  * Handles pointer input for the canvas.
- * 
+ *
  * FEATURES:
- * - **Pointer Events**: Unified handling for mouse and touch.
+ * - **Pointer Events**: Unified handling for mouse, pen and touch; every pointer
+ *   in contact is tracked, but only one draws at a time.
  * - **Batching**: Uses requestAnimationFrame to batch 'move' events, preventing
  *   network flooding and rendering bottlenecks.
- * - **Jitter Filtering**: Ignores points that are too close to the previous point.
+ * - **Smoothing & Jitter Filtering**: Samples go through a configurable InputPipeline
+ *   (streaming 1€ or moving-average smoothing, then dropping near-duplicates).
+ * - **World Coordinates**: Emitted points are converted through the camera, so
+ *   they are independent of the local pan/zoom.
+ * - **Navigation**: Wheel (pan) and Ctrl/pinch-wheel (zoom), space-drag or
+ *   middle-drag (pan), and two-finger touch pan/pinch (onGesture). Reported via
+ *   callbacks; the owner decides how to move the camera.
+ *
+ * TOUCH & PALM REJECTION:
+ * - A touch only starts drawing once it has moved a little (or on release, for
+ *   taps), so a second finger landing right after turns it into a gesture
+ *   instead of leaving a stray stroke.
+ * - Touches are rejected as palms when their contact is large, or while a pen is
+ *   down (and shortly after it lifts): a hand resting on the screen while writing.
+ * - Pen-only mode reserves touch for navigation: one finger pans, two pinch.
+ *   It switches on by itself the first time a pen touches the screen.
  */
 export class InputHandler {
-    private isDrawing = false;
+    private mode: 'idle' | 'pending' | 'drawing' | 'panning' | 'gesture' = 'idle';
     private activePoints: Point[] = [];
-    private lastPoint: Point | null = null;
+    private lastSample: Sample | null = null; // Latest raw sample of the stroke
+    private pipeline: InputPipeline;
     private rafId: number | null = null;
 
+    // Every pointer in contact, and which one drives the current mode
+    private pointers = new Map<number, TrackedPointer>();
+    private modePointerId: number | null = null;
+
+    // Touch that may become a stroke: its samples so far (see startPendingTouch)
+    private pendingSamples: Sample[] = [];
+
+    // Pen state, for palm rejection and pen-only mode
+    private penOnly = false;
+    private penSeen = false;
+    private penDown = false;
+    private lastPenUp = -Infinity;
+
+    // Navigation state
+    private spaceHeld = false;
+    private lastPanPosition: { x: number, y: number } | null = null;
+
     // Configuration
-    private readonly JITTER_THRESHOLD = 2; // pixels
+    private readonly WHEEL_ZOOM_SPEED = 0.01;
+    private readonly TOUCH_SLOP = 8;             // Screen pixels a touch moves before it draws
+    private readonly TOUCH_DELAY = 80;           // ...or ms it stays down while moving
+    private readonly PALM_CONTACT_SIZE = 40;     // Contact width/height (CSS pixels) above which a touch is a palm
+    private readonly PEN_GRACE_PERIOD = 500;     // ms after the pen lifts during which touches are still palms
 
     constructor(
         private target: HTMLElement,
-        private callbacks: InputHandlerCallbacks
+        private callbacks: InputHandlerCallbacks,
+        private camera: Camera,
+        pipelineOptions: Partial<InputPipelineOptions> = {}
     ) {
+        this.pipeline = new InputPipeline(pipelineOptions);
         this.handlePointerDown = this.handlePointerDown.bind(this);
         this.handlePointerMove = this.handlePointerMove.bind(this);
         this.handlePointerUp = this.handlePointerUp.bind(this);
+        this.handleWheel = this.handleWheel.bind(this);
+        this.handleKeyDown = this.handleKeyDown.bind(this);
+        this.handleKeyUp = this.handleKeyUp.bind(this);
         this.loop = this.loop.bind(this);
     }
 
+    /**
+     * Reconfigures smoothing/jitter filtering. Takes effect from the next stroke.
+     */
+    public setPipelineOptions(options: Partial<InputPipelineOptions> = {}) {
+        this.pipeline.setOptions(options);
+    }
+
+    /**
+     * Pen-only mode: touch never draws, it only pans and pinches.
+     */
+    public setPenOnly(penOnly: boolean) {
+        this.penOnly = penOnly;
+    }
+
+    public isPenOnly(): boolean {
+        return this.penOnly;
+    }
+
     /**
      * Attaches event listeners to the target element.
      */
@@ -43,6 +131,10 @@ export class InputHandler {
         this.target.addEventListener('pointerup', this.handlePointerUp);
         this.target.addEventListener('pointerleave', this.handlePointerUp);
         this.target.addEventListener('pointercancel', this.handlePointerUp);
+        // Not passive: we call preventDefault to stop browser zoom/scroll
+        this.target.addEventListener('wheel', this.handleWheel, { passive: false });
+        window.addEventListener('keydown', this.handleKeyDown);
+        window.addEventListener('keyup', this.handleKeyUp);
 
         // Prevent default touch actions (scrolling)
         this.target.style.touchAction = 'none';
@@ -57,48 +149,320 @@ export class InputHandler {
         this.target.removeEventListener('pointerup', this.handlePointerUp);
         this.target.removeEventListener('pointerleave', this.handlePointerUp);
         this.target.removeEventListener('pointercancel', this.handlePointerUp);
+        this.target.removeEventListener('wheel', this.handleWheel);
+        window.removeEventListener('keydown', this.handleKeyDown);
+        window.removeEventListener('keyup', this.handleKeyUp);
     }
 
+    // ==========================================
+    // Pointer Events
+    // ==========================================
+
     private handlePointerDown(e: PointerEvent) {
-        if (!e.isPrimary) return; // Ignore multi-touch for now
+        const rejected = this.isPalm(e);
+        this.pointers.set(e.pointerId, { type: e.pointerType, position: this.getScreenPosition(e), rejected });
+        if (rejected) return;
+
+        if (e.pointerType === 'pen') {
+            this.handlePenDown();
+        }
+
+        // A second finger turns a touch that hasn't settled on drawing or panning into a gesture
+        if (e.pointerType === 'touch' && this.getTouches().length === 2 && this.isTouchMode()) {
+            this.startGesture();
+            return;
+        }
+
+        // The pen takes over from a touch that started first (typically the side of the hand)
+        if (e.pointerType === 'pen' && this.isTouchMode()) {
+            this.abandonTouch();
+        }
+
+        if (this.mode !== 'idle') return;
 
-        this.isDrawing = true;
         this.target.setPointerCapture(e.pointerId);
+        this.modePointerId = e.pointerId;
 
-        const point = this.createPoint(e);
-        this.lastPoint = point;
+        // Space-drag or middle-button drag pans instead of drawing; so does touch in pen-only mode
+        if (this.spaceHeld || e.button === 1 || (e.pointerType === 'touch' && this.penOnly)) {
+            this.mode = 'panning';
+            this.lastPanPosition = this.getScreenPosition(e);
+            return;
+        }
 
-        // Emit start immediately
-        this.callbacks.onStart([point]);
+        if (e.pointerType === 'touch') {
+            this.mode = 'pending';
+            this.pendingSamples = [this.createSample(e)];
+            return;
+        }
 
-        // Start the batching loop
-        this.rafId = requestAnimationFrame(this.loop);
+        this.startStroke(this.createSample(e));
     }
 
     private handlePointerMove(e: PointerEvent) {
-        if (!this.isDrawing) return;
+        const pointer = this.pointers.get(e.pointerId);
+        if (!pointer || pointer.rejected) return;
 
-        const point = this.createPoint(e);
+        // A touch can grow into a palm after it lands
+        if (this.isPalm(e)) {
+            pointer.rejected = true;
+            if (this.modePointerId === e.pointerId || this.mode === 'gesture') {
+                this.abandonTouch();
+            }
+            return;
+        }
 
-        // Jitter Filter: Ignore if too close to the last captured point
-        // Note: We check against lastPoint, which is updated only when we accept a point.
-        if (this.lastPoint && this.getDistance(this.lastPoint, point) < this.JITTER_THRESHOLD) {
+        if (this.mode === 'gesture') {
+            this.updateGesture(e);
             return;
         }
 
-        this.activePoints.push(point);
-        this.lastPoint = point;
+        pointer.position = this.getScreenPosition(e);
+        if (e.pointerId !== this.modePointerId) return;
+
+        switch (this.mode) {
+            case 'pending': {
+                const sample = this.createSample(e);
+                this.pendingSamples.push(sample);
+
+                const first = this.pendingSamples[0];
+                if (Math.hypot(sample.x - first.x, sample.y - first.y) >= this.TOUCH_SLOP || sample.t - first.t >= this.TOUCH_DELAY) {
+                    this.commitPendingTouch();
+                }
+                break;
+            }
+
+            case 'drawing':
+                this.addDrawingPoint(e);
+                break;
+
+            case 'panning': {
+                const position = this.getScreenPosition(e);
+                if (this.lastPanPosition) {
+                    this.callbacks.onPan(position.x - this.lastPanPosition.x, position.y - this.lastPanPosition.y);
+                }
+                this.lastPanPosition = position;
+                break;
+            }
+        }
     }
 
     private handlePointerUp(e: PointerEvent) {
-        if (!this.isDrawing) return;
+        const pointer = this.pointers.get(e.pointerId);
+        this.pointers.delete(e.pointerId);
+        if (!pointer) return;
 
-        this.isDrawing = false;
+        if (pointer.type === 'pen') {
+            this.penDown = false;
+            this.lastPenUp = performance.now();
+        }
 
         if (this.target.hasPointerCapture(e.pointerId)) {
             this.target.releasePointerCapture(e.pointerId);
         }
 
+        if (this.mode === 'gesture') {
+            // Stay in gesture mode until every finger has lifted,
+            // so the remaining finger doesn't start a stroke.
+            if (this.getTouches().length === 0) {
+                this.mode = 'idle';
+            }
+            return;
+        }
+
+        if (e.pointerId !== this.modePointerId) return;
+
+        switch (this.mode) {
+            case 'pending':
+                // A tap: draw it (a dot, a click for the select/text tools) after all
+                this.commitPendingTouch();
+                this.finishStroke();
+                break;
+
+            case 'drawing':
+                this.finishStroke();
+                break;
+
+            case 'panning':
+                this.lastPanPosition = null;
+                break;
+        }
+        this.mode = 'idle';
+        this.modePointerId = null;
+    }
+
+    private handleWheel(e: WheelEvent) {
+        e.preventDefault();
+
+        const position = this.getScreenPosition(e);
+
+        // Trackpad pinch arrives as a wheel event with ctrlKey set
+        if (e.ctrlKey || e.metaKey) {
+            this.callbacks.onZoom(Math.exp(-e.deltaY * this.WHEEL_ZOOM_SPEED), position.x, position.y);
+        } else {
+            this.callbacks.onPan(-e.deltaX, -e.deltaY);
+        }
+    }
+
+    private handleKeyDown(e: KeyboardEvent) {
+        if (e.code !== 'Space' || this.isTyping(e)) return;
+
+        e.preventDefault(); // Don't scroll or press focused buttons
+        if (!this.spaceHeld) {
+            this.spaceHeld = true;
+            this.target.dataset.panning = 'true';
+        }
+    }
+
+    private handleKeyUp(e: KeyboardEvent) {
+        if (e.code !== 'Space') return;
+
+        this.spaceHeld = false;
+        delete this.target.dataset.panning;
+    }
+
+    // ==========================================
+    // Touch Modes
+    // ==========================================
+
+    private handlePenDown() {
+        this.penDown = true;
+
+        // Only the first pen contact switches modes; after that the user's choice stands
+        if (!this.penSeen) {
+            this.penSeen = true;
+            if (!this.penOnly) {
+                this.penOnly = true;
+                this.callbacks.onPenDetected?.();
+            }
+        }
+
+        // Fingers already down are the hand holding the pen
+        for (const pointer of this.pointers.values()) {
+            if (pointer.type === 'touch') pointer.rejected = true;
+        }
+    }
+
+    /**
+     * Whether the current mode belongs to a touch that a gesture or the pen may take over.
+     */
+    private isTouchMode(): boolean {
+        if (this.mode === 'pending') return true;
+        if (this.mode !== 'drawing' && this.mode !== 'panning') return false;
+        return this.modePointerId !== null && this.pointers.get(this.modePointerId)?.type === 'touch';
+    }
+
+    /**
+     * Ends whatever a touch started: a stroke is finished as drawn so far
+     * (it was already streamed), a pending touch or a pan simply stops.
+     */
+    private abandonTouch() {
+        if (this.mode === 'drawing') {
+            this.finishStroke();
+        }
+        if (this.modePointerId !== null && this.target.hasPointerCapture(this.modePointerId)) {
+            this.target.releasePointerCapture(this.modePointerId);
+        }
+        this.pendingSamples = [];
+        this.lastPanPosition = null;
+        this.modePointerId = null;
+        this.mode = 'idle';
+    }
+
+    private startGesture() {
+        this.abandonTouch();
+        this.mode = 'gesture';
+    }
+
+    /**
+     * The pending touch moved far enough (or was tapped): start its stroke with
+     * everything it sampled so far.
+     */
+    private commitPendingTouch() {
+        const [first, ...rest] = this.pendingSamples;
+        this.pendingSamples = [];
+        this.startStroke(first);
+
+        for (const sample of rest) {
+            this.addSample(sample);
+        }
+    }
+
+    /**
+     * Two-finger pan and pinch: compares the centroid and spread of the
+     * first two touches before and after this pointer moved.
+     */
+    private updateGesture(e: PointerEvent) {
+        const pointer = this.pointers.get(e.pointerId);
+        const touches = this.getTouches();
+        if (!pointer || pointer.type !== 'touch' || touches.length < 2) return;
+
+        const before = this.measureTouches(touches[0].position, touches[1].position);
+        pointer.position = this.getScreenPosition(e);
+        const after = this.measureTouches(touches[0].position, touches[1].position);
+
+        this.callbacks.onGesture({
+            dx: after.centerX - before.centerX,
+            dy: after.centerY - before.centerY,
+            scale: before.distance > 0 ? after.distance / before.distance : 1,
+            centerX: after.centerX,
+            centerY: after.centerY
+        });
+    }
+
+    /**
+     * Touch pointers in contact that aren't palms, in the order they landed.
+     */
+    private getTouches(): TrackedPointer[] {
+        return Array.from(this.pointers.values()).filter(pointer => pointer.type === 'touch' && !pointer.rejected);
+    }
+
+    /**
+     * Palm heuristics: a large contact patch, or any touch while the pen is
+     * down or has just lifted.
+     */
+    private isPalm(e: PointerEvent): boolean {
+        if (e.pointerType !== 'touch') return false;
+        if (Math.max(e.width, e.height) > this.PALM_CONTACT_SIZE) return true;
+        return this.penDown || performance.now() - this.lastPenUp < this.PEN_GRACE_PERIOD;
+    }
+
+    // ==========================================
+    // Drawing
+    // ==========================================
+
+    private startStroke(sample: Sample) {
+        this.mode = 'drawing';
+        this.lastSample = sample;
+
+        // Emit start immediately
+        this.callbacks.onStart([this.toPoint(this.pipeline.begin(sample))]);
+
+        // Start the batching loop
+        this.rafId = requestAnimationFrame(this.loop);
+    }
+
+    private addDrawingPoint(e: PointerEvent) {
+        this.addSample(this.createSample(e));
+    }
+
+    private addSample(sample: Sample) {
+        // Smoothed in screen space; null means it was dropped as jitter
+        this.lastSample = sample;
+
+        const accepted = this.pipeline.push(sample);
+        if (accepted) {
+            this.activePoints.push(this.toPoint(accepted));
+        }
+    }
+
+    private finishStroke() {
+        // Smoothing lags behind the pen; finish where it actually lifted
+        const last = this.pipeline.end(this.lastSample);
+        if (last) {
+            this.activePoints.push(this.toPoint(last));
+        }
+
         // Flush any remaining points
         if (this.activePoints.length > 0) {
             this.callbacks.onMove(this.activePoints);
@@ -114,7 +478,7 @@ export class InputHandler {
             this.rafId = null;
         }
 
-        this.lastPoint = null;
+        this.lastSample = null;
     }
 
     /**
@@ -122,7 +486,7 @@ export class InputHandler {
      * Runs every frame to flush buffered points.
      */
     private loop() {
-        if (!this.isDrawing) return;
+        if (this.mode !== 'drawing') return;
 
         if (this.activePoints.length > 0) {
             // Send a copy of the array and clear the buffer
@@ -133,20 +497,41 @@ export class InputHandler {
         this.rafId = requestAnimationFrame(this.loop);
     }
 
-    private createPoint(e: PointerEvent): Point {
+    private createSample(e: PointerEvent): Sample {
+        const screen = this.getScreenPosition(e);
+        return {
+            x: screen.x,
+            y: screen.y,
+            p: e.pressure !== 0.5 ? e.pressure : 0.5, // 0.5 is default for mouse
+            t: Date.now()
+        };
+    }
+
+    private toPoint(sample: Sample): Point {
+        // Convert from element-relative screen coordinates to world coordinates
+        const world = this.camera.screenToWorld(sample.x, sample.y);
+        return { x: world.x, y: world.y, p: sample.p, t: sample.t };
+    }
+
+    private getScreenPosition(e: MouseEvent): { x: number, y: number } {
         // Get coordinates relative to the target element
         const rect = this.target.getBoundingClientRect();
         return {
             x: e.clientX - rect.left,
-            y: e.clientY - rect.top,
-            p: e.pressure !== 0.5 ? e.pressure : 0.5, // 0.5 is default for mouse
-            t: Date.now()
+            y: e.clientY - rect.top
+        };
+    }
+
+    private measureTouches(a: { x: number, y: number }, b: { x: number, y: number }) {
+        return {
+            centerX: (a.x + b.x) / 2,
+            centerY: (a.y + b.y) / 2,
+            distance: Math.hypot(a.x - b.x, a.y - b.y)
         };
     }
 
-    private getDistance(p1: Point, p2: Point): number {
-        const dx = p1.x - p2.x;
-        const dy = p1.y - p2.y;
-        return Math.sqrt(dx * dx + dy * dy);
+    private isTyping(e: KeyboardEvent): boolean {
+        const el = e.target as HTMLElement | null;
+        return !!el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.isContentEditable);
     }
 }
@@ -0,0 +1,177 @@
+/**
+ * Filters raw pointer samples into stroke points while drawing.
+ *
+ * STAGES (in screen space, so behaviour doesn't depend on zoom):
+ * 1. Smoothing: every raw sample goes through a streaming filter that removes
+ *    hand and digitizer tremor. Filters only look backwards, so the live preview
+ *    (and what goes over the wire) never waits for future samples.
+ *    - 'one-euro': the 1€ filter (Casiez et al.). Smooths heavily when the pen
+ *      moves slowly and hardly at all when it moves fast, so it adds little lag.
+ *    - 'moving-average': mean of the last few samples. Simple, but lags more.
+ *    - 'none': raw samples.
+ * 2. Jitter: smoothed samples closer than `jitterThreshold` to the previous
+ *    accepted one are dropped.
+ *
+ * Committed strokes are additionally simplified on STROKE_END (see shared/simplify.ts).
+ */
+
+export type SmoothingMode = 'none' | 'moving-average' | 'one-euro';
+
+export interface InputPipelineOptions {
+    smoothing: SmoothingMode;
+    jitterThreshold: number;     // Screen pixels
+    movingAverageWindow: number; // Samples
+    oneEuro: {
+        minCutoff: number;       // Hz. Lower = smoother when moving slowly
+        beta: number;            // Cutoff gained per px/s of speed. Higher = less lag when moving fast
+        derivativeCutoff: number; // Hz, for the speed estimate
+    };
+}
+
+export const DEFAULT_INPUT_PIPELINE: InputPipelineOptions = {
+    smoothing: 'one-euro',
+    jitterThreshold: 2,
+    movingAverageWindow: 4,
+    oneEuro: { minCutoff: 1.5, beta: 0.01, derivativeCutoff: 1 }
+};
+
+/**
+ * A pointer sample in screen coordinates.
+ */
+export interface Sample {
+    x: number;
+    y: number;
+    p: number; // Pressure
+    t: number; // Timestamp (ms)
+}
+
+export class InputPipeline {
+    private options: InputPipelineOptions;
+    private lastAccepted: Sample | null = null;
+
+    // Smoothing state
+    private window: Sample[] = [];
+    private euroX = new OneEuroAxis();
+    private euroY = new OneEuroAxis();
+
+    constructor(options: Partial<InputPipelineOptions> = {}) {
+        this.options = { ...DEFAULT_INPUT_PIPELINE, ...options };
+    }
+
+    public getOptions(): InputPipelineOptions {
+        return this.options;
+    }
+
+    /**
+     * Changes the configuration. Takes effect from the next stroke.
+     */
+    public setOptions(options: Partial<InputPipelineOptions>) {
+        this.options = { ...this.options, ...options };
+    }
+
+    /**
+     * Starts a stroke. The first sample is always kept as is.
+     */
+    public begin(sample: Sample): Sample {
+        this.window = [sample];
+        this.euroX.reset(sample.x, sample.t);
+        this.euroY.reset(sample.y, sample.t);
+        this.lastAccepted = sample;
+        return sample;
+    }
+
+    /**
+     * Feeds a raw sample. Returns the smoothed sample, or null if it is dropped as jitter.
+     */
+    public push(sample: Sample): Sample | null {
+        const smoothed = this.smooth(sample);
+        if (this.isJitter(smoothed)) return null;
+
+        this.lastAccepted = smoothed;
+        return smoothed;
+    }
+
+    /**
+     * Ends a stroke at the raw pen-up position, which smoothing lags behind.
+     * Returns it if it adds anything to the stroke.
+     */
+    public end(sample: Sample | null): Sample | null {
+        const last = this.lastAccepted;
+        this.lastAccepted = null;
+        this.window = [];
+
+        if (!sample || !last || this.options.smoothing === 'none' || this.isJitter(sample, last)) {
+            return null;
+        }
+        return sample;
+    }
+
+    private smooth(sample: Sample): Sample {
+        switch (this.options.smoothing) {
+            case 'none':
+                return sample;
+
+            case 'moving-average': {
+                this.window.push(sample);
+                if (this.window.length > Math.max(1, this.options.movingAverageWindow)) {
+                    this.window.shift();
+                }
+                const n = this.window.length;
+                return {
+                    x: this.window.reduce((sum, s) => sum + s.x, 0) / n,
+                    y: this.window.reduce((sum, s) => sum + s.y, 0) / n,
+                    p: sample.p,
+                    t: sample.t
+                };
+            }
+
+            case 'one-euro': {
+                const { minCutoff, beta, derivativeCutoff } = this.options.oneEuro;
+                return {
+                    x: this.euroX.filter(sample.x, sample.t, minCutoff, beta, derivativeCutoff),
+                    y: this.euroY.filter(sample.y, sample.t, minCutoff, beta, derivativeCutoff),
+                    p: sample.p,
+                    t: sample.t
+                };
+            }
+        }
+    }
+
+    private isJitter(sample: Sample, last: Sample | null = this.lastAccepted): boolean {
+        return !!last && Math.hypot(sample.x - last.x, sample.y - last.y) < this.options.jitterThreshold;
+    }
+}
+
+/**
+ * One axis of a 1€ filter: a low-pass filter whose cutoff rises with speed.
+ */
+class OneEuroAxis {
+    private value = 0;
+    private derivative = 0;
+    private time = 0;
+
+    public reset(value: number, time: number) {
+        this.value = value;
+        this.derivative = 0;
+        this.time = time;
+    }
+
+    public filter(value: number, time: number, minCutoff: number, beta: number, derivativeCutoff: number): number {
+        // Coalesced events can share a timestamp; assume one millisecond
+        const dt = Math.max(1, time - this.time) / 1000;
+        this.time = time;
+
+        const rawDerivative = (value - this.value) / dt;
+        this.derivative += smoothingFactor(derivativeCutoff, dt) * (rawDerivative - this.derivative);
+
+        const cutoff = minCutoff + beta * Math.abs(this.derivative);
+        this.value += smoothingFactor(cutoff, dt) * (value - this.value);
+        return this.value;
+    }
+}
+
+// Exponential smoothing factor for a low-pass filter with the given cutoff (Hz)
+function smoothingFactor(cutoff: number, dt: number): number {
+    const tau = 1 / (2 * Math.PI * cutoff);
+    return 1 / (1 + tau / dt);
+}
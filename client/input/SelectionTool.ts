@@ -0,0 +1,317 @@
+import { CanvasObject, Transform } from '../../shared/types';
+import { rotation, scaling, transformObject, translation } from '../../shared/transform';
+import { Camera } from '../canvas/Camera';
+import { Bounds } from '../canvas/SpatialIndex';
+import { getObjectBounds, objectHitsSegment, objectIntersectsPolygon } from '../canvas/geometry';
+
+type Vec = { x: number, y: number };
+
+interface SelectionToolCallbacks {
+    // Visible objects intersecting `bounds`, bottom to top, as the user currently sees them
+    queryObjects: (bounds: Bounds) => CanvasObject[];
+    // A visible object by ID, as the user currently sees it
+    getObject: (id: string) => CanvasObject | undefined;
+    // The user finished moving/scaling/rotating the selection
+    onTransform: (ids: string[], transform: Transform) => void;
+}
+
+/**
+ * What to draw for the selection, in world coordinates (see CanvasRenderer.renderSelection).
+ */
+export interface SelectionOverlay {
+    bounds: Bounds | null;     // Box around the selection, with the drag applied
+    handles: Vec[];            // Scale handles (box corners)
+    rotateHandle: Vec | null;  // Rotate handle, above the box
+    handleSize: number;        // World units, so handles keep their screen size at any zoom
+    area: Vec[] | null;        // Marquee/lasso being dragged, as a closed polygon
+}
+
+type Drag =
+    | { kind: 'move', start: Vec }
+    | { kind: 'scale', anchor: Vec, corner: Vec }
+    | { kind: 'rotate', center: Vec, startAngle: number }
+    | { kind: 'area', path: Vec[] };
+
+/**
+ * The selection tool: pick objects, then move, scale or rotate them.
+ *
+ * INTERACTION:
+ * - Press on an object: select it and drag to move it.
+ * - Press on empty space: drag a marquee (or a freehand lasso) to select every
+ *   object whose geometry it touches.
+ * - With a selection: drag inside its box to move, a corner handle to scale
+ *   (the opposite corner stays put), or the handle above the box to rotate.
+ *
+ * While dragging, the tool only computes a preview transform; nothing is
+ * sent until release, when `onTransform` is called once with the whole drag.
+ * Like InputHandler, it works in world coordinates and knows nothing about
+ * the network or the canvas layers.
+ */
+export class SelectionTool {
+    private selected: string[] = [];
+    private drag: Drag | null = null;
+    private preview: Transform | null = null;
+    private mode: 'marquee' | 'lasso' = 'marquee';
+
+    // Configuration (screen pixels)
+    private readonly HANDLE_SIZE = 8;
+    private readonly ROTATE_OFFSET = 24;
+    private readonly HIT_TOLERANCE = 6;
+    private readonly MIN_SCALE = 0.05;
+
+    constructor(private callbacks: SelectionToolCallbacks, private camera: Camera) {}
+
+    public setMode(mode: 'marquee' | 'lasso') {
+        this.mode = mode;
+    }
+
+    public getSelectedIds(): string[] {
+        return [...this.selected];
+    }
+
+    /**
+     * IDs of the objects being dragged right now (the owner hides their committed copies).
+     */
+    public getDraggedIds(): string[] {
+        return this.preview ? [...this.selected] : [];
+    }
+
+    /**
+     * The objects being dragged, with the drag applied (drawn on the live layer meanwhile).
+     */
+    public getPreview(): CanvasObject[] {
+        const preview = this.preview;
+        if (!preview) return [];
+        return this.getSelectedObjects().map(object => transformObject(object, preview));
+    }
+
+    public clear() {
+        this.selected = [];
+        this.drag = null;
+        this.preview = null;
+    }
+
+    /**
+     * Drops selected objects that no longer exist (erased or undone, possibly by someone else).
+     */
+    public prune() {
+        this.selected = this.selected.filter(id => this.callbacks.getObject(id) !== undefined);
+        if (this.selected.length === 0 && this.drag?.kind !== 'area') {
+            this.drag = null;
+            this.preview = null;
+        }
+    }
+
+    // ==========================================
+    // Pointer Input (world coordinates)
+    // ==========================================
+
+    public pointerDown(p: Vec) {
+        this.preview = null;
+
+        const bounds = this.getBounds();
+        if (bounds) {
+            const handle = this.hitHandle(p, bounds);
+            const center = { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 };
+
+            if (handle === 'rotate') {
+                this.drag = { kind: 'rotate', center, startAngle: Math.atan2(p.y - center.y, p.x - center.x) };
+                return;
+            }
+            if (handle) {
+                // The opposite corner stays fixed
+                this.drag = { kind: 'scale', corner: handle, anchor: { x: 2 * center.x - handle.x, y: 2 * center.y - handle.y } };
+                return;
+            }
+            if (p.x >= bounds.minX && p.x <= bounds.maxX && p.y >= bounds.minY && p.y <= bounds.maxY) {
+                this.drag = { kind: 'move', start: p };
+                return;
+            }
+        }
+
+        const hit = this.pick(p);
+        if (hit) {
+            this.selected = [hit.id];
+            this.drag = { kind: 'move', start: p };
+            return;
+        }
+
+        this.selected = [];
+        this.drag = { kind: 'area', path: [p, p] };
+    }
+
+    public pointerMove(p: Vec) {
+        const drag = this.drag;
+        if (!drag) return;
+
+        switch (drag.kind) {
+            case 'move':
+                this.preview = translation(p.x - drag.start.x, p.y - drag.start.y);
+                break;
+
+            case 'scale': {
+                const width = drag.corner.x - drag.anchor.x;
+                const height = drag.corner.y - drag.anchor.y;
+                // A zero-width (or zero-height) selection, e.g. a straight line, can't be scaled along that axis
+                const sx = width === 0 ? 1 : Math.max(this.MIN_SCALE, (p.x - drag.anchor.x) / width);
+                const sy = height === 0 ? 1 : Math.max(this.MIN_SCALE, (p.y - drag.anchor.y) / height);
+                this.preview = scaling(sx, sy, drag.anchor);
+                break;
+            }
+
+            case 'rotate': {
+                const angle = Math.atan2(p.y - drag.center.y, p.x - drag.center.x) - drag.startAngle;
+                this.preview = rotation(angle, drag.center);
+                break;
+            }
+
+            case 'area':
+                if (this.mode === 'marquee') {
+                    drag.path[1] = p;
+                } else {
+                    drag.path.push(p);
+                }
+                break;
+        }
+    }
+
+    public pointerUp() {
+        const drag = this.drag;
+        const preview = this.preview;
+        this.drag = null;
+        this.preview = null;
+        if (!drag) return;
+
+        if (drag.kind === 'area') {
+            this.selectArea(this.getAreaPolygon(drag.path));
+        } else if (preview && this.selected.length > 0) {
+            this.callbacks.onTransform([...this.selected], preview);
+        }
+    }
+
+    // ==========================================
+    // Overlay
+    // ==========================================
+
+    public getOverlay(): SelectionOverlay {
+        const zoom = this.camera.getZoom();
+        const area = this.drag?.kind === 'area' ? this.getAreaPolygon(this.drag.path) : null;
+        const bounds = this.getBounds();
+
+        if (!bounds) {
+            return { bounds: null, handles: [], rotateHandle: null, handleSize: this.HANDLE_SIZE / zoom, area };
+        }
+
+        return {
+            bounds,
+            handles: this.getCorners(bounds),
+            rotateHandle: this.getRotateHandle(bounds),
+            handleSize: this.HANDLE_SIZE / zoom,
+            area
+        };
+    }
+
+    // ==========================================
+    // Helpers
+    // ==========================================
+
+    private getSelectedObjects(): CanvasObject[] {
+        const objects: CanvasObject[] = [];
+        for (const id of this.selected) {
+            const object = this.callbacks.getObject(id);
+            if (object) objects.push(object);
+        }
+        return objects;
+    }
+
+    /**
+     * Union of the selected objects' bounds, with the drag preview applied.
+     */
+    private getBounds(): Bounds | null {
+        const objects = this.preview ? this.getPreview() : this.getSelectedObjects();
+        if (objects.length === 0) return null;
+
+        const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+        for (const object of objects) {
+            const box = getObjectBounds(object);
+            bounds.minX = Math.min(bounds.minX, box.minX);
+            bounds.minY = Math.min(bounds.minY, box.minY);
+            bounds.maxX = Math.max(bounds.maxX, box.maxX);
+            bounds.maxY = Math.max(bounds.maxY, box.maxY);
+        }
+        return bounds;
+    }
+
+    private getRotateHandle(bounds: Bounds): Vec {
+        return { x: (bounds.minX + bounds.maxX) / 2, y: bounds.minY - this.ROTATE_OFFSET / this.camera.getZoom() };
+    }
+
+    private getCorners(bounds: Bounds): Vec[] {
+        return [
+            { x: bounds.minX, y: bounds.minY },
+            { x: bounds.maxX, y: bounds.minY },
+            { x: bounds.maxX, y: bounds.maxY },
+            { x: bounds.minX, y: bounds.maxY }
+        ];
+    }
+
+    /**
+     * The handle under `p`: 'rotate', a corner (scale), or null.
+     */
+    private hitHandle(p: Vec, bounds: Bounds): Vec | 'rotate' | null {
+        const reach = (this.HANDLE_SIZE / 2 + this.HIT_TOLERANCE) / this.camera.getZoom();
+        const near = (handle: Vec) => Math.abs(p.x - handle.x) <= reach && Math.abs(p.y - handle.y) <= reach;
+
+        if (near(this.getRotateHandle(bounds))) {
+            return 'rotate';
+        }
+        return this.getCorners(bounds).find(near) ?? null;
+    }
+
+    /**
+     * The topmost object under `p`, within a few screen pixels.
+     */
+    private pick(p: Vec): CanvasObject | null {
+        const tolerance = this.HIT_TOLERANCE / this.camera.getZoom();
+        const nearby = this.callbacks.queryObjects({
+            minX: p.x - tolerance,
+            minY: p.y - tolerance,
+            maxX: p.x + tolerance,
+            maxY: p.y + tolerance
+        });
+
+        for (let i = nearby.length - 1; i >= 0; i--) {
+            if (objectHitsSegment(nearby[i], p, p, tolerance)) {
+                return nearby[i];
+            }
+        }
+        return null;
+    }
+
+    private getAreaPolygon(path: Vec[]): Vec[] {
+        if (this.mode === 'lasso') return path;
+
+        const [a, b] = path;
+        return [a, { x: b.x, y: a.y }, b, { x: a.x, y: b.y }];
+    }
+
+    private selectArea(polygon: Vec[]) {
+        const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+        for (const p of polygon) {
+            bounds.minX = Math.min(bounds.minX, p.x);
+            bounds.minY = Math.min(bounds.minY, p.y);
+            bounds.maxX = Math.max(bounds.maxX, p.x);
+            bounds.maxY = Math.max(bounds.maxY, p.y);
+        }
+
+        // A click on empty space (no real area) just clears the selection
+        const minSize = this.HIT_TOLERANCE / this.camera.getZoom();
+        if (bounds.maxX - bounds.minX < minSize && bounds.maxY - bounds.minY < minSize) {
+            return;
+        }
+
+        this.selected = this.callbacks.queryObjects(bounds)
+            .filter(object => objectIntersectsPolygon(object, polygon))
+            .map(object => object.id);
+    }
+}
@@ -0,0 +1,94 @@
+import { TextBox } from '../../shared/types';
+import { TEXT_FONT_FAMILY, TEXT_LINE_HEIGHT, getTextLayout } from '../../shared/text';
+import { Camera } from '../canvas/Camera';
+
+/**
+ * In-place editor for text boxes: a <textarea> overlaid on the canvas, styled
+ * and positioned to match how CanvasRenderer draws the box (see shared/text.ts).
+ *
+ * LIFECYCLE:
+ * `open()` shows the editor for a new or existing text box. It closes on blur,
+ * Escape or Ctrl/Cmd+Enter and hands the edited box to the `onCommit` callback
+ * given to `open()`. The editor never talks to the server; the owner decides
+ * whether that means adding, updating or removing the box (or nothing).
+ */
+export class TextEditor {
+    private editing: TextBox | null = null;
+    private onCommit: ((text: TextBox) => void) | null = null;
+
+    constructor(private element: HTMLTextAreaElement, private camera: Camera) {
+        element.addEventListener('input', () => this.layout());
+        element.addEventListener('blur', () => this.commit());
+        element.addEventListener('keydown', (e) => {
+            if (e.key === 'Escape' || (e.key === 'Enter' && (e.ctrlKey || e.metaKey))) {
+                e.preventDefault();
+                this.commit();
+            }
+        });
+
+        // Stay glued to the box while the view pans or zooms
+        camera.onChange(() => this.layout());
+    }
+
+    public isOpen(): boolean {
+        return this.editing !== null;
+    }
+
+    /**
+     * ID of the text box being edited, if any (the owner hides it on the canvas meanwhile).
+     */
+    public getEditingId(): string | null {
+        return this.editing?.id ?? null;
+    }
+
+    public open(text: TextBox, onCommit: (text: TextBox) => void) {
+        this.commit();
+
+        this.editing = text;
+        this.onCommit = onCommit;
+        this.element.value = text.text;
+        this.element.hidden = false;
+        this.layout();
+
+        this.element.focus();
+        this.element.setSelectionRange(text.text.length, text.text.length);
+    }
+
+    /**
+     * Closes the editor and reports the edited box. No-op when closed.
+     */
+    public commit() {
+        const editing = this.editing;
+        const onCommit = this.onCommit;
+        if (!editing || !onCommit) return;
+
+        // Cleared first: hiding the focused textarea fires another blur
+        this.editing = null;
+        this.onCommit = null;
+        this.element.hidden = true;
+
+        onCommit({ ...editing, text: this.element.value.replace(/\r\n?/g, '\n') });
+    }
+
+    private layout() {
+        if (!this.editing) return;
+
+        const draft: TextBox = { ...this.editing, text: this.element.value };
+        const layout = getTextLayout(draft);
+        const zoom = this.camera.getZoom();
+        const position = this.camera.worldToScreen(draft.x, draft.y);
+
+        const style = this.element.style;
+        style.left = `${position.x}px`;
+        style.top = `${position.y}px`;
+        // One extra em so the caret never forces a scroll while typing
+        style.width = `${(layout.width + draft.fontSize) * zoom}px`;
+        style.height = `${layout.height * zoom}px`;
+        style.padding = `${layout.padding * zoom}px`;
+        style.fontSize = `${draft.fontSize * zoom}px`;
+        style.lineHeight = String(TEXT_LINE_HEIGHT);
+        style.fontFamily = TEXT_FONT_FAMILY;
+        style.color = draft.color;
+        style.background = draft.background ?? 'rgba(255, 255, 255, 0.6)';
+    }
+}
@@ -1,20 +1,57 @@
 import { io, Socket } from 'socket.io-client';
 import {
+    BrushKind,
+    CanvasObject,
+    CheckpointSummary,
     ClientMessage,
     ClientMessageType,
+    DisconnectReason,
+    Role,
     ServerMessage,
     ServerMessageType,
+    HandshakeAuth,
+    Layer,
+    LayerChanges,
     Point,
-    ServerCanvasOperation
+    ServerCanvasOperation,
+    ServerErrorCode,
+    Shape,
+    StrokeSnapshot,
+    TextBox,
+    Transform,
+    UserProfile
 } from '../../shared/types';
+import { isTextBox, sameTextBox } from '../../shared/text';
+import { MAX_POINTS_PER_MESSAGE } from '../../shared/validation';
+
+/**
+ * Lifecycle of the connection, as shown in the status bar.
+ * - `connecting`:   First connection attempt in progress.
+ * - `connected`:    Connected and caught up (SYNC received); messages go out immediately.
+ * - `reconnecting`: Connection lost; retrying automatically. Outgoing messages are queued.
+ * - `disconnected`: Closed on purpose (by us or by the server); no automatic retry.
+ */
+export type ConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+/**
+ * A stroke we have transmitted but not yet seen committed by the server.
+ * If the connection drops, the server discards its half-received buffer,
+ * so we must be able to re-send the whole thing on the next connection.
+ */
+interface UnconfirmedStroke {
+    start: Extract<ClientMessage, { type: ClientMessageType.STROKE_START }>;
+    points: Point[];  // Points transmitted via STROKE_MOVE
+    ended: boolean;   // Whether STROKE_END was transmitted
+}
 
 /**
  * Handles all client-side WebSocket communication.
  * 
  * RESPONSIBILITIES:
- * - Manages the Socket.io connection.
+ * - Manages the Socket.io connection, including automatic reconnection.
  * - Provides type-safe methods to emit client messages.
  * - Provides methods to register callbacks for server messages.
+ * - Queues outgoing messages while offline and replays them once caught up.
  * 
  * CONSTRAINTS:
  * - No application logic (just a protocol wrapper).
@@ -22,15 +59,114 @@ import {
  */
 export class SocketClient {
     private socket: Socket;
+    private state: ConnectionState = 'disconnected';
+    private stateListeners: ((state: ConnectionState, queued: number) => void)[] = [];
+
+    // True once the server has sent SYNC on the current connection.
+    // Until then, the server may not have our room loaded, so we hold messages back.
+    private synced = false;
+
+    // Messages emitted while offline, in order.
+    private queue: ClientMessage[] = [];
+
+    // Why the server closed the connection (S_DISCONNECT), if it said so
+    private disconnectMessage: string | null = null;
 
-    constructor(url: string, private roomId: string) {
+    // Strokes transmitted on the current (or a dropped) connection, not yet committed.
+    private unconfirmedStrokes = new Map<string, UnconfirmedStroke>();
+
+    // Same for shapes and text boxes, which are sent in a single message
+    private unconfirmedObjects = new Map<string, Extract<ClientMessage, { type: ClientMessageType.ADD_SHAPE | ClientMessageType.ADD_TEXT }>>();
+
+    // Text edits, keyed by text box ID (a newer edit replaces an older one).
+    // Confirmed when a committed text box matches the edit exactly.
+    private unconfirmedTextUpdates = new Map<string, Extract<ClientMessage, { type: ClientMessageType.UPDATE_TEXT }>>();
+
+    /**
+     * @param userToken Our signed identity from an earlier connection (see onIdentity), if any.
+     *                  Replaced by the one the server sends on each connection.
+     * @param getLastSeq Returns the highest seq applied locally. Sent in the handshake
+     *                   on every (re)connection so the server can send only what we missed.
+     * @param getName Returns the current display name, also sent in every handshake.
+     * @param token Access token for secured rooms (from an invite link or POST /rooms).
+     */
+    constructor(url: string, private roomId: string, private userToken: string | null, getLastSeq: () => number, getName: () => string, token: string | null = null) {
         this.socket = io(url, {
             autoConnect: false,
-            query: { roomId }
+            query: { roomId },
+            // Evaluated on each connection attempt, not once
+            auth: (cb) => {
+                const auth: HandshakeAuth = { lastSeq: getLastSeq(), name: getName() };
+                if (token) auth.token = token;
+                if (this.userToken) auth.userToken = this.userToken;
+                cb(auth);
+            },
+            reconnection: true,
+            reconnectionDelay: 1000,
+            reconnectionDelayMax: 10000
         });
 
         this.socket.on('connect_error', (err) => {
             console.error('Socket connection error:', err);
+
+            // Refused by the server's access check: Socket.io won't retry, and retrying wouldn't help
+            const reason = (err as Error & { data?: { reason?: DisconnectReason } }).data?.reason;
+            if (reason) {
+                this.disconnectMessage = err.message;
+                this.setState('disconnected');
+            }
+        });
+
+        this.socket.on('disconnect', (reason) => {
+            this.synced = false;
+
+            // Socket.io retries on its own unless the disconnect was deliberate
+            if (reason === 'io client disconnect' || reason === 'io server disconnect') {
+                this.setState('disconnected');
+            } else {
+                this.setState('reconnecting');
+            }
+        });
+
+        this.socket.io.on('reconnect_attempt', () => {
+            this.setState('reconnecting');
+        });
+
+        // Registered before any app listener, so the queue is flushed as soon as we're caught up
+        this.socket.on('message', (msg: ServerMessage) => {
+            switch (msg.type) {
+                case ServerMessageType.IDENTITY:
+                    this.userToken = msg.userToken;
+                    break;
+
+                case ServerMessageType.SYNC:
+                    this.markCommitted(msg.operations);
+                    if (msg.snapshot) {
+                        for (const object of msg.snapshot.strokes) {
+                            this.unconfirmedStrokes.delete(object.id);
+                            this.unconfirmedObjects.delete(object.id);
+                            this.confirmTextUpdate(object);
+                        }
+                    }
+                    this.synced = true;
+                    this.resume();
+                    this.setState('connected');
+                    break;
+
+                case ServerMessageType.BROADCAST_OPERATION:
+                case ServerMessageType.BROADCAST_REDO:
+                    this.markCommitted(msg.operations);
+                    break;
+
+                case ServerMessageType.ERROR:
+                    this.markRejected(msg.rejectedType, msg.id);
+                    break;
+
+                case ServerMessageType.DISCONNECT:
+                    // Arrives just before the 'disconnect' event that reports the state change
+                    this.disconnectMessage = msg.message;
+                    break;
+            }
         });
     }
 
@@ -42,7 +178,27 @@ export class SocketClient {
         this.socket.on('connect', callback);
     }
 
+    /**
+     * Notifies about connection state changes, with the number of queued messages.
+     */
+    public onConnectionStateChange(callback: (state: ConnectionState, queued: number) => void) {
+        this.stateListeners.push(callback);
+    }
+
+    public getConnectionState(): ConnectionState {
+        return this.state;
+    }
+
+    /**
+     * The server's reason for closing the connection, if it gave one (e.g. the room is full).
+     */
+    public getDisconnectMessage(): string | null {
+        return this.disconnectMessage;
+    }
+
     public connect() {
+        this.disconnectMessage = null;
+        this.setState('connecting');
         this.socket.connect();
     }
 
@@ -54,26 +210,31 @@ export class SocketClient {
     // Emitters (Client -> Server)
     // ==========================================
 
-    public emitStrokeStart(id: string, color: string, size: number, startPoint: Point) {
+    public emitStrokeStart(id: string, color: string, size: number, brush: BrushKind, startPoint: Point, tolerance?: number, layerId?: string) {
         const msg: ClientMessage = {
             type: ClientMessageType.STROKE_START,
             roomId: this.roomId,
             id,
             color,
             size,
+            brush,
+            layerId,
+            tolerance,
             startPoint
         };
-        this.socket.emit('message', msg);
+        this.send(msg);
     }
 
     public emitStrokeMove(id: string, points: Point[]) {
-        const msg: ClientMessage = {
-            type: ClientMessageType.STROKE_MOVE,
-            roomId: this.roomId,
-            id,
-            points
-        };
-        this.socket.emit('message', msg);
+        for (const chunk of chunkPoints(points)) {
+            const msg: ClientMessage = {
+                type: ClientMessageType.STROKE_MOVE,
+                roomId: this.roomId,
+                id,
+                points: chunk
+            };
+            this.send(msg);
+        }
     }
 
     public emitStrokeEnd(id: string) {
@@ -82,7 +243,7 @@ export class SocketClient {
             roomId: this.roomId,
             id
         };
-        this.socket.emit('message', msg);
+        this.send(msg);
     }
 
     public emitUndo() {
@@ -90,7 +251,7 @@ export class SocketClient {
             type: ClientMessageType.UNDO,
             roomId: this.roomId
         };
-        this.socket.emit('message', msg);
+        this.send(msg);
     }
 
     public emitRedo() {
@@ -98,7 +259,92 @@ export class SocketClient {
             type: ClientMessageType.REDO,
             roomId: this.roomId
         };
-        this.socket.emit('message', msg);
+        this.send(msg);
+    }
+
+    public emitAddShape(shape: Shape) {
+        const msg: ClientMessage = {
+            type: ClientMessageType.ADD_SHAPE,
+            roomId: this.roomId,
+            shape
+        };
+        this.send(msg);
+    }
+
+    public emitAddText(text: TextBox) {
+        const msg: ClientMessage = {
+            type: ClientMessageType.ADD_TEXT,
+            roomId: this.roomId,
+            text
+        };
+        this.send(msg);
+    }
+
+    public emitUpdateText(text: TextBox) {
+        const msg: ClientMessage = {
+            type: ClientMessageType.UPDATE_TEXT,
+            roomId: this.roomId,
+            text
+        };
+        this.send(msg);
+    }
+
+    public emitTransform(objectIds: string[], transform: Transform) {
+        const msg: ClientMessage = {
+            type: ClientMessageType.TRANSFORM,
+            roomId: this.roomId,
+            objectIds,
+            transform
+        };
+        this.send(msg);
+    }
+
+    public emitAddLayer(layer: Layer) {
+        const msg: ClientMessage = {
+            type: ClientMessageType.ADD_LAYER,
+            roomId: this.roomId,
+            layer
+        };
+        this.send(msg);
+    }
+
+    public emitUpdateLayer(layerId: string, changes: LayerChanges) {
+        const msg: ClientMessage = {
+            type: ClientMessageType.UPDATE_LAYER,
+            roomId: this.roomId,
+            layerId,
+            changes
+        };
+        this.send(msg);
+    }
+
+    public emitMoveLayer(layerId: string, index: number) {
+        const msg: ClientMessage = {
+            type: ClientMessageType.MOVE_LAYER,
+            roomId: this.roomId,
+            layerId,
+            index
+        };
+        this.send(msg);
+    }
+
+    public emitMoveToLayer(objectIds: string[], layerId: string) {
+        const msg: ClientMessage = {
+            type: ClientMessageType.MOVE_TO_LAYER,
+            roomId: this.roomId,
+            objectIds,
+            layerId
+        };
+        this.send(msg);
+    }
+
+    public emitErase(strokeIds: string[]) {
+        const msg: ClientMessage = {
+            type: ClientMessageType.ERASE,
+            roomId: this.roomId,
+            strokeIds
+        };
+        this.send(msg);
     }
 
     public emitCursorMove(x: number, y: number) {
@@ -108,49 +354,252 @@ export class SocketClient {
             x,
             y
         };
+        // Cursor positions are ephemeral; drop them rather than queueing while offline
+        if (this.synced) {
+            this.socket.emit('message', msg);
+        }
+    }
+
+    public emitProfileUpdate(name: string) {
+        const msg: ClientMessage = {
+            type: ClientMessageType.UPDATE_PROFILE,
+            roomId: this.roomId,
+            name
+        };
+        // No need to queue: the next handshake carries the new name anyway
+        if (this.synced) {
+            this.socket.emit('message', msg);
+        }
+    }
+
+    // ==========================================
+    // Delivery & Offline Queue
+    // ==========================================
+
+    /**
+     * Sends a message now if we're connected and caught up, otherwise queues it.
+     */
+    private send(msg: ClientMessage) {
+        if (this.socket.connected && this.synced) {
+            this.transmit(msg);
+            return;
+        }
+
+        // Points drawn offline join the previous batch of the same stroke, so the
+        // flush after reconnecting stays within the server's rate limits
+        const last = this.queue[this.queue.length - 1];
+        if (
+            msg.type === ClientMessageType.STROKE_MOVE &&
+            last?.type === ClientMessageType.STROKE_MOVE &&
+            last.id === msg.id &&
+            last.points.length + msg.points.length <= MAX_POINTS_PER_MESSAGE
+        ) {
+            this.queue[this.queue.length - 1] = { ...last, points: [...last.points, ...msg.points] };
+        } else {
+            this.queue.push(msg);
+        }
+        this.notifyState();
+    }
+
+    /**
+     * Emits a message and remembers any stroke data it carries until the stroke is committed.
+     */
+    private transmit(msg: ClientMessage) {
+        switch (msg.type) {
+            case ClientMessageType.STROKE_START:
+                this.unconfirmedStrokes.set(msg.id, { start: msg, points: [], ended: false });
+                break;
+            case ClientMessageType.STROKE_MOVE:
+                this.unconfirmedStrokes.get(msg.id)?.points.push(...msg.points);
+                break;
+            case ClientMessageType.STROKE_END: {
+                const stroke = this.unconfirmedStrokes.get(msg.id);
+                if (stroke) stroke.ended = true;
+                break;
+            }
+            case ClientMessageType.ADD_SHAPE:
+                this.unconfirmedObjects.set(msg.shape.id, msg);
+                break;
+            case ClientMessageType.ADD_TEXT:
+                this.unconfirmedObjects.set(msg.text.id, msg);
+                break;
+            case ClientMessageType.UPDATE_TEXT:
+                this.unconfirmedTextUpdates.set(msg.text.id, msg);
+                break;
+        }
         this.socket.emit('message', msg);
     }
 
+    /**
+     * Called once caught up after (re)connecting.
+     *
+     * 1. Strokes transmitted on a dropped connection and not committed are re-sent
+     *    in full: the server threw away its partial buffer when that socket closed.
+     *    Uncommitted shapes, text boxes and text edits are re-sent too (the message
+     *    may have been lost in flight). The server ignores an edit that changes nothing.
+     * 2. Messages queued while offline are flushed in order.
+     *
+     * Strokes the catch-up SYNC showed as committed were already removed from
+     * `unconfirmedStrokes`, so nothing is committed twice. Undo/redo/erase/transform
+     * messages are only queued if they were never transmitted, so they are never repeated.
+     */
+    private resume() {
+        const resend = Array.from(this.unconfirmedStrokes.values());
+        this.unconfirmedStrokes.clear();
+
+        for (const stroke of resend) {
+            this.transmit(stroke.start);
+            // Split, so a long stroke stays within the server's per-message limit
+            for (const chunk of chunkPoints(stroke.points)) {
+                this.transmit({
+                    type: ClientMessageType.STROKE_MOVE,
+                    roomId: this.roomId,
+                    id: stroke.start.id,
+                    points: chunk
+                });
+            }
+            if (stroke.ended) {
+                this.transmit({
+                    type: ClientMessageType.STROKE_END,
+                    roomId: this.roomId,
+                    id: stroke.start.id
+                });
+            }
+        }
+
+        const resendObjects = [...this.unconfirmedObjects.values(), ...this.unconfirmedTextUpdates.values()];
+        this.unconfirmedObjects.clear();
+        this.unconfirmedTextUpdates.clear();
+        for (const msg of resendObjects) {
+            this.transmit(msg);
+        }
+
+        const queued = this.queue;
+        this.queue = [];
+        for (const msg of queued) {
+            this.transmit(msg);
+        }
+    }
+
+    private markCommitted(ops: ServerCanvasOperation[]) {
+        for (const op of ops) {
+            if (op.type === 'ADD_STROKE') {
+                this.unconfirmedStrokes.delete(op.stroke.id);
+            } else if (op.type === 'ADD_SHAPE') {
+                this.unconfirmedObjects.delete(op.shape.id);
+            } else if (op.type === 'ADD_TEXT') {
+                this.unconfirmedObjects.delete(op.text.id);
+            } else if (op.type === 'UPDATE_TEXT') {
+                this.confirmTextUpdate(op.text);
+            }
+        }
+    }
+
+    /**
+     * The server refused a message. A refused start, shape, text box or text edit
+     * will never be committed, so it must not be re-sent on the next connection.
+     * (A refused STROKE_MOVE only loses those points; the stroke is still committed.)
+     */
+    private markRejected(rejectedType: string | null, id: string | undefined) {
+        if (id === undefined) return;
+
+        switch (rejectedType) {
+            case ClientMessageType.STROKE_START:
+                this.unconfirmedStrokes.delete(id);
+                break;
+            case ClientMessageType.ADD_SHAPE:
+            case ClientMessageType.ADD_TEXT:
+                this.unconfirmedObjects.delete(id);
+                break;
+            case ClientMessageType.UPDATE_TEXT:
+                this.unconfirmedTextUpdates.delete(id);
+                break;
+        }
+    }
+
+    private confirmTextUpdate(object: CanvasObject) {
+        const pending = this.unconfirmedTextUpdates.get(object.id);
+        if (pending && isTextBox(object) && sameTextBox(pending.text, object)) {
+            this.unconfirmedTextUpdates.delete(object.id);
+        }
+    }
+
+    private setState(state: ConnectionState) {
+        if (this.state === state) return;
+        this.state = state;
+        this.notifyState();
+    }
+
+    private notifyState() {
+        for (const listener of this.stateListeners) {
+            listener(this.state, this.queue.length);
+        }
+    }
+
     // ==========================================
     // Listeners (Server -> Client)
     // ==========================================
 
-    public onSync(callback: (ops: ServerCanvasOperation[]) => void) {
+    /**
+     * @param callback Receives `snapshot` only for a full sync; when it is undefined,
+     *                 the operations and removals are a catch-up on top of local state.
+     */
+    public onSync(callback: (
+        snapshot: StrokeSnapshot | undefined,
+        ops: ServerCanvasOperation[],
+        removedOperationIds: string[],
+        seq: number
+    ) => void) {
         this.socket.on('message', (msg: ServerMessage) => {
             if (msg.type === ServerMessageType.SYNC) {
-                callback(msg.operations);
+                callback(msg.snapshot, msg.operations, msg.removedOperationIds, msg.seq);
+            }
+        });
+    }
+
+    /**
+     * @param callback Receives the reason one of our messages was refused, the refused
+     *                 message's type and, if known, the stroke or object it was about.
+     */
+    public onRejected(callback: (code: ServerErrorCode, message: string, rejectedType: string | null, id?: string) => void) {
+        this.socket.on('message', (msg: ServerMessage) => {
+            if (msg.type === ServerMessageType.ERROR) {
+                callback(msg.code, msg.message, msg.rejectedType, msg.id);
             }
         });
     }
 
-    public onOperation(callback: (op: ServerCanvasOperation) => void) {
+    public onOperation(callback: (ops: ServerCanvasOperation[]) => void) {
         this.socket.on('message', (msg: ServerMessage) => {
             if (msg.type === ServerMessageType.BROADCAST_OPERATION) {
-                callback(msg.operation);
+                callback(msg.operations);
             }
         });
     }
 
-    public onUndo(callback: (op: ServerCanvasOperation) => void) {
+    /**
+     * @param callback Receives every operation removed by the undo (more than one for a batch).
+     */
+    public onUndo(callback: (ops: ServerCanvasOperation[], seq: number) => void) {
         this.socket.on('message', (msg: ServerMessage) => {
             if (msg.type === ServerMessageType.BROADCAST_UNDO) {
-                callback(msg.operation);
+                callback(msg.operations, msg.seq);
             }
         });
     }
 
-    public onRedo(callback: (op: ServerCanvasOperation) => void) {
+    public onRedo(callback: (ops: ServerCanvasOperation[]) => void) {
         this.socket.on('message', (msg: ServerMessage) => {
             if (msg.type === ServerMessageType.BROADCAST_REDO) {
-                callback(msg.operation);
+                callback(msg.operations);
             }
         });
     }
 
-    public onStrokeStart(callback: (userId: string, id: string, color: string, size: number, startPoint: Point) => void) {
+    public onStrokeStart(callback: (userId: string, id: string, color: string, size: number, brush: BrushKind, startPoint: Point) => void) {
         this.socket.on('message', (msg: ServerMessage) => {
             if (msg.type === ServerMessageType.BROADCAST_STROKE_START) {
-                callback(msg.userId, msg.id, msg.color, msg.size, msg.startPoint);
+                callback(msg.userId, msg.id, msg.color, msg.size, msg.brush, msg.startPoint);
             }
         });
     }
@@ -178,4 +627,68 @@ export class SocketClient {
             }
         });
     }
+
+    /**
+     * Who we are: our user ID and the token that proves it (sent first on every connection).
+     * Keep the token to stay the same user after a reload; send it as `X-User-Token`
+     * to have HTTP changes (import, checkpoints) attributed to us.
+     */
+    public onIdentity(callback: (userId: string, userToken: string) => void) {
+        this.socket.on('message', (msg: ServerMessage) => {
+            if (msg.type === ServerMessageType.IDENTITY) {
+                callback(msg.userId, msg.userToken);
+            }
+        });
+    }
+
+    /**
+     * Everyone in the room, including ourselves, and our own role in it.
+     * Sent on every (re)connection; the list replaces the previous one.
+     */
+    public onRoster(callback: (users: UserProfile[], role: Role) => void) {
+        this.socket.on('message', (msg: ServerMessage) => {
+            if (msg.type === ServerMessageType.ROSTER) {
+                callback(msg.users, msg.role);
+            }
+        });
+    }
+
+    /**
+     * A user joined, or changed their profile.
+     */
+    public onUserJoined(callback: (user: UserProfile) => void) {
+        this.socket.on('message', (msg: ServerMessage) => {
+            if (msg.type === ServerMessageType.USER_JOINED) {
+                callback(msg.user);
+            }
+        });
+    }
+
+    public onUserLeft(callback: (userId: string) => void) {
+        this.socket.on('message', (msg: ServerMessage) => {
+            if (msg.type === ServerMessageType.USER_LEFT) {
+                callback(msg.userId);
+            }
+        });
+    }
+
+    /**
+     * The room's checkpoints, oldest first (sent on every connection and whenever the list changes).
+     */
+    public onCheckpoints(callback: (checkpoints: CheckpointSummary[]) => void) {
+        this.socket.on('message', (msg: ServerMessage) => {
+            if (msg.type === ServerMessageType.CHECKPOINTS) {
+                callback(msg.checkpoints);
+            }
+        });
+    }
+}
+
+// Consecutive runs of at most MAX_POINTS_PER_MESSAGE points (none for no points)
+function chunkPoints(points: Point[]): Point[][] {
+    const chunks: Point[][] = [];
+    for (let i = 0; i < points.length; i += MAX_POINTS_PER_MESSAGE) {
+        chunks.push(points.slice(i, i + MAX_POINTS_PER_MESSAGE));
+    }
+    return chunks;
 }
@@ -1,57 +1,137 @@
-import { ServerCanvasOperation } from '../../shared/types';
+import { CanvasObject, Layer, ServerCanvasOperation, StrokeSnapshot } from '../../shared/types';
+import { foldOperations } from '../../shared/history';
+import { DEFAULT_LAYERS, foldLayers } from '../../shared/layers';
 
 /**
  * Manages the local mirror of the server's authoritative operation history.
- * 
+ *
  * RESPONSIBILITIES:
- * - Stores an ordered list of ServerCanvasOperation.
+ * - Stores the base snapshot and the ordered list of ServerCanvasOperation after it.
  * - Provides methods to mutate the list based on server messages (SYNC, OP, UNDO).
+ * - Tracks the highest sequence number applied, so reconnects can resume from it.
  * - Exposes a read-only snapshot for rendering.
- * 
+ *
  * CONSTRAINTS:
  * - Deterministic behavior only.
  * - No business logic (undo/redo decisions happen on server).
  */
 export class OperationStore {
+    private baseStrokes: CanvasObject[] = [];
+    private baseLayers: ReadonlyArray<Layer> = DEFAULT_LAYERS;
+    private baseSeq = 0;
     private operations: ServerCanvasOperation[] = [];
+    private lastSeq = 0;
 
     /**
-     * Replaces the entire operation history.
-     * Used when receiving the initial SYNC message from the server.
-     * 
-     * @param ops The full authoritative history.
+     * Replaces the entire local state.
+     * Used when receiving a FULL SYNC message from the server.
+     *
+     * @param snapshot The compacted base state.
+     * @param ops The authoritative operations after the snapshot.
+     * @param seq The room's latest sequence number.
      */
-    public setOperations(ops: ServerCanvasOperation[]) {
-        // Create a shallow copy to ensure we own the array
+    public reset(snapshot: StrokeSnapshot, ops: ServerCanvasOperation[], seq: number) {
+        // Create shallow copies to ensure we own the arrays
+        this.baseStrokes = [...snapshot.strokes];
+        this.baseLayers = snapshot.layers ? [...snapshot.layers] : DEFAULT_LAYERS;
+        this.baseSeq = snapshot.seq;
         this.operations = [...ops];
+        this.lastSeq = seq;
     }
 
     /**
-     * Appends a new operation to the history.
+     * Applies the changes we missed while disconnected.
+     * Used when receiving an INCREMENTAL SYNC message from the server.
+     *
+     * Removals are applied first: a redone operation keeps its ID but comes
+     * back with a new seq, so it must be dropped from its old position before
+     * being re-appended.
+     */
+    public applyChanges(removedIds: string[], ops: ServerCanvasOperation[], seq: number) {
+        const removed = new Set(removedIds);
+        for (const op of ops) {
+            removed.add(op.id);
+        }
+        this.operations = this.operations.filter(op => !removed.has(op.id));
+        this.operations.push(...ops);
+        this.lastSeq = Math.max(this.lastSeq, seq);
+    }
+
+    /**
+     * Appends new operations to the history.
      * Used when receiving BROADCAST_OPERATION or BROADCAST_REDO.
-     * 
-     * @param op The new operation to append.
+     *
+     * @param ops The new operations to append, in seq order.
      */
-    public addOperation(op: ServerCanvasOperation) {
-        this.operations.push(op);
+    public addOperations(ops: ReadonlyArray<ServerCanvasOperation>) {
+        for (const op of ops) {
+            this.operations.push(op);
+            this.lastSeq = Math.max(this.lastSeq, op.seq);
+        }
     }
 
     /**
-     * Removes an operation by its ID.
-     * Used when receiving BROADCAST_UNDO.
-     * 
-     * @param id The ID of the operation to remove.
+     * Removes operations by their IDs.
+     * Used when receiving BROADCAST_UNDO (several IDs when a batch is undone).
+     *
+     * @param ids The IDs of the operations to remove.
+     * @param seq The sequence number of the undo.
      */
-    public removeOperation(id: string) {
-        // Filter out the operation with the matching ID.
-        this.operations = this.operations.filter(op => op.id !== id);
+    public removeOperations(ids: ReadonlyArray<string>, seq: number) {
+        // Filter out the operations with matching IDs.
+        const removed = new Set(ids);
+        this.operations = this.operations.filter(op => !removed.has(op.id));
+        this.lastSeq = Math.max(this.lastSeq, seq);
     }
 
     /**
-     * Returns a read-only snapshot of the current operations.
-     * Used by the renderer.
+     * Returns a read-only snapshot of the current operations (after the base snapshot).
      */
     public getSnapshot(): ReadonlyArray<ServerCanvasOperation> {
         return this.operations;
     }
+
+    /**
+     * Returns the objects of the base snapshot the operations apply on top of.
+     */
+    public getBaseStrokes(): ReadonlyArray<CanvasObject> {
+        return this.baseStrokes;
+    }
+
+    /**
+     * Returns the layers of the base snapshot, bottom first.
+     */
+    public getBaseLayers(): ReadonlyArray<Layer> {
+        return this.baseLayers;
+    }
+
+    /**
+     * The sequence number the base snapshot was folded up to (0 if nothing was compacted).
+     */
+    public getBaseSeq(): number {
+        return this.baseSeq;
+    }
+
+    /**
+     * The highest sequence number applied so far (0 before the first SYNC).
+     */
+    public getLastSeq(): number {
+        return this.lastSeq;
+    }
+
+    /**
+     * Folds the base snapshot and the history into the objects that are
+     * currently visible, in z-order.
+     * O(N): the renderer keeps its own incremental copy (see SceneIndex).
+     */
+    public getVisibleStrokes(): CanvasObject[] {
+        return Array.from(foldOperations(this.baseStrokes, this.operations).values());
+    }
+
+    /**
+     * Folds the layers, bottom first. O(N), like getVisibleStrokes.
+     */
+    public getLayers(): ReadonlyArray<Layer> {
+        return foldLayers(this.baseLayers, this.operations);
+    }
 }
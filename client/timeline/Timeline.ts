@@ -0,0 +1,135 @@
+import { CanvasObject, Layer, ServerCanvasOperation, Stroke } from '../../shared/types';
+import { foldOperations } from '../../shared/history';
+
+/**
+ * An operation placed on the playback clock (ms from the start of playback).
+ */
+export interface ScheduledOperation {
+    op: ServerCanvasOperation;
+    start: number;
+    duration: number; // 0 unless it is a stroke drawn over time
+}
+
+// Playback pacing, in ms of board time
+const STEP_GAP_MS = 300;       // Before operations without timestamps (shapes, text, erases, ...)
+const MIN_GAP_MS = 50;         // Between strokes, so quick ones still read as separate
+const MAX_GAP_MS = 1000;       // Between strokes: long pauses are skipped
+const MAX_STROKE_MS = 10_000;  // Slower strokes are sped up to this
+
+/**
+ * A read-only copy of a room's history, for looking back through it.
+ *
+ * RESPONSIBILITIES:
+ * - Freezes the base snapshot and operation log when it is created, so scrubbing
+ *   and playback never touch the live OperationStore (or anyone else's board).
+ * - Folds the history up to any seq.
+ * - Places operations on a playback clock, using the points' timestamps.
+ *
+ * CONSTRAINTS:
+ * - It shows what the history holds now: undone operations have left the log, and
+ *   everything compacted into the base snapshot appears at once, at the start.
+ */
+export class Timeline {
+    private readonly baseStrokes: ReadonlyArray<CanvasObject>;
+    private readonly operations: ReadonlyArray<ServerCanvasOperation>;
+    private readonly baseLayers: ReadonlyArray<Layer>;
+
+    /**
+     * @param baseSeq The seq the base snapshot was folded up to.
+     */
+    constructor(
+        baseStrokes: ReadonlyArray<CanvasObject>,
+        operations: ReadonlyArray<ServerCanvasOperation>,
+        private readonly baseSeq: number,
+        baseLayers: ReadonlyArray<Layer>
+    ) {
+        this.baseStrokes = [...baseStrokes];
+        this.operations = [...operations];
+        this.baseLayers = [...baseLayers];
+    }
+
+    /**
+     * The earliest seq that can be shown: the board as the base snapshot left it.
+     */
+    public getStartSeq(): number {
+        return this.baseSeq;
+    }
+
+    /**
+     * The latest seq: the board as it was when the timeline was opened.
+     */
+    public getEndSeq(): number {
+        return this.operations.length > 0 ? this.operations[this.operations.length - 1].seq : this.baseSeq;
+    }
+
+    public getBaseStrokes(): ReadonlyArray<CanvasObject> {
+        return this.baseStrokes;
+    }
+
+    public getBaseLayers(): ReadonlyArray<Layer> {
+        return this.baseLayers;
+    }
+
+    /**
+     * Operations up to and including `seq`, in order.
+     */
+    public getOperationsUntil(seq: number): ServerCanvasOperation[] {
+        return this.operations.filter(op => op.seq <= seq);
+    }
+
+    /**
+     * The visible objects as of `seq`, in z-order.
+     */
+    public getObjectsAt(seq: number): CanvasObject[] {
+        return Array.from(foldOperations(this.baseStrokes, this.getOperationsUntil(seq)).values());
+    }
+
+    /**
+     * Schedules the operations after `seq` for playback.
+     * Strokes take as long as they took to draw and keep (shortened) pauses between
+     * them; operations without timestamps follow each other at a steady pace.
+     */
+    public getSchedule(seq: number): ScheduledOperation[] {
+        const schedule: ScheduledOperation[] = [];
+        let clock = 0;
+        let lastT: number | null = null; // Timestamp of the last point played
+
+        for (const op of this.operations) {
+            if (op.seq <= seq) continue;
+
+            if (op.type === 'ADD_STROKE' && op.stroke.points.length > 0) {
+                const { first, last } = getEnds(op.stroke);
+                const gap = lastT === null ? STEP_GAP_MS : clamp(first.t - lastT, MIN_GAP_MS, MAX_GAP_MS);
+                const duration = clamp(last.t - first.t, 0, MAX_STROKE_MS);
+
+                schedule.push({ op, start: clock + gap, duration });
+                clock += gap + duration;
+                lastT = last.t;
+            } else {
+                clock += STEP_GAP_MS;
+                schedule.push({ op, start: clock, duration: 0 });
+            }
+        }
+        return schedule;
+    }
+}
+
+/**
+ * The part of a stroke drawn `elapsed` ms into its scheduled `duration`.
+ */
+export function getPartialStroke(stroke: Stroke, elapsed: number, duration: number): Stroke {
+    const { first, last } = getEnds(stroke);
+    if (duration <= 0 || elapsed >= duration) return stroke;
+
+    // A stroke sped up to fit MAX_STROKE_MS is cut at the same fraction of its real duration
+    const cutoff = first.t + (elapsed / duration) * (last.t - first.t);
+    return { ...stroke, points: stroke.points.filter(point => point.t <= cutoff) };
+}
+
+function getEnds(stroke: Stroke) {
+    return { first: stroke.points[0], last: stroke.points[stroke.points.length - 1] };
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value));
+}
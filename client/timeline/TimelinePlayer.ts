@@ -0,0 +1,94 @@
+import { ServerCanvasOperation, Stroke } from '../../shared/types';
+import { ScheduledOperation, Timeline, getPartialStroke } from './Timeline';
+
+export interface PlaybackCallbacks {
+    // Operations that finished playing, in order, and the seq the board is now at
+    onApply: (ops: ServerCanvasOperation[], seq: number) => void;
+    // The stroke being drawn right now (partially), or null between strokes
+    onDrawing: (stroke: Stroke | null) => void;
+    onEnd: () => void;
+}
+
+/**
+ * Plays a Timeline back: strokes are drawn point by point, at real speed or faster.
+ *
+ * DESIGN:
+ * Driven by requestAnimationFrame. Each frame advances a playback clock by the
+ * frame time times the speed, hands over the operations that finished by then,
+ * and reports the part of the current stroke drawn so far. Frames can't fall
+ * behind: a slow frame just completes more operations at once.
+ */
+export class TimelinePlayer {
+    private schedule: ScheduledOperation[] = [];
+    private next = 0;       // Index of the first operation that hasn't finished
+    private elapsed = 0;    // Playback clock (ms of board time)
+    private lastFrame: number | null = null;
+    private frame: number | null = null;
+    private speed = 1;
+
+    constructor(private timeline: Timeline, private callbacks: PlaybackCallbacks) {}
+
+    /**
+     * Plays the operations after `seq` (the board on screen should show `seq`).
+     */
+    public play(seq: number) {
+        this.stop();
+        this.schedule = this.timeline.getSchedule(seq);
+        this.next = 0;
+        this.elapsed = 0;
+        this.frame = requestAnimationFrame(this.tick);
+    }
+
+    /**
+     * Stops where it is. Operations not yet reported stay unplayed.
+     */
+    public stop() {
+        if (this.frame !== null) {
+            cancelAnimationFrame(this.frame);
+            this.frame = null;
+        }
+        this.lastFrame = null;
+        this.callbacks.onDrawing(null);
+    }
+
+    public isPlaying(): boolean {
+        return this.frame !== null;
+    }
+
+    /**
+     * @param speed Multiple of real time (1 = as it was drawn).
+     */
+    public setSpeed(speed: number) {
+        this.speed = speed;
+    }
+
+    private tick = (now: number) => {
+        this.elapsed += this.lastFrame === null ? 0 : (now - this.lastFrame) * this.speed;
+        this.lastFrame = now;
+
+        const finished: ServerCanvasOperation[] = [];
+        while (this.next < this.schedule.length) {
+            const { op, start, duration } = this.schedule[this.next];
+            if (start + duration > this.elapsed) break;
+            finished.push(op);
+            this.next++;
+        }
+        if (finished.length > 0) {
+            this.callbacks.onApply(finished, finished[finished.length - 1].seq);
+        }
+
+        if (this.next >= this.schedule.length) {
+            this.frame = null;
+            this.lastFrame = null;
+            this.callbacks.onDrawing(null);
+            this.callbacks.onEnd();
+            return;
+        }
+
+        const { op, start, duration } = this.schedule[this.next];
+        const drawing = op.type === 'ADD_STROKE' && this.elapsed >= start;
+        this.callbacks.onDrawing(drawing ? getPartialStroke(op.stroke, this.elapsed - start, duration) : null);
+
+        this.frame = requestAnimationFrame(this.tick);
+    };
+}
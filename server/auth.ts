@@ -0,0 +1,128 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { Role } from '../shared/types';
+import { isRole } from '../shared/roles';
+import { getRoomMetadata } from './rooms';
+
+/**
+ * Access tokens for secured rooms.
+ *
+ * A token is `<claims>.<signature>`: base64url JSON claims and their
+ * HMAC-SHA256 under `AUTH_SECRET`. Tokens are bearer credentials: whoever
+ * holds one (e.g. from a share link) gets its role. Nothing is stored per
+ * token, so a token can't be revoked on its own; share links can expire instead.
+ */
+export interface AccessClaims {
+    roomId: string;
+    role: Role;
+    expiresAt: number | null; // ms since epoch; null = never
+}
+
+const SECRET = loadSecret();
+
+// Open rooms (never created through POST /rooms) let everyone edit unless this is set
+const AUTH_REQUIRED = process.env.AUTH_REQUIRED === 'true';
+
+// Operator credential for the room admin routes (listing, clearing, deleting rooms)
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN || null;
+
+export function signAccessToken(claims: AccessClaims): string {
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * @returns The token's claims if it is genuine, for this room, and not expired; otherwise null.
+ */
+export function verifyAccessToken(token: unknown, roomId: string, now: number = Date.now()): AccessClaims | null {
+    if (typeof token !== 'string') return null;
+
+    const [payload, signature, ...rest] = token.split('.');
+    if (!payload || !signature || rest.length > 0) return null;
+
+    const expected = Buffer.from(sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+    let claims: Partial<AccessClaims>;
+    try {
+        claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch {
+        return null;
+    }
+
+    if (claims.roomId !== roomId || !isRole(claims.role)) return null;
+    if (typeof claims.expiresAt === 'number' && claims.expiresAt <= now) return null;
+
+    return { roomId, role: claims.role, expiresAt: claims.expiresAt ?? null };
+}
+
+/**
+ * The role a connection or HTTP request gets in a room.
+ * Secured rooms need a valid token; open rooms make everyone an editor.
+ * @returns null if access is denied.
+ */
+export async function resolveRole(roomId: string, token: unknown): Promise<Role | null> {
+    const meta = await getRoomMetadata(roomId);
+    if (!meta?.secured) {
+        return AUTH_REQUIRED ? null : 'editor';
+    }
+    return verifyAccessToken(token, roomId)?.role ?? null;
+}
+
+/**
+ * Whether the room admin routes are available at all: only with an ADMIN_TOKEN.
+ */
+export function isAdminEnabled(): boolean {
+    return ADMIN_TOKEN !== null;
+}
+
+/**
+ * Whether a request may use the room admin routes. Fails closed: without
+ * ADMIN_TOKEN nobody may.
+ */
+export function isAdmin(token: unknown): boolean {
+    if (!ADMIN_TOKEN || typeof token !== 'string') return false;
+
+    const expected = Buffer.from(ADMIN_TOKEN);
+    const actual = Buffer.from(token);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * User identity tokens: `<userId>.<signature>`, minted by the server for the user
+ * IDs it hands out (see S_IDENTITY). Undo, redo and HTTP changes are attributed to
+ * the user a token proves, so nobody can act as someone else by sending their ID.
+ * Signed under a different prefix than access tokens, so one can't pass for the other.
+ */
+export function signUserToken(userId: string): string {
+    const payload = Buffer.from(userId).toString('base64url');
+    return `${payload}.${sign(`user.${payload}`)}`;
+}
+
+/**
+ * @returns The user ID the token proves, or null if it isn't genuine.
+ */
+export function verifyUserToken(token: unknown): string | null {
+    if (typeof token !== 'string') return null;
+
+    const [payload, signature, ...rest] = token.split('.');
+    if (!payload || !signature || rest.length > 0) return null;
+
+    const expected = Buffer.from(sign(`user.${payload}`));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+    return Buffer.from(payload, 'base64url').toString('utf8') || null;
+}
+
+function sign(payload: string): string {
+    return createHmac('sha256', SECRET).update(payload).digest('base64url');
+}
+
+function loadSecret(): Buffer {
+    if (process.env.AUTH_SECRET) {
+        return Buffer.from(process.env.AUTH_SECRET, 'utf8');
+    }
+    console.warn('AUTH_SECRET is not set; access tokens will stop working when the server restarts');
+    return randomBytes(32);
+}
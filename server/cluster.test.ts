@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { after, before, describe, it } from 'node:test';
+import { ClientMessageType, ServerMessage, ServerMessageType, Shape } from '../shared/types';
+import { ClusterNode, InProcessTransport } from './cluster';
+import { RoomRequests } from './room-owner';
+import { startNode } from './server';
+import { TestClient } from './test-client';
+
+/**
+ * Two nodes in this process, joined by an InProcessTransport: a room is served
+ * by its owner whichever node its clients are on, and they all see its
+ * operations in the same `seq` order.
+ *
+ * The nodes share the server's module-level state (see InProcessTransport), so
+ * this checks routing, broadcasts and ordering, not that nodes keep apart.
+ */
+
+const members = [{ id: 'a', url: '' }, { id: 'b', url: '' }];
+const urls = new Map<string, string>();
+let anyNode: ClusterNode<RoomRequests>; // For ownerOf; every node agrees
+const stops: (() => void)[] = [];
+
+before(async () => {
+    const transport = new InProcessTransport();
+    for (const { id } of members) {
+        const { node, io, server } = startNode({ id, port: 0, members, secret: null }, () => transport);
+        await new Promise<void>(resolve => server.once('listening', resolve));
+        urls.set(id, `http://localhost:${(server.address() as AddressInfo).port}`);
+        stops.push(() => io.close());
+        anyNode = node;
+    }
+});
+
+after(() => stops.forEach(stop => stop()));
+
+// ==========================================
+// Helpers
+// ==========================================
+
+// A room owned by `nodeId`
+function roomOwnedBy(nodeId: string): string {
+    for (let i = 0; ; i++) {
+        if (anyNode.ownerOf(`room-${i}`) === nodeId) return `room-${i}`;
+    }
+}
+
+function rect(id: string): Shape {
+    return { id, kind: 'rect', start: { x: 0, y: 0 }, end: { x: 10, y: 10 }, style: { stroke: '#000000', strokeWidth: 2, fill: null } };
+}
+
+// The committed operations a client has received, as "seq:id"
+function received(client: TestClient): string[] {
+    return client.messages.flatMap((msg: ServerMessage) => msg.type === ServerMessageType.BROADCAST_OPERATION
+        ? msg.operations.map(op => `${op.seq}:${op.id}`)
+        : []);
+}
+
+function receivedAll(client: TestClient, count: number): Promise<ServerMessage> {
+    return client.waitFor(() => received(client).length >= count, `${count} operations`);
+}
+
+// ==========================================
+// Tests
+// ==========================================
+
+describe('a room with clients on two nodes', () => {
+    it('orders their operations the same for everyone and converges', async () => {
+        const roomId = roomOwnedBy('b');
+        const local = await TestClient.join(urls.get('b')!, roomId);
+        const remote = await TestClient.join(urls.get('a')!, roomId); // Forwards to b
+
+        // Interleaved without waiting, so the owner orders them
+        const done = [receivedAll(local, 12), receivedAll(remote, 12)];
+        for (let i = 0; i < 5; i++) {
+            local.send({ type: ClientMessageType.ADD_SHAPE, shape: rect(`local-${i}`) });
+            remote.send({ type: ClientMessageType.ADD_SHAPE, shape: rect(`remote-${i}`) });
+        }
+        for (const [client, id] of [[local, 'local-stroke'], [remote, 'remote-stroke']] as const) {
+            client.send({ type: ClientMessageType.STROKE_START, id, color: '#000000', size: 4, brush: 'pen', startPoint: { x: 0, y: 0, p: 0.5, t: 0 } });
+            client.send({ type: ClientMessageType.STROKE_MOVE, id, points: [{ x: 5, y: 5, p: 0.5, t: 10 }, { x: 10, y: 0, p: 0.5, t: 20 }] });
+            client.send({ type: ClientMessageType.STROKE_END, id });
+        }
+        await Promise.all(done);
+
+        // Every operation reached both nodes' clients, in one strictly increasing seq order
+        const order = received(local);
+        assert.equal(order.length, 12);
+        assert.deepEqual(received(remote), order);
+        const seqs = order.map(entry => Number(entry.split(':')[0]));
+        assert.ok(seqs.every((seq, i) => i === 0 || seq > seqs[i - 1]));
+        assert.deepEqual(local.errors(), []);
+        assert.deepEqual(remote.errors(), []);
+
+        // Either node answers with the owner's board
+        const [fromOwner, fromOther] = await Promise.all(['b', 'a'].map(nodeId =>
+            fetch(`${urls.get(nodeId)}/rooms/${roomId}/export.json`).then(response => response.json())));
+        assert.equal(fromOwner.strokes.length, 12);
+        assert.deepEqual(fromOther, fromOwner);
+
+        local.close();
+        remote.close();
+    });
+});
@@ -0,0 +1,404 @@
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import http from 'http';
+import { Namespace, Server } from 'socket.io';
+import { Socket as PeerSocket, io as connectToPeer } from 'socket.io-client';
+import { ClusterAdapterWithHeartbeat, ClusterMessage, ClusterResponse } from 'socket.io-adapter';
+
+/**
+ * Running the server as several nodes.
+ *
+ * DESIGN:
+ * - Every room is owned by exactly one node, picked by rendezvous hashing over
+ *   the member list. Only the owner loads the room's DrawingState, buffers its
+ *   strokes in progress and tracks its presence, so sequence numbers are assigned
+ *   in one place, in order.
+ * - Any node accepts connections. It checks what it can on its own (validation,
+ *   roles, rate limits) and forwards the rest to the owner as requests.
+ * - The owner answers through Socket.io broadcasts. `TransportAdapter` carries
+ *   them to every node, which delivers them to its own sockets in the room.
+ * - Nodes talk through a `ClusterTransport`. Messages from one publisher arrive in
+ *   the order they were published, so per-room order survives the extra hop.
+ *   `SocketIoTransport` links the nodes (one per process) directly over Socket.io.
+ *
+ * CONSTRAINTS:
+ * - Membership is static (NODE_ID / CLUSTER_NODES). There is no failover: a
+ *   node's rooms are unavailable while it is down.
+ * - Nodes must share one storage backend (e.g. DATA_DIR on a shared volume),
+ *   because room metadata is read by whichever node a request arrives at.
+ */
+
+// ==========================================
+// Transport
+// ==========================================
+
+/**
+ * Publish/subscribe between nodes. `SocketIoTransport` connects nodes over the
+ * network; `InProcessTransport` connects nodes in one process (for tests).
+ * Another broker (Redis, NATS, ...) drops in here.
+ */
+export interface ClusterTransport {
+    /**
+     * Delivers a message to every subscriber of the channel (including the publisher's own).
+     * Messages from one publisher are delivered in publish order.
+     */
+    publish(channel: string, message: unknown): void;
+
+    /**
+     * @returns A function that cancels the subscription.
+     */
+    subscribe(channel: string, handler: (message: unknown) => void): () => void;
+}
+
+/**
+ * Delivers messages within the process: asynchronously and as copies, like a
+ * network would, but in a single FIFO, so ordering holds trivially. Only used to
+ * run several nodes in one process, e.g. in tests.
+ *
+ * CONSTRAINT: It can't model separate nodes. Those nodes share the server's
+ * module-level state (loaded rooms and metadata in rooms.ts, sessions and strokes
+ * in progress in room-owner.ts, per-room rate limits), so a node that wrongly
+ * read a room it doesn't own would go unnoticed.
+ */
+export class InProcessTransport implements ClusterTransport {
+    private channels = new Map<string, Set<(message: unknown) => void>>();
+
+    public publish(channel: string, message: unknown) {
+        const handlers = this.channels.get(channel);
+        if (!handlers) return;
+
+        for (const handler of handlers) {
+            // Each subscriber gets its own copy; nothing is shared between nodes
+            const copy = structuredClone(message);
+            queueMicrotask(() => handler(copy));
+        }
+    }
+
+    public subscribe(channel: string, handler: (message: unknown) => void): () => void {
+        let handlers = this.channels.get(channel);
+        if (!handlers) {
+            handlers = new Set();
+            this.channels.set(channel, handlers);
+        }
+        handlers.add(handler);
+        return () => handlers!.delete(handler);
+    }
+}
+
+// The path peers connect to, next to the clients' `/socket.io/`
+const PEER_PATH = '/cluster';
+
+/**
+ * Connects this node to every other member over Socket.io: it accepts their
+ * connections on `PEER_PATH` of its own HTTP server and keeps one connection to
+ * each of them.
+ *
+ * DESIGN:
+ * - A node sends everything it publishes over its own connection to each peer,
+ *   and receives what they publish over theirs. One connection per direction
+ *   keeps each publisher's messages in order.
+ * - Like pub/sub, a message for a peer that isn't connected is dropped rather
+ *   than queued: requests to it time out, and clients there resync on reconnect.
+ * - Peers authenticate with the shared `CLUSTER_SECRET`.
+ */
+export class SocketIoTransport implements ClusterTransport {
+    private local = new InProcessTransport();
+    private server: Server | null = null;
+    private peers: PeerSocket[] = [];
+
+    /**
+     * @param secret - Null for a single node, which then accepts no peers.
+     */
+    constructor(httpServer: http.Server, nodeId: string, peers: ClusterMember[], secret: string | null) {
+        if (secret === null) return;
+
+        this.server = new Server(httpServer, { path: PEER_PATH, transports: ['websocket'] });
+        this.server.use((socket, next) => {
+            next(isSecret(socket.handshake.auth?.secret, secret) ? undefined : new Error('Not a cluster member'));
+        });
+        this.server.on('connection', (socket) => {
+            socket.on('publish', (channel: unknown, message: unknown) => {
+                if (typeof channel === 'string') this.local.publish(channel, message);
+            });
+        });
+
+        this.peers = peers.map((peer) => {
+            const socket = connectToPeer(peer.url, { path: PEER_PATH, transports: ['websocket'], auth: { nodeId, secret } });
+            socket.on('connect', () => console.log(`Node ${nodeId} connected to ${peer.id} at ${peer.url}`));
+            socket.on('disconnect', (reason) => console.warn(`Node ${nodeId} lost ${peer.id}: ${reason}`));
+            return socket;
+        });
+    }
+
+    public publish(channel: string, message: unknown) {
+        this.local.publish(channel, message);
+        for (const peer of this.peers) {
+            if (peer.connected) peer.emit('publish', channel, message);
+        }
+    }
+
+    public subscribe(channel: string, handler: (message: unknown) => void): () => void {
+        return this.local.subscribe(channel, handler);
+    }
+
+    public close() {
+        this.peers.forEach(peer => peer.disconnect());
+        this.server?.disconnectSockets(true);
+    }
+}
+
+function isSecret(value: unknown, secret: string): boolean {
+    if (typeof value !== 'string') return false;
+    // Compare digests, which have the same length whatever was sent
+    const expected = createHash('sha256').update(secret).digest();
+    const actual = createHash('sha256').update(value).digest();
+    return timingSafeEqual(expected, actual);
+}
+
+// ==========================================
+// Socket.io Adapter
+// ==========================================
+
+/**
+ * Socket.io adapter that relays broadcasts (`io.to(room).emit`, `disconnectSockets`,
+ * `fetchSockets`, ...) between nodes over a ClusterTransport.
+ * Use as `new Server(server, { adapter: createTransportAdapter(transport) })`.
+ */
+export function createTransportAdapter(transport: ClusterTransport) {
+    return class TransportAdapter extends ClusterAdapterWithHeartbeat {
+        private unsubscribe: (() => void)[];
+
+        constructor(nsp: Namespace) {
+            super(nsp, {});
+            this.unsubscribe = [
+                transport.subscribe(this.channel(), (message) => this.onMessage(message as ClusterMessage)),
+                transport.subscribe(this.channel(this.uid), (response) => this.onResponse(response as ClusterResponse))
+            ];
+        }
+
+        public override close() {
+            super.close();
+            this.unsubscribe.forEach(unsubscribe => unsubscribe());
+        }
+
+        protected override async doPublish(message: ClusterMessage): Promise<string> {
+            transport.publish(this.channel(), message);
+            return ''; // No offsets: connection state recovery isn't used
+        }
+
+        protected override async doPublishResponse(requesterUid: string, response: ClusterResponse): Promise<void> {
+            transport.publish(this.channel(requesterUid), response);
+        }
+
+        private channel(uid?: string): string {
+            return uid ? `socket.io#${this.nsp.name}#${uid}` : `socket.io#${this.nsp.name}`;
+        }
+    };
+}
+
+// ==========================================
+// Ownership & Requests
+// ==========================================
+
+/**
+ * Requests a node can serve, as `{ method: { payload, result } }`.
+ */
+export type RequestMap = Record<string, { payload: unknown, result: unknown }>;
+
+type Handler<M extends RequestMap, K extends keyof M> = (payload: M[K]['payload']) => M[K]['result'] | Promise<M[K]['result']>;
+
+type Envelope =
+    | { kind: 'request'; id: string; from: string; method: string; payload: unknown }
+    | { kind: 'response'; id: string; ok: true; result: unknown }
+    | { kind: 'response'; id: string; ok: false; error: string };
+
+// A request to another node that gets no answer fails after this long
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/**
+ * One member of the cluster: knows which node owns each room and sends
+ * requests for a room to its owner.
+ */
+export class ClusterNode<M extends RequestMap> {
+    private handlers: { [K in keyof M]?: Handler<M, K> } = {};
+    private pending = new Map<string, { resolve: (result: unknown) => void, reject: (err: Error) => void, timer: NodeJS.Timeout }>();
+    private unsubscribe: () => void;
+
+    constructor(public readonly nodeId: string, private nodes: string[], private transport: ClusterTransport) {
+        if (!nodes.includes(nodeId)) {
+            throw new Error(`Node ${nodeId} is not in the cluster (${nodes.join(', ')})`);
+        }
+        this.unsubscribe = transport.subscribe(`node#${nodeId}`, (message) => this.receive(message as Envelope));
+    }
+
+    /**
+     * The node that owns a room: the highest hash of node ID and room ID
+     * (rendezvous hashing), so only the rooms of a node that joins or leaves move.
+     */
+    public ownerOf(roomId: string): string {
+        let owner = this.nodes[0];
+        let best = '';
+        for (const node of this.nodes) {
+            const score = createHash('sha1').update(`${node}\n${roomId}`).digest('hex');
+            if (score > best) {
+                best = score;
+                owner = node;
+            }
+        }
+        return owner;
+    }
+
+    public owns(roomId: string): boolean {
+        return this.ownerOf(roomId) === this.nodeId;
+    }
+
+    /**
+     * Serves a request method for the rooms this node owns.
+     */
+    public handle<K extends keyof M>(method: K, handler: Handler<M, K>) {
+        this.handlers[method] = handler;
+    }
+
+    /**
+     * Runs a request on the room's owner. A local owner runs it right away, in
+     * the caller's turn, exactly like a direct call; requests to another node
+     * arrive in the order they were made.
+     */
+    public request<K extends keyof M & string>(roomId: string, method: K, payload: M[K]['payload']): Promise<M[K]['result']> {
+        const owner = this.ownerOf(roomId);
+        if (owner === this.nodeId) {
+            try {
+                return Promise.resolve(this.getHandler(method)(payload));
+            } catch (err) {
+                return Promise.reject(err);
+            }
+        }
+
+        const id = randomUUID();
+        return new Promise<M[K]['result']>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.pending.delete(id);
+                reject(new Error(`Request ${method} to node ${owner} timed out`));
+            }, REQUEST_TIMEOUT_MS);
+
+            // Whatever the owner's handler returned for this method
+            this.pending.set(id, { resolve: (result) => resolve(result as M[K]['result']), reject, timer });
+            this.send(owner, { kind: 'request', id, from: this.nodeId, method, payload });
+        });
+    }
+
+    public close() {
+        this.unsubscribe();
+        for (const { reject, timer } of this.pending.values()) {
+            clearTimeout(timer);
+            reject(new Error('Cluster node closed'));
+        }
+        this.pending.clear();
+    }
+
+    private receive(envelope: Envelope) {
+        if (envelope.kind === 'response') {
+            const pending = this.pending.get(envelope.id);
+            if (!pending) return; // Timed out already
+            this.pending.delete(envelope.id);
+            clearTimeout(pending.timer);
+
+            if (envelope.ok) {
+                pending.resolve(envelope.result);
+            } else {
+                pending.reject(new Error(envelope.error));
+            }
+            return;
+        }
+
+        // Called in arrival order; the handler's synchronous part runs before the next request
+        const { id, from } = envelope;
+        let result: Promise<unknown>;
+        try {
+            // The sender typed the payload against the same RequestMap
+            const method: keyof M = envelope.method;
+            result = Promise.resolve(this.getHandler(method)(envelope.payload as M[typeof method]['payload']));
+        } catch (err) {
+            result = Promise.reject(err);
+        }
+
+        result.then(
+            (value) => this.send(from, { kind: 'response', id, ok: true, result: value ?? null }),
+            (err) => this.send(from, { kind: 'response', id, ok: false, error: err instanceof Error ? err.message : String(err) })
+        );
+    }
+
+    private getHandler<K extends keyof M>(method: K): Handler<M, K> {
+        const handler = this.handlers[method];
+        if (!handler) {
+            throw new Error(`Node ${this.nodeId} has no handler for ${String(method)}`);
+        }
+        return handler;
+    }
+
+    private send(nodeId: string, envelope: Envelope) {
+        this.transport.publish(`node#${nodeId}`, envelope);
+    }
+}
+
+// ==========================================
+// Configuration
+// ==========================================
+
+export interface ClusterMember {
+    id: string;
+    /** Where the other members reach it, e.g. `http://10.0.0.2:3000` */
+    url: string;
+}
+
+export interface ClusterNodeConfig {
+    /** The node this process runs */
+    id: string;
+    port: number;
+    /** Every member, this node included */
+    members: ClusterMember[];
+    /** Shared by the members; null for a single node */
+    secret: string | null;
+}
+
+/**
+ * This process's node from the environment:
+ * - `CLUSTER_NODES` unset: a single node (`NODE_ID`, default `node-1`) on `PORT`.
+ * - `CLUSTER_NODES=a=http://10.0.0.1:3000,b=http://10.0.0.2:3000`: every member
+ *   and its URL. `NODE_ID` picks the one this process runs, and `CLUSTER_SECRET`
+ *   and `AUTH_SECRET` must be set (the same on every member). It listens on `PORT`, or on the port
+ *   of its own URL.
+ */
+export function loadClusterConfig(env: NodeJS.ProcessEnv = process.env): ClusterNodeConfig {
+    if (!env.CLUSTER_NODES) {
+        const id = env.NODE_ID || 'node-1';
+        const port = Number(env.PORT) || 3000;
+        return { id, port, members: [{ id, url: `http://localhost:${port}` }], secret: null };
+    }
+
+    const members = env.CLUSTER_NODES.split(',').map((entry) => {
+        const [id, url] = entry.trim().split('=');
+        if (!id || !url || !URL.canParse(url)) {
+            throw new Error(`CLUSTER_NODES: expected id=url, got "${entry}"`);
+        }
+        return { id, url };
+    });
+
+    if (new Set(members.map(member => member.id)).size !== members.length) {
+        throw new Error('CLUSTER_NODES: node IDs must be unique');
+    }
+    const self = members.find(member => member.id === env.NODE_ID);
+    if (!self) {
+        throw new Error(`NODE_ID must be one of CLUSTER_NODES (${members.map(member => member.id).join(', ')})`);
+    }
+    if (!env.CLUSTER_SECRET) {
+        throw new Error('CLUSTER_SECRET must be set when CLUSTER_NODES is');
+    }
+    // Tokens signed by one node must verify on the others (see auth.ts)
+    if (!env.AUTH_SECRET) {
+        throw new Error('AUTH_SECRET must be set when CLUSTER_NODES is');
+    }
+
+    const url = new URL(self.url);
+    const port = Number(env.PORT) || Number(url.port) || (url.protocol === 'https:' ? 443 : 80);
+    return { id: self.id, port, members, secret: env.CLUSTER_SECRET };
+}
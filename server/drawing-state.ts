@@ -1,138 +1,615 @@
-import { ClientCanvasOperation, ServerCanvasOperation, Stroke } from '../shared/types';
+import { randomUUID } from 'crypto';
+import { CanvasObject, Checkpoint, CheckpointSummary, ClientCanvasOperation, Layer, ServerCanvasOperation, StrokeSnapshot } from '../shared/types';
+import { foldOperations } from '../shared/history';
+import { DEFAULT_LAYERS, foldLayers, getLayerId, getObjectLayer } from '../shared/layers';
+import { isShape } from '../shared/shapes';
+import { isTextBox } from '../shared/text';
+
+/**
+ * Records that an operation was removed from the log by an undo.
+ * Undo consumes a sequence number like any other change, so a client
+ * resuming from an older `seq` can learn which operations it must drop.
+ */
+export interface Tombstone {
+    operationId: string;
+    seq: number;
+}
+
+/**
+ * Everything needed to restore a DrawingState exactly.
+ * Persisted whenever the history is compacted.
+ */
+export interface SerializedDrawingState {
+    base: StrokeSnapshot;
+    operations: ServerCanvasOperation[];
+    redoStacks: Record<string, ServerCanvasOperation[]>;
+    tombstones: Tombstone[];
+    nextSeq: number;
+}
+
+/**
+ * A single mutation of the history, in the order it was applied.
+ * This is what the storage layer persists; replaying the events in order
+ * rebuilds the operation log, the redo stacks and the sequence counter.
+ *
+ * A SNAPSHOT event captures the whole state and supersedes every event before it.
+ * Checkpoints are not part of that state: storage keeps CHECKPOINT and
+ * DELETE_CHECKPOINT events apart from the log, so a SNAPSHOT neither carries
+ * nor discards them.
+ */
+export type HistoryEvent =
+    | { type: 'PUSH'; operation: ServerCanvasOperation }
+    | { type: 'UNDO'; operationIds: string[]; seq: number }
+    | { type: 'REDO'; operations: ServerCanvasOperation[] }
+    | { type: 'CHECKPOINT'; checkpoint: Checkpoint }
+    | { type: 'DELETE_CHECKPOINT'; checkpointId: string }
+    | { type: 'SNAPSHOT'; state: SerializedDrawingState };
+
+/**
+ * Controls how often the operation log is folded into the base snapshot.
+ */
+export interface CompactionOptions {
+    threshold: number; // Compact once the log holds this many operations
+    keep: number;      // Number of most recent operations to keep (they stay undoable)
+}
+
+const DEFAULT_COMPACTION: CompactionOptions = {
+    threshold: 1000,
+    keep: 200
+};
 
 /**
  * Manages the authoritative state of the drawing canvas.
- * 
+ *
  * RESPONSIBILITIES:
  * 1.  **Operation Log**: Maintains the strictly ordered history of all operations.
- * 2.  **Global Undo/Redo**: Manages the undo/redo stacks for the entire room.
- * 3.  **State Derivation**: Computes the current set of visible strokes by "folding" operations.
+ * 2.  **Per-Author Undo/Redo**: Each user can only undo/redo operations they created.
+ *     Operations sharing a `batchId` are undone and redone together, as one step.
+ * 3.  **State Derivation**: Computes the current set of visible strokes (and the layers)
+ *     by "folding" operations.
+ * 4.  **Compaction**: Folds old operations into a base snapshot so the log stays short.
+ * 5.  **Checkpoints**: Named copies of the board that can be restored later.
  */
 export class DrawingState {
-    // The authoritative history of operations that have been applied.
-    // MUST be ServerCanvasOperation (with sequence numbers).
+    // Folded state of every operation that has been compacted out of the log.
+    // Operations in the log are applied on top of it.
+    private base: StrokeSnapshot = { seq: 0, strokes: [] };
+
+    // The authoritative history of operations that have been applied (after `base`).
+    // MUST be ServerCanvasOperation (with sequence numbers), sorted by seq.
     private operations: ServerCanvasOperation[] = [];
 
-    // The stack of operations that have been undone and can be redone.
-    // Cleared whenever a new operation is pushed.
-    private redoStack: ServerCanvasOperation[] = [];
+    // Per-author stacks of operations that have been undone and can be redone.
+    // Key: authorId. An author's stack is cleared whenever that author pushes a new operation.
+    private redoStacks = new Map<string, ServerCanvasOperation[]>();
+
+    // Undos since the base snapshot, oldest first. Used for incremental sync.
+    private tombstones: Tombstone[] = [];
 
-    // Global sequence number to ensure strict ordering of operations.
-    // Essential for conflict resolution if we were to introduce peer-to-peer syncing later,
-    // but currently used to give clients a way to detect missing messages.
+    // Global sequence number to ensure strict ordering of changes.
+    // Also lets a reconnecting client ask for "everything after seq N".
     private nextSeq: number = 1;
 
+    // Named versions of the board, oldest first. They keep their objects, so
+    // compaction doesn't affect them, and they are persisted outside the snapshot.
+    private checkpoints: Checkpoint[] = [];
+
+    /**
+     * @param onEvent Optional listener notified after every mutation.
+     *                Used by the room registry to append events to durable storage.
+     * @param compaction When to fold old operations into the base snapshot.
+     */
+    constructor(
+        private onEvent?: (event: HistoryEvent) => void,
+        private compaction: CompactionOptions = DEFAULT_COMPACTION
+    ) {}
+
     /**
      * Adds a new operation to the history.
      * This is the "commit" action for any drawing or erasing.
-     * 
+     *
      * @param op The client draft operation (without sequence number).
+     * @param authorId The stable ID of the user who created the operation.
      * @returns The authoritative operation with the assigned sequence number.
      */
-    public pushOperation(op: ClientCanvasOperation): ServerCanvasOperation {
-        // 1. Assign authoritative sequence number
-        // We cast to any to spread the properties, then enforce the type return.
+    public pushOperation(op: ClientCanvasOperation, authorId: string): ServerCanvasOperation {
+        // 1. Assign authoritative sequence number and author
         // This effectively "upgrades" the Client op to a Server op.
         const sequencedOp: ServerCanvasOperation = {
             ...op,
+            authorId,
             seq: this.nextSeq++
         };
 
         // 2. Commit to history
         this.operations.push(sequencedOp);
 
-        // 3. Clear redo stack
-        // Any new action invalidates the "future" timeline.
-        if (this.redoStack.length > 0) {
-            this.redoStack = [];
-        }
+        // 3. Clear the author's redo stack
+        // A new action invalidates that author's "future" timeline.
+        // Other users' redo stacks are unaffected.
+        this.redoStacks.delete(authorId);
+
+        this.onEvent?.({ type: 'PUSH', operation: sequencedOp });
+        this.compactIfNeeded();
 
         return sequencedOp;
     }
 
     /**
-     * Undoes the last operation in the global history.
-     * 
-     * @returns The full undone operation, or null if nothing to undo.
+     * Undoes the author's most recent operation that is still in the history,
+     * together with the rest of its batch (if it belongs to one).
+     * Operations by other users (even later ones) are skipped, not blocked on.
+     *
+     * NOTE: Operations already folded into the base snapshot can no longer be undone.
+     *
+     * @returns The full undone operations (in log order) and the sequence number of
+     *          the undo itself, or null if the author has nothing to undo.
      */
-    public undo(): ServerCanvasOperation | null {
-        if (this.operations.length === 0) {
+    public undo(authorId: string): { operations: ServerCanvasOperation[], seq: number } | null {
+        const undone = this.getUndoStep(authorId);
+        if (undone.length === 0) {
             return null;
         }
 
-        // 1. Pop the last operation
-        const op = this.operations.pop()!;
+        // 1. Remove the operation (or its whole batch) from wherever it sits in the log
+        const undoneIds = new Set(undone.map(op => op.id));
+        this.operations = this.operations.filter(op => !undoneIds.has(op.id));
+
+        // 2. Push to the author's redo stack (last operation on top)
+        this.getRedoStack(authorId).push(...undone);
 
-        // 2. Push to redo stack
-        this.redoStack.push(op);
+        // 3. Sequence the undo so resuming clients can catch up on it.
+        // The whole batch shares one seq.
+        const seq = this.nextSeq++;
+        for (const op of undone) {
+            this.tombstones.push({ operationId: op.id, seq });
+        }
+
+        this.onEvent?.({ type: 'UNDO', operationIds: undone.map(op => op.id), seq });
 
-        // Return full op so clients can remove it locally
-        return op;
+        // Return full ops so clients can remove them locally
+        return { operations: undone, seq };
     }
 
     /**
-     * Redoes the last undone operation.
-     * 
-     * CRITICAL: We assign a NEW sequence number.
+     * Redoes the author's last undone operation (or batch).
+     *
+     * CRITICAL: We assign NEW sequence numbers.
      * A redo is a *new event* in the timeline, not a time-travel back to the old event.
      * This ensures clients always process operations in increasing sequence order.
-     * 
-     * @returns The operation that was redone (with new seq), or null if nothing to redo.
+     *
+     * @returns The operations that were redone (with new seqs), or null if nothing to redo.
      */
-    public redo(): ServerCanvasOperation | null {
-        if (this.redoStack.length === 0) {
+    public redo(authorId: string): ServerCanvasOperation[] | null {
+        const step = this.getRedoStep(authorId);
+        if (step.length === 0) {
             return null;
         }
 
-        // 1. Pop from redo stack
-        const op = this.redoStack.pop()!;
+        // 1. Pop from the author's redo stack, taking the rest of the batch with it
+        const stack = this.getRedoStack(authorId);
+        stack.splice(stack.length - step.length);
 
-        // 2. Assign NEW sequence number
-        const resequencedOp: ServerCanvasOperation = {
+        // 2. Assign NEW sequence numbers, in the original order
+        const redone = step.map((op): ServerCanvasOperation => ({
             ...op,
             seq: this.nextSeq++
-        };
+        }));
+
+        // 3. Push back to history (on top, since it is a new event)
+        this.operations.push(...redone);
+
+        this.onEvent?.({ type: 'REDO', operations: redone });
+        this.compactIfNeeded();
 
-        // 3. Push back to history
-        this.operations.push(resequencedOp);
+        return redone;
+    }
+
+    /**
+     * The operations `undo(authorId)` would take back (the author's last operation,
+     * or its whole batch), in log order, without undoing them.
+     */
+    public getUndoStep(authorId: string): ServerCanvasOperation[] {
+        const index = this.findLastIndexByAuthor(authorId);
+        if (index === -1) {
+            return [];
+        }
 
-        return resequencedOp;
+        const { batchId } = this.operations[index];
+        return this.operations.filter((op, i) => batchId !== undefined
+            ? op.batchId === batchId && op.authorId === authorId
+            : i === index);
+    }
+
+    /**
+     * The operations `redo(authorId)` would bring back, in their original order,
+     * without redoing them.
+     */
+    public getRedoStep(authorId: string): ServerCanvasOperation[] {
+        const stack = this.redoStacks.get(authorId) ?? [];
+        let start = stack.length - 1;
+        const batchId = stack[start]?.batchId;
+        while (batchId !== undefined && start > 0 && stack[start - 1].batchId === batchId) {
+            start--;
+        }
+        return stack.slice(Math.max(start, 0));
     }
 
     /**
-     * Returns the full operation history.
-     * Used for syncing new clients.
+     * Re-applies a previously recorded event without notifying the listener.
+     * Used to rehydrate a room from storage.
+     *
+     * Events carry their original sequence numbers, so `nextSeq` simply
+     * continues after the highest one seen.
+     */
+    public replay(event: HistoryEvent) {
+        switch (event.type) {
+            case 'PUSH':
+                this.operations.push(event.operation);
+                this.redoStacks.delete(event.operation.authorId);
+                this.nextSeq = Math.max(this.nextSeq, event.operation.seq + 1);
+                break;
+
+            case 'UNDO': {
+                for (const operationId of event.operationIds) {
+                    const index = this.operations.findIndex(op => op.id === operationId);
+                    if (index !== -1) {
+                        const [op] = this.operations.splice(index, 1);
+                        this.getRedoStack(op.authorId).push(op);
+                    }
+                    this.tombstones.push({ operationId, seq: event.seq });
+                }
+                this.nextSeq = Math.max(this.nextSeq, event.seq + 1);
+                break;
+            }
+
+            case 'REDO': {
+                for (const operation of event.operations) {
+                    const stack = this.getRedoStack(operation.authorId);
+                    const index = stack.findIndex(op => op.id === operation.id);
+                    if (index !== -1) {
+                        stack.splice(index, 1);
+                    }
+                    this.operations.push(operation);
+                    this.nextSeq = Math.max(this.nextSeq, operation.seq + 1);
+                }
+                break;
+            }
+
+            case 'CHECKPOINT':
+                this.checkpoints.push(event.checkpoint);
+                break;
+
+            case 'DELETE_CHECKPOINT':
+                this.checkpoints = this.checkpoints.filter(checkpoint => checkpoint.id !== event.checkpointId);
+                break;
+
+            case 'SNAPSHOT':
+                this.restore(event.state);
+                break;
+        }
+    }
+
+    /**
+     * Returns the operation log after the base snapshot.
+     * Used for syncing new clients (together with `getBaseSnapshot`).
      */
     public getSnapshot(): ServerCanvasOperation[] {
         return [...this.operations];
     }
 
     /**
-     * Derives the current visual state of the canvas by replaying history.
-     * This is "folding" the operation log into a state.
-     * 
-     * @returns An array of currently visible strokes.
+     * Returns the folded state that the operation log is applied on top of.
+     */
+    public getBaseSnapshot(): StrokeSnapshot {
+        return { seq: this.base.seq, strokes: [...this.base.strokes], layers: [...this.getBaseLayers()] };
+    }
+
+    /**
+     * The sequence number of the latest change (0 if the room is empty).
+     */
+    public getHeadSeq(): number {
+        return this.nextSeq - 1;
+    }
+
+    /**
+     * How much history the room holds: objects folded into the base snapshot plus
+     * operations in the log (roughly what a full sync sends).
+     */
+    public getHistorySize(): number {
+        return this.base.strokes.length + this.operations.length;
+    }
+
+    /**
+     * Computes what a client that has applied everything up to `seq` is missing.
+     *
+     * @returns Operations committed after `seq` and IDs of operations undone after `seq`,
+     *          or null if that part of the history has been compacted away (or `seq`
+     *          is from the future, e.g. the room was reset) and a full sync is needed.
+     */
+    public getChangesSince(seq: number): { operations: ServerCanvasOperation[], removedOperationIds: string[] } | null {
+        if (seq < this.base.seq || seq > this.getHeadSeq()) {
+            return null;
+        }
+
+        return {
+            operations: this.operations.filter(op => op.seq > seq),
+            removedOperationIds: this.tombstones
+                .filter(tombstone => tombstone.seq > seq)
+                .map(tombstone => tombstone.operationId)
+        };
+    }
+
+    /**
+     * Whether a stroke (or shape, or text box) with this ID has already been committed and is still known
+     * to the history (in the log, waiting on a redo stack, or folded into the base snapshot).
+     * Used to make commits idempotent when a reconnecting client re-sends.
+     */
+    public hasStroke(strokeId: string): boolean {
+        const isAdd = (op: ServerCanvasOperation) =>
+            (op.type === 'ADD_STROKE' && op.stroke.id === strokeId) ||
+            (op.type === 'ADD_SHAPE' && op.shape.id === strokeId) ||
+            (op.type === 'ADD_TEXT' && op.text.id === strokeId);
+
+        if (this.operations.some(isAdd)) return true;
+        for (const stack of this.redoStacks.values()) {
+            if (stack.some(isAdd)) return true;
+        }
+        return this.base.strokes.some(stroke => stroke.id === strokeId);
+    }
+
+    /**
+     * Derives the current visual state of the canvas.
+     * This is "folding" the operation log on top of the base snapshot.
+     *
+     * @returns An array of currently visible objects (strokes, shapes and text), in z-order.
+     */
+    public computeVisibleStrokes(): CanvasObject[] {
+        return Array.from(foldOperations(this.base.strokes, this.operations).values());
+    }
+
+    /**
+     * The visible objects as they would be with the given operations taken out of
+     * the log and `added` applied on top: what an undo or redo step would leave.
+     */
+    public previewVisibleStrokes(removed: ServerCanvasOperation[], added: ServerCanvasOperation[] = []): Map<string, CanvasObject> {
+        const removedIds = new Set(removed.map(op => op.id));
+        const operations = this.operations.filter(op => !removedIds.has(op.id));
+        return foldOperations(this.base.strokes, [...operations, ...added]);
+    }
+
+    /**
+     * Derives the current layers, bottom first (see shared/layers.ts).
+     */
+    public computeLayers(): Layer[] {
+        return [...foldLayers(this.getBaseLayers(), this.operations)];
+    }
+
+    // Snapshots from before layers have none: just the default layer
+    private getBaseLayers(): ReadonlyArray<Layer> {
+        return this.base.layers ?? DEFAULT_LAYERS;
+    }
+
+    // ==========================================
+    // Checkpoints
+    // ==========================================
+
+    /**
+     * Saves the board as it is now (at the latest seq) under a name.
+     */
+    public saveCheckpoint(name: string, authorId: string): Checkpoint {
+        const checkpoint: Checkpoint = {
+            id: randomUUID(),
+            name,
+            seq: this.getHeadSeq(),
+            createdAt: Date.now(),
+            authorId,
+            objects: this.computeVisibleStrokes(),
+            layers: this.computeLayers()
+        };
+        this.checkpoints.push(checkpoint);
+
+        this.onEvent?.({ type: 'CHECKPOINT', checkpoint });
+        return checkpoint;
+    }
+
+    /**
+     * @returns False if there is no such checkpoint.
      */
-    public computeVisibleStrokes(): Stroke[] {
-        const visibleStrokes = new Map<string, Stroke>();
+    public deleteCheckpoint(checkpointId: string): boolean {
+        const count = this.checkpoints.length;
+        this.checkpoints = this.checkpoints.filter(checkpoint => checkpoint.id !== checkpointId);
+        if (this.checkpoints.length === count) return false;
 
-        for (const op of this.operations) {
-            switch (op.type) {
-                case 'ADD_STROKE':
-                    // Add the stroke to the map.
-                    // If ID exists (shouldn't happen in normal flow), it overwrites.
-                    visibleStrokes.set(op.stroke.id, op.stroke);
-                    break;
+        this.onEvent?.({ type: 'DELETE_CHECKPOINT', checkpointId });
+        return true;
+    }
+
+    /**
+     * The checkpoints without their objects, oldest first.
+     */
+    public getCheckpoints(): CheckpointSummary[] {
+        return this.checkpoints.map(({ objects: _objects, ...summary }) => summary);
+    }
+
+    public getCheckpoint(checkpointId: string): Checkpoint | undefined {
+        return this.checkpoints.find(checkpoint => checkpoint.id === checkpointId);
+    }
+
+    /**
+     * The operations that turn the current board back into a checkpoint's, as one
+     * batch for the caller to commit with `pushOperation` (so a single undo reverts
+     * the restore).
+     *
+     * Objects that are unchanged and still stacked in the same order stay put.
+     * Those form a prefix of the checkpoint's z-order; everything else is removed,
+     * and the rest of the checkpoint is added back on top, with its original IDs.
+     * Layers those objects were on that no longer exist are added back first; the
+     * settings and order of existing layers are left as they are.
+     *
+     * Objects on a locked layer, now or in the checkpoint, are left as they are:
+     * neither removed nor added back. Layers are drawn in their own order, so
+     * skipping them doesn't disturb the stacking of the others.
+     *
+     * @returns The operations (none if the board already matches), or null if there
+     *          is no such checkpoint.
+     */
+    public getRestoreOperations(checkpointId: string): ClientCanvasOperation[] | null {
+        const checkpoint = this.getCheckpoint(checkpointId);
+        if (!checkpoint) return null;
 
-                case 'REMOVE_STROKE':
-                    // Remove the stroke from the map.
-                    // EDGE CASE: If we try to remove a stroke that doesn't exist 
-                    // (e.g. it was already undone), this is a no-op.
-                    visibleStrokes.delete(op.strokeId);
-                    break;
+        const current = this.computeVisibleStrokes();
+        const positions = new Map(current.map((object, i) => [object.id, i]));
+
+        // Left alone: objects on a locked layer now, and those the checkpoint has on one.
+        // A checkpoint object whose layer is gone comes back with it, unlocked.
+        const layers = this.computeLayers();
+        const kept = new Set([
+            ...current.filter(object => getObjectLayer(object, layers).locked),
+            ...checkpoint.objects.filter(object => layers.some(layer => layer.id === getLayerId(object) && layer.locked))
+        ].map(object => object.id));
+
+        let lastPosition = -1;
+        for (const object of checkpoint.objects) {
+            if (kept.has(object.id)) continue; // Locked
+            const position = positions.get(object.id);
+            // Compared as JSON: a false mismatch only re-adds an object that didn't need it
+            if (position === undefined || position < lastPosition ||
+                JSON.stringify(current[position]) !== JSON.stringify(object)) {
+                break;
+            }
+            kept.add(object.id);
+            lastPosition = position;
+        }
+
+        const batchId = randomUUID();
+        const operations: ClientCanvasOperation[] = [];
+
+        const layerIds = new Set(layers.map(layer => layer.id));
+        for (const layer of checkpoint.layers ?? []) {
+            const used = checkpoint.objects.some(object => getLayerId(object) === layer.id);
+            if (used && !layerIds.has(layer.id)) {
+                operations.push({ id: randomUUID(), type: 'ADD_LAYER', layer, batchId });
             }
         }
 
-        return Array.from(visibleStrokes.values());
+        for (const object of current) {
+            if (!kept.has(object.id)) {
+                operations.push({ id: randomUUID(), type: 'REMOVE_STROKE', strokeId: object.id, batchId });
+            }
+        }
+        for (const object of checkpoint.objects) {
+            if (!kept.has(object.id)) {
+                operations.push(createAddOperation(object, batchId));
+            }
+        }
+        return operations;
+    }
+
+    /**
+     * Empties the board and drops its history, layers and checkpoints: nothing is left to undo, redo or restore.
+     * Clearing takes a sequence number, so any client that saw the old board
+     * resumes with a full sync.
+     */
+    public clear() {
+        this.base = { seq: this.nextSeq++, strokes: [], layers: [...DEFAULT_LAYERS] };
+        this.operations = [];
+        this.redoStacks.clear();
+        this.tombstones = [];
+
+        // The snapshot doesn't replace stored checkpoints; forget them one by one
+        for (const checkpoint of this.checkpoints) {
+            this.onEvent?.({ type: 'DELETE_CHECKPOINT', checkpointId: checkpoint.id });
+        }
+        this.checkpoints = [];
+
+        this.onEvent?.({ type: 'SNAPSHOT', state: this.serialize() });
+    }
+
+    /**
+     * Folds the oldest operations into the base snapshot once the log
+     * grows past the threshold, keeping the most recent ones undoable.
+     */
+    private compactIfNeeded() {
+        if (this.operations.length < this.compaction.threshold) {
+            return;
+        }
+
+        let cutoff = this.operations.length - this.compaction.keep;
+
+        // Never split a batch: it must stay undoable as a whole
+        while (cutoff > 0 && cutoff < this.operations.length && this.operations[cutoff].batchId !== undefined &&
+            this.operations[cutoff - 1].batchId === this.operations[cutoff].batchId) {
+            cutoff--;
+        }
+
+        if (cutoff <= 0) {
+            return; // Misconfigured (keep >= threshold), or one batch fills the log; nothing to fold
+        }
+        const folded = this.operations.slice(0, cutoff);
+        this.operations = this.operations.slice(cutoff);
+
+        this.base = {
+            seq: folded[folded.length - 1].seq,
+            strokes: Array.from(foldOperations(this.base.strokes, folded).values()),
+            layers: [...foldLayers(this.getBaseLayers(), folded)]
+        };
+
+        // Clients older than the base get a full sync, so older tombstones are useless
+        this.tombstones = this.tombstones.filter(tombstone => tombstone.seq > this.base.seq);
+
+        this.onEvent?.({ type: 'SNAPSHOT', state: this.serialize() });
+    }
+
+    private serialize(): SerializedDrawingState {
+        const redoStacks: Record<string, ServerCanvasOperation[]> = {};
+        for (const [authorId, stack] of this.redoStacks) {
+            redoStacks[authorId] = [...stack];
+        }
+
+        return {
+            base: this.getBaseSnapshot(),
+            operations: [...this.operations],
+            redoStacks,
+            tombstones: [...this.tombstones],
+            nextSeq: this.nextSeq
+        };
+    }
+
+    private restore(state: SerializedDrawingState) {
+        this.base = state.base;
+        this.operations = [...state.operations];
+        this.redoStacks = new Map(Object.entries(state.redoStacks));
+        this.tombstones = [...state.tombstones];
+        this.nextSeq = state.nextSeq;
+    }
+
+    private findLastIndexByAuthor(authorId: string): number {
+        for (let i = this.operations.length - 1; i >= 0; i--) {
+            if (this.operations[i].authorId === authorId) {
+                return i;
+            }
+        }
+        return -1;
+    }
+
+    private getRedoStack(authorId: string): ServerCanvasOperation[] {
+        let stack = this.redoStacks.get(authorId);
+        if (!stack) {
+            stack = [];
+            this.redoStacks.set(authorId, stack);
+        }
+        return stack;
+    }
+}
+
+// The operation that puts an object back on the board, as it was
+function createAddOperation(object: CanvasObject, batchId: string): ClientCanvasOperation {
+    if (isShape(object)) {
+        return { id: randomUUID(), type: 'ADD_SHAPE', shape: object, batchId };
+    }
+    if (isTextBox(object)) {
+        return { id: randomUUID(), type: 'ADD_TEXT', text: object, batchId };
     }
+    return { id: randomUUID(), type: 'ADD_STROKE', stroke: object, batchId };
 }
@@ -0,0 +1,27 @@
+// Process-wide counters, reported by GET /metrics.
+// Each counter is broken down by a label (a message type, an error code, ...).
+// They live in memory only and reset when the server restarts.
+const counters = new Map<string, Map<string, number>>();
+
+/**
+ * Adds `by` to a counter, e.g. increment('rateLimited', 'C_CURSOR_MOVE').
+ */
+export function increment(name: string, label: string = 'total', by: number = 1) {
+    let labels = counters.get(name);
+    if (!labels) {
+        labels = new Map();
+        counters.set(name, labels);
+    }
+    labels.set(label, (labels.get(label) ?? 0) + by);
+}
+
+/**
+ * Every counter, as `{ name: { label: count } }`.
+ */
+export function getCounters(): Record<string, Record<string, number>> {
+    const result: Record<string, Record<string, number>> = {};
+    for (const [name, labels] of counters) {
+        result[name] = Object.fromEntries(labels);
+    }
+    return result;
+}
@@ -0,0 +1,106 @@
+import { UserProfile } from '../shared/types';
+
+// Distinct, readable-on-white colors. Users are spread over them by ID.
+const PALETTE = [
+    '#e6194b', '#3cb44b', '#4363d8', '#f58231', '#911eb4', '#46b5b5',
+    '#f032e6', '#7a9a01', '#c0392b', '#008080', '#9a6324', '#000075'
+];
+
+const MAX_NAME_LENGTH = 32;
+
+// A user can be connected more than once (e.g. two tabs); they stay in the
+// roster until their last connection closes.
+interface Member {
+    profile: UserProfile;
+    sockets: Set<string>;
+}
+
+// Map of roomId -> userId -> Member
+// Presence is ephemeral: it lives in memory only and is never persisted.
+const rooms = new Map<string, Map<string, Member>>();
+
+/**
+ * Adds a connection to a room's roster.
+ *
+ * @returns The user's profile, and whether they were not in the room before
+ *          (i.e. others should be told that they joined).
+ */
+export function joinRoom(roomId: string, userId: string, socketId: string, name: unknown): { user: UserProfile, isNew: boolean } {
+    let members = rooms.get(roomId);
+    if (!members) {
+        members = new Map();
+        rooms.set(roomId, members);
+    }
+
+    const existing = members.get(userId);
+    if (existing) {
+        existing.sockets.add(socketId);
+        // The latest connection's name wins
+        existing.profile = { ...existing.profile, name: sanitizeName(name, userId) };
+        return { user: existing.profile, isNew: false };
+    }
+
+    const profile: UserProfile = {
+        userId,
+        name: sanitizeName(name, userId),
+        color: colorForUser(userId)
+    };
+    members.set(userId, { profile, sockets: new Set([socketId]) });
+    return { user: profile, isNew: true };
+}
+
+/**
+ * Removes a connection from a room's roster.
+ *
+ * @returns True if it was the user's last connection (i.e. they left the room).
+ */
+export function leaveRoom(roomId: string, userId: string, socketId: string): boolean {
+    const members = rooms.get(roomId);
+    const member = members?.get(userId);
+    if (!members || !member) return false;
+
+    member.sockets.delete(socketId);
+    if (member.sockets.size > 0) return false;
+
+    members.delete(userId);
+    if (members.size === 0) {
+        rooms.delete(roomId);
+    }
+    return true;
+}
+
+/**
+ * Renames a user in a room.
+ * @returns The updated profile, or null if the user is not in the room.
+ */
+export function updateProfile(roomId: string, userId: string, name: unknown): UserProfile | null {
+    const member = rooms.get(roomId)?.get(userId);
+    if (!member) return null;
+
+    member.profile = { ...member.profile, name: sanitizeName(name, userId) };
+    return member.profile;
+}
+
+export function getRoster(roomId: string): UserProfile[] {
+    return Array.from(rooms.get(roomId)?.values() ?? [], member => member.profile);
+}
+
+/**
+ * The color for a user ID. Deterministic, so a user keeps their color
+ * across reconnects (and server restarts) without storing anything.
+ */
+export function colorForUser(userId: string): string {
+    // FNV-1a
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < userId.length; i++) {
+        hash ^= userId.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return PALETTE[(hash >>> 0) % PALETTE.length];
+}
+
+// Names come from clients: trim, cap the length, and never allow an empty name
+function sanitizeName(name: unknown, userId: string): string {
+    const trimmed = typeof name === 'string' ? name.trim().slice(0, MAX_NAME_LENGTH) : '';
+    return trimmed || `Guest ${userId.slice(0, 4)}`;
+}
@@ -0,0 +1,190 @@
+import { ClientMessageType } from '../shared/types';
+
+/**
+ * A token bucket: holds up to `burst` tokens and refills at `rate` tokens per
+ * second. Each message takes one token; a message that finds the bucket empty
+ * is refused.
+ */
+export interface BucketLimit {
+    rate: number;  // Tokens per second
+    burst: number; // Capacity
+}
+
+export interface MessageLimit {
+    socket: BucketLimit; // Per connection
+    room: BucketLimit;   // Shared by every connection in a room (caps what the room's broadcasts cost)
+}
+
+export interface AbuseLimits {
+    messages: Record<ClientMessageType, MessageLimit>;
+    strikes: BucketLimit;              // Refused or invalid messages a connection may send before it is disconnected
+    maxActiveStrokesPerSocket: number; // Strokes started and not yet ended
+    maxRoomSize: number;               // Connections per room
+    maxRoomHistory: number;            // Objects in the base snapshot + operations in the log
+    maxCheckpoints: number;            // Saved versions per room
+}
+
+// Bursts are sized for the flush after a reconnect, when everything drawn
+// offline is sent at once (see SocketClient.resume).
+const bucket = (rate: number, burst: number): BucketLimit => ({ rate, burst });
+const DEFAULT_MESSAGE_LIMITS: Record<ClientMessageType, MessageLimit> = {
+    [ClientMessageType.STROKE_START]: { socket: bucket(20, 200), room: bucket(100, 1000) },
+    [ClientMessageType.STROKE_MOVE]: { socket: bucket(300, 2000), room: bucket(1500, 10000) },
+    [ClientMessageType.STROKE_END]: { socket: bucket(20, 200), room: bucket(100, 1000) },
+    [ClientMessageType.UNDO]: { socket: bucket(20, 40), room: bucket(100, 200) },
+    [ClientMessageType.REDO]: { socket: bucket(20, 40), room: bucket(100, 200) },
+    [ClientMessageType.CURSOR_MOVE]: { socket: bucket(120, 240), room: bucket(600, 1200) },
+    [ClientMessageType.ERASE]: { socket: bucket(120, 400), room: bucket(600, 2000) },
+    [ClientMessageType.UPDATE_PROFILE]: { socket: bucket(1, 5), room: bucket(10, 20) },
+    [ClientMessageType.ADD_SHAPE]: { socket: bucket(10, 100), room: bucket(100, 500) },
+    [ClientMessageType.ADD_TEXT]: { socket: bucket(10, 100), room: bucket(100, 500) },
+    [ClientMessageType.UPDATE_TEXT]: { socket: bucket(10, 100), room: bucket(100, 500) },
+    [ClientMessageType.TRANSFORM]: { socket: bucket(10, 100), room: bucket(100, 500) },
+    [ClientMessageType.ADD_LAYER]: { socket: bucket(2, 20), room: bucket(10, 50) },
+    [ClientMessageType.UPDATE_LAYER]: { socket: bucket(10, 50), room: bucket(50, 200) },
+    [ClientMessageType.MOVE_LAYER]: { socket: bucket(10, 50), room: bucket(50, 200) },
+    [ClientMessageType.MOVE_TO_LAYER]: { socket: bucket(10, 100), room: bucket(100, 500) }
+};
+
+/**
+ * Limits from the environment:
+ * - `RATE_LIMITS`: JSON overrides per message type, e.g.
+ *   `{"C_CURSOR_MOVE": {"socket": {"rate": 30, "burst": 60}}}`
+ * - `RATE_LIMIT_STRIKES` (default 50, refilled at one per second)
+ * - `MAX_ACTIVE_STROKES` (default 8), `MAX_ROOM_SIZE` (default 50),
+ *   `MAX_ROOM_HISTORY` (default 50000), `MAX_CHECKPOINTS` (default 50)
+ */
+export function loadLimits(env: NodeJS.ProcessEnv = process.env): AbuseLimits {
+    const messages = { ...DEFAULT_MESSAGE_LIMITS };
+
+    if (env.RATE_LIMITS) {
+        let overrides: unknown;
+        try {
+            overrides = JSON.parse(env.RATE_LIMITS);
+        } catch {
+            throw new Error('RATE_LIMITS is not valid JSON');
+        }
+        if (typeof overrides !== 'object' || overrides === null) {
+            throw new Error('RATE_LIMITS must be an object keyed by message type');
+        }
+
+        for (const [type, override] of Object.entries(overrides)) {
+            const current = messages[type as ClientMessageType];
+            if (!current) {
+                throw new Error(`RATE_LIMITS: unknown message type ${type}`);
+            }
+            messages[type as ClientMessageType] = {
+                socket: parseBucket(override?.socket, current.socket, `${type}.socket`),
+                room: parseBucket(override?.room, current.room, `${type}.room`)
+            };
+        }
+    }
+
+    return {
+        messages,
+        strikes: bucket(1, readInt(env, 'RATE_LIMIT_STRIKES', 50)),
+        maxActiveStrokesPerSocket: readInt(env, 'MAX_ACTIVE_STROKES', 8),
+        maxRoomSize: readInt(env, 'MAX_ROOM_SIZE', 50),
+        maxRoomHistory: readInt(env, 'MAX_ROOM_HISTORY', 50000),
+        maxCheckpoints: readInt(env, 'MAX_CHECKPOINTS', 50)
+    };
+}
+
+export const LIMITS: AbuseLimits = loadLimits();
+
+// Map of roomId -> message type -> bucket shared by the room's connections
+const roomBuckets = new Map<string, Map<ClientMessageType, TokenBucket>>();
+
+/**
+ * Rate limiting for one connection.
+ *
+ * Every message takes a token from the connection's bucket for its type and
+ * from the room's. Refusals by the connection's own bucket (and invalid
+ * messages) count as strikes; running out of strikes gets the connection
+ * disconnected. A busy room refuses messages without blaming anyone.
+ */
+export class MessageThrottle {
+    private buckets = new Map<ClientMessageType, TokenBucket>();
+    private strikes = new TokenBucket(LIMITS.strikes);
+
+    constructor(private roomId: string) {}
+
+    /**
+     * Takes a token for a message of this type.
+     * @returns Which limit refused the message, or null if it may go through.
+     */
+    public take(type: ClientMessageType, now: number = Date.now()): 'socket' | 'room' | null {
+        if (!getBucket(this.buckets, type, LIMITS.messages[type].socket).take(now)) {
+            return 'socket';
+        }
+
+        let room = roomBuckets.get(this.roomId);
+        if (!room) {
+            room = new Map();
+            roomBuckets.set(this.roomId, room);
+        }
+        if (!getBucket(room, type, LIMITS.messages[type].room).take(now)) {
+            return 'room';
+        }
+        return null;
+    }
+
+    /**
+     * Records a refused or invalid message.
+     * @returns True once the connection has used up its strikes.
+     */
+    public strike(now: number = Date.now()): boolean {
+        return !this.strikes.take(now);
+    }
+}
+
+/**
+ * Forgets a room's buckets (call when its last connection closes).
+ */
+export function releaseRoom(roomId: string) {
+    roomBuckets.delete(roomId);
+}
+
+class TokenBucket {
+    private tokens: number;
+    private updated = Date.now();
+
+    constructor(private limit: BucketLimit) {
+        this.tokens = limit.burst;
+    }
+
+    public take(now: number): boolean {
+        const elapsed = Math.max(0, now - this.updated) / 1000;
+        this.tokens = Math.min(this.limit.burst, this.tokens + elapsed * this.limit.rate);
+        this.updated = now;
+
+        if (this.tokens < 1) return false;
+        this.tokens -= 1;
+        return true;
+    }
+}
+
+function getBucket(buckets: Map<ClientMessageType, TokenBucket>, type: ClientMessageType, limit: BucketLimit): TokenBucket {
+    let bucket = buckets.get(type);
+    if (!bucket) {
+        bucket = new TokenBucket(limit);
+        buckets.set(type, bucket);
+    }
+    return bucket;
+}
+
+function parseBucket(raw: unknown, fallback: BucketLimit, where: string): BucketLimit {
+    if (raw === undefined) return fallback;
+
+    const { rate, burst } = (raw ?? {}) as Partial<Record<keyof BucketLimit, unknown>>;
+    const limit = { rate: rate ?? fallback.rate, burst: burst ?? fallback.burst };
+    if (typeof limit.rate !== 'number' || !(limit.rate >= 0) || typeof limit.burst !== 'number' || !(limit.burst >= 1)) {
+        throw new Error(`RATE_LIMITS: ${where} needs a non-negative rate and a burst of at least 1`);
+    }
+    return limit as BucketLimit;
+}
+
+function readInt(env: NodeJS.ProcessEnv, name: string, fallback: number): number {
+    const value = parseInt(env[name] || '', 10);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+}
@@ -0,0 +1,207 @@
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { after, before, describe, it } from 'node:test';
+import { CanvasObject, ClientMessageType, Layer, ServerMessageType, Shape } from '../shared/types';
+import { DEFAULT_LAYER_ID } from '../shared/layers';
+import { InProcessTransport } from './cluster';
+import { startNode } from './server';
+import { TestClient } from './test-client';
+
+/**
+ * Locked layers on the indirect paths: undo/redo, a stroke in progress,
+ * restoring a checkpoint and importing must not change what a locked layer holds.
+ *
+ * Runs a single node in this process (`npm test` sets STORAGE=memory) and talks
+ * to it like the client does, over Socket.io and HTTP. Each step waits for the
+ * server's answer to it (see test-client.ts).
+ */
+
+let url: string;
+let stop: () => void;
+
+before(async () => {
+    const { io, server } = startNode(
+        { id: 'node-1', port: 0, members: [{ id: 'node-1', url: '' }], secret: null },
+        () => new InProcessTransport()
+    );
+    await new Promise<void>(resolve => server.once('listening', resolve));
+    url = `http://localhost:${(server.address() as AddressInfo).port}`;
+    stop = () => io.close();
+});
+
+after(() => stop());
+
+// ==========================================
+// Helpers
+// ==========================================
+
+function join(roomId: string): Promise<TestClient> {
+    return TestClient.join(url, roomId);
+}
+
+function rect(id: string, layerId?: string): Shape {
+    return { id, kind: 'rect', start: { x: 0, y: 0 }, end: { x: 10, y: 10 }, style: { stroke: '#000000', strokeWidth: 2, fill: null }, layerId };
+}
+
+async function getObjectIds(roomId: string): Promise<string[]> {
+    const response = await fetch(`${url}/rooms/${roomId}/export.json`);
+    const document = await response.json() as { strokes: CanvasObject[] };
+    return document.strokes.map(object => object.id).sort();
+}
+
+// A room with a second layer, "locked" once the test calls `lock`
+async function createRoom(roomId: string) {
+    const author = await join(roomId);
+    const admin = await join(roomId);
+    const layer: Layer = { id: 'ink', name: 'Ink', hidden: false, locked: false };
+    await admin.sendAndWait({ type: ClientMessageType.ADD_LAYER, layer });
+
+    // Locked by someone else, so the author's redo stack survives
+    const lock = (layerId = layer.id) => admin.sendAndWait({ type: ClientMessageType.UPDATE_LAYER, layerId, changes: { locked: true } });
+    return { author, admin, layerId: layer.id, lock };
+}
+
+// ==========================================
+// Tests
+// ==========================================
+
+describe('undo and redo on a locked layer', () => {
+    it('refuses to undo adding an object', async () => {
+        const { author, admin, layerId, lock } = await createRoom('undo-add');
+        await author.sendAndWait({ type: ClientMessageType.ADD_SHAPE, shape: rect('a', layerId) });
+        await lock();
+
+        await author.sendAndWait({ type: ClientMessageType.UNDO });
+
+        assert.deepEqual(author.errors(), ['LOCKED']);
+        assert.deepEqual(await getObjectIds('undo-add'), ['a']);
+        author.close();
+        admin.close();
+    });
+
+    it('refuses to redo an erase', async () => {
+        const { author, admin, layerId, lock } = await createRoom('redo-erase');
+        await author.sendAndWait({ type: ClientMessageType.ADD_SHAPE, shape: rect('a', layerId) });
+        await author.sendAndWait({ type: ClientMessageType.ERASE, strokeIds: ['a'] });
+        await author.sendAndWait({ type: ClientMessageType.UNDO });
+        await lock();
+
+        await author.sendAndWait({ type: ClientMessageType.REDO });
+
+        assert.deepEqual(author.errors(), ['LOCKED']);
+        assert.deepEqual(await getObjectIds('redo-erase'), ['a']);
+        author.close();
+        admin.close();
+    });
+
+    it('refuses to redo a transform', async () => {
+        const { author, admin, layerId, lock } = await createRoom('redo-transform');
+        await author.sendAndWait({ type: ClientMessageType.ADD_SHAPE, shape: rect('a', layerId) });
+        const transform = { a: 1, b: 0, c: 0, d: 1, e: 5, f: 5 }; // Moved by (5, 5)
+        await author.sendAndWait({ type: ClientMessageType.TRANSFORM, objectIds: ['a'], transform });
+        await author.sendAndWait({ type: ClientMessageType.UNDO });
+        await lock();
+
+        const before = await fetch(`${url}/rooms/redo-transform/export.json`).then(response => response.json());
+        await author.sendAndWait({ type: ClientMessageType.REDO });
+
+        assert.deepEqual(author.errors(), ['LOCKED']);
+        assert.deepEqual(await fetch(`${url}/rooms/redo-transform/export.json`).then(response => response.json()), before);
+        author.close();
+        admin.close();
+    });
+
+    it('still redoes on other layers', async () => {
+        const { author, admin, lock } = await createRoom('redo-unlocked');
+        await author.sendAndWait({ type: ClientMessageType.ADD_SHAPE, shape: rect('a') });
+        await author.sendAndWait({ type: ClientMessageType.UNDO });
+        await lock();
+
+        await author.sendAndWait({ type: ClientMessageType.REDO });
+
+        assert.deepEqual(author.errors(), []);
+        assert.deepEqual(await getObjectIds('redo-unlocked'), ['a']);
+        author.close();
+        admin.close();
+    });
+});
+
+describe('a stroke whose layer is locked while it is drawn', () => {
+    it('is refused at its end and not committed', async () => {
+        const roomId = 'stroke-locked';
+        const { author, admin, layerId, lock } = await createRoom(roomId);
+        const id = 'stroke';
+        author.send({ type: ClientMessageType.STROKE_START, id, color: '#000000', size: 4, brush: 'pen', layerId, startPoint: { x: 0, y: 0, p: 0.5, t: 0 } });
+        author.send({ type: ClientMessageType.STROKE_MOVE, id, points: [{ x: 10, y: 10, p: 0.5, t: 10 }] });
+        await admin.waitFor(msg => msg.type === ServerMessageType.BROADCAST_STROKE_MOVE, 'the stroke to be drawn');
+        await lock();
+
+        const ended = admin.waitFor(msg => msg.type === ServerMessageType.BROADCAST_STROKE_END, 'the stroke to end');
+        const answer = await author.sendAndWait({ type: ClientMessageType.STROKE_END, id });
+        await ended;
+
+        assert.deepEqual(answer.type === ServerMessageType.ERROR && [answer.code, answer.id], ['LOCKED', id]);
+        assert.deepEqual(await getObjectIds(roomId), []);
+        author.close();
+        admin.close();
+    });
+});
+
+describe('restoring a checkpoint with a locked layer', () => {
+    it('leaves the locked layer as it is and restores the rest', async () => {
+        const roomId = 'restore';
+        const { author, admin, layerId, lock } = await createRoom(roomId);
+        await author.sendAndWait({ type: ClientMessageType.ADD_SHAPE, shape: rect('kept-on-ink', layerId) });
+        await author.sendAndWait({ type: ClientMessageType.ADD_SHAPE, shape: rect('erased-on-ink', layerId) });
+        await author.sendAndWait({ type: ClientMessageType.ADD_SHAPE, shape: rect('erased') });
+
+        const saved = await fetch(`${url}/rooms/${roomId}/checkpoints`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ name: 'before' })
+        }).then(response => response.json()) as { id: string };
+
+        await author.sendAndWait({ type: ClientMessageType.ERASE, strokeIds: ['erased-on-ink', 'erased'] });
+        await author.sendAndWait({ type: ClientMessageType.ADD_SHAPE, shape: rect('added-on-ink', layerId) });
+        await author.sendAndWait({ type: ClientMessageType.ADD_SHAPE, shape: rect('added') });
+        await lock();
+
+        const response = await fetch(`${url}/rooms/${roomId}/checkpoints/${saved.id}/restore`, { method: 'POST' });
+        assert.equal(response.status, 201);
+
+        // The ink layer keeps what it had when it was locked; the default layer is restored
+        assert.deepEqual(await getObjectIds(roomId), ['added-on-ink', 'erased', 'kept-on-ink']);
+        author.close();
+        admin.close();
+    });
+});
+
+describe('importing onto a locked layer', () => {
+    const document = JSON.stringify([{ id: 'x', points: [{ x: 0, y: 0 }, { x: 5, y: 5 }], color: '#000000', size: 4 }]);
+
+    it('refuses the import', async () => {
+        const roomId = 'import-locked';
+        const { author, admin, lock } = await createRoom(roomId);
+        await lock(DEFAULT_LAYER_ID); // Imported objects go on the default layer
+
+        const response = await fetch(`${url}/rooms/${roomId}/import`, { method: 'POST', body: document });
+
+        assert.equal(response.status, 423);
+        assert.deepEqual(await getObjectIds(roomId), []);
+        author.close();
+        admin.close();
+    });
+
+    it('imports while another layer is locked', async () => {
+        const roomId = 'import-unlocked';
+        const { author, admin, lock } = await createRoom(roomId);
+        await lock();
+
+        const response = await fetch(`${url}/rooms/${roomId}/import`, { method: 'POST', body: document });
+
+        assert.equal(response.status, 201);
+        assert.equal((await getObjectIds(roomId)).length, 1);
+        author.close();
+        admin.close();
+    });
+});
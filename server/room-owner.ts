@@ -0,0 +1,1029 @@
+import { randomUUID } from 'crypto';
+import { Server } from 'socket.io';
+import {
+    ClientMessage,
+    ClientMessageType,
+    ServerMessageType,
+    ServerMessage,
+    Point,
+    Stroke,
+    BrushKind,
+    CanvasObject,
+    Checkpoint,
+    CheckpointSummary,
+    ClientCanvasOperation,
+    ServerCanvasOperation,
+    ServerErrorCode,
+    DisconnectReason,
+    Role,
+    UserProfile
+} from '../shared/types';
+import { getBrush } from '../shared/brushes';
+import { getWidthPerPressure } from '../shared/ink';
+import { compositeLayers, getLayerId, getObjectLayer } from '../shared/layers';
+import { isShape } from '../shared/shapes';
+import { DEFAULT_SIMPLIFY_TOLERANCE, MAX_SIMPLIFY_TOLERANCE, simplifyStroke } from '../shared/simplify';
+import { isTextBox, sameTextBox } from '../shared/text';
+import { MAX_POINTS_PER_STROKE, getSubjectId } from '../shared/validation';
+import { ClusterNode } from './cluster';
+import { DrawingState } from './drawing-state';
+import { getRoster, joinRoom, leaveRoom, updateProfile } from './presence';
+import { LIMITS } from './rate-limit';
+import { RoomSummary, clearRoom, closeRoom, deleteRoom, findRoomState, getConnectionCount, getRoomState, getRoomSummary, openRoom } from './rooms';
+import { increment } from './metrics';
+
+/**
+ * The owner's side of a room (see cluster.ts): everything that reads or changes
+ * its DrawingState, its strokes in progress or its presence runs here, on the
+ * one node that owns the room.
+ *
+ * Requests come from the node the client is connected to, which may be this one.
+ * Replies go out as Socket.io broadcasts (`io.to(roomId)`, `io.to(socketId)`),
+ * which the cluster adapter delivers wherever the sockets are.
+ */
+
+export interface JoinRequest {
+    roomId: string;
+    socketId: string;
+    userId: string;
+    role: Role;
+    name: unknown;   // From the handshake; sanitized by presence.ts
+    lastSeq: number;
+}
+
+/**
+ * The requests a room's owner serves, for ClusterNode.
+ */
+export type RoomRequests = {
+    join: { payload: JoinRequest, result: { ok: true } | { ok: false, reason: DisconnectReason, message: string } };
+    message: { payload: { socketId: string, msg: ClientMessage }, result: null };
+    leave: { payload: { socketId: string }, result: null };
+    // Null (like every room read below) when the room doesn't exist
+    export: { payload: { roomId: string }, result: CanvasObject[] | null };
+    // HISTORY_FULL when the room's history has no space for the import; LOCKED when an object is for a locked layer
+    import: {
+        payload: { roomId: string, objects: CanvasObject[], authorId: string },
+        result: { ok: true, batchId?: string, strokes: number, seq: number } | { ok: false, reason: 'HISTORY_FULL' | 'LOCKED' }
+    };
+    summary: { payload: { roomId: string, fold: boolean }, result: RoomSummary | null };
+    clear: { payload: { roomId: string }, result: { seq: number } | null };
+    delete: { payload: { roomId: string }, result: boolean };
+    checkpoints: { payload: { roomId: string }, result: CheckpointSummary[] | null };
+    checkpoint: { payload: { roomId: string, checkpointId: string }, result: Checkpoint | null };
+    // TOO_MANY when the room already has LIMITS.maxCheckpoints
+    saveCheckpoint: {
+        payload: { roomId: string, name: string, authorId: string },
+        result: { ok: true, checkpoint: CheckpointSummary } | { ok: false, reason: 'NOT_FOUND' | 'TOO_MANY' }
+    };
+    deleteCheckpoint: { payload: { roomId: string, checkpointId: string }, result: boolean };
+    restoreCheckpoint: {
+        payload: { roomId: string, checkpointId: string, authorId: string },
+        result: { ok: true, batchId?: string, operations: number, seq: number } | { ok: false, reason: 'NOT_FOUND' | 'HISTORY_FULL' }
+    };
+};
+
+/**
+ * A connection, as its room's owner knows it. The socket itself may be on another node.
+ */
+interface Session {
+    roomId: string;
+    userId: string;
+    user: UserProfile;
+    state: Promise<DrawingState>; // From openRoom; handlers all await the same one
+}
+
+// Map of socketId -> Session, for connections to rooms this process owns
+const sessions = new Map<string, Session>();
+
+// Buffer for active strokes being streamed.
+// We need this to reconstruct the full Stroke object when STROKE_END arrives.
+// Key: socketId -> Partial Stroke Data
+interface ActiveStrokeBuffer {
+    id: string;
+    color: string;
+    size: number;
+    brush: BrushKind;
+    layerId?: string;
+    tolerance: number; // Simplification applied on STROKE_END (world units)
+    points: Point[];
+}
+const activeStrokes = new Map<string, ActiveStrokeBuffer>();
+
+// Messages that add to a room's history, refused once it holds LIMITS.maxRoomHistory.
+// Undo and erase still work, so a full room can be cleaned up.
+const GROWS_HISTORY = new Set<ClientMessageType>([
+    ClientMessageType.STROKE_START,
+    ClientMessageType.ADD_SHAPE,
+    ClientMessageType.ADD_TEXT,
+    ClientMessageType.UPDATE_TEXT,
+    ClientMessageType.TRANSFORM,
+    ClientMessageType.ADD_LAYER,
+    ClientMessageType.UPDATE_LAYER,
+    ClientMessageType.MOVE_LAYER,
+    ClientMessageType.MOVE_TO_LAYER,
+    ClientMessageType.REDO
+]);
+
+/**
+ * Serves the owner's requests on a node. `io` is that node's server; its
+ * broadcasts reach every node through the cluster adapter.
+ */
+export function registerRoomOwner(node: ClusterNode<RoomRequests>, io: Server) {
+    node.handle('join', (request) => handleJoin(io, request));
+    node.handle('message', ({ socketId, msg }) => handleMessage(io, socketId, msg));
+    node.handle('leave', ({ socketId }) => handleLeave(io, socketId));
+
+    // The board as it is drawn: hidden layers left out, the rest in layer order
+    node.handle('export', async ({ roomId }) => {
+        const state = await findRoomState(roomId);
+        if (!state) return null;
+        return compositeLayers(state.computeVisibleStrokes(), state.computeLayers());
+    });
+
+    node.handle('import', async ({ roomId, objects, authorId }) => {
+        const state = await getRoomState(roomId);
+        if (state.getHistorySize() + objects.length > LIMITS.maxRoomHistory) {
+            return { ok: false, reason: 'HISTORY_FULL' };
+        }
+        // All or nothing, like an ADD to a locked layer
+        if (objects.some(object => isLocked(state, object))) {
+            return { ok: false, reason: 'LOCKED' };
+        }
+        const operations = commitImport(state, objects, authorId);
+
+        const opMsg: ServerMessage = {
+            type: ServerMessageType.BROADCAST_OPERATION,
+            roomId,
+            operations
+        };
+        io.to(roomId).emit('message', opMsg);
+        return { ok: true, batchId: operations[0]?.batchId, strokes: operations.length, seq: state.getHeadSeq() };
+    });
+
+    node.handle('summary', ({ roomId, fold }) => getRoomSummary(roomId, fold));
+
+    // Connected clients get a fresh full SYNC of the empty board
+    node.handle('clear', async ({ roomId }) => {
+        const state = await clearRoom(roomId);
+        if (!state) return null;
+
+        io.to(roomId).emit('message', createSyncMessage(roomId, state, 0));
+        io.to(roomId).emit('message', createCheckpointsMessage(roomId, state));
+        return { seq: state.getHeadSeq() };
+    });
+
+    // Everyone is disconnected first, so nothing writes to the room once it is gone
+    node.handle('delete', async ({ roomId }) => {
+        const msg: ServerMessage = {
+            type: ServerMessageType.DISCONNECT,
+            roomId,
+            reason: 'ROOM_DELETED',
+            message: 'This room was deleted'
+        };
+        const sockets = await io.in(roomId).fetchSockets();
+        io.to(roomId).emit('message', msg);
+        io.in(roomId).disconnectSockets(true);
+        increment('disconnects', 'ROOM_DELETED', sockets.length);
+
+        for (const [socketId, session] of sessions) {
+            if (session.roomId === roomId) handleLeave(io, socketId);
+        }
+        return deleteRoom(roomId);
+    });
+
+    // Checkpoints
+    // Saving and deleting tell everyone in the room the new list
+    node.handle('checkpoints', async ({ roomId }) => (await findRoomState(roomId))?.getCheckpoints() ?? null);
+
+    node.handle('checkpoint', async ({ roomId, checkpointId }) => (await findRoomState(roomId))?.getCheckpoint(checkpointId) ?? null);
+
+    node.handle('saveCheckpoint', async ({ roomId, name, authorId }) => {
+        const state = await findRoomState(roomId);
+        if (!state) {
+            return { ok: false, reason: 'NOT_FOUND' };
+        }
+        if (state.getCheckpoints().length >= LIMITS.maxCheckpoints) {
+            return { ok: false, reason: 'TOO_MANY' };
+        }
+        const { objects: _objects, ...checkpoint } = state.saveCheckpoint(name, authorId);
+
+        io.to(roomId).emit('message', createCheckpointsMessage(roomId, state));
+        return { ok: true, checkpoint };
+    });
+
+    node.handle('deleteCheckpoint', async ({ roomId, checkpointId }) => {
+        const state = await findRoomState(roomId);
+        if (!state?.deleteCheckpoint(checkpointId)) return false;
+
+        io.to(roomId).emit('message', createCheckpointsMessage(roomId, state));
+        return true;
+    });
+
+    // A restore is an ordinary batch: everyone gets it as operations, and its author can undo it
+    node.handle('restoreCheckpoint', async ({ roomId, checkpointId, authorId }) => {
+        const state = await findRoomState(roomId);
+        const drafts = state && state.getRestoreOperations(checkpointId);
+        if (!state || !drafts) {
+            return { ok: false, reason: 'NOT_FOUND' };
+        }
+        if (state.getHistorySize() + drafts.length > LIMITS.maxRoomHistory) {
+            return { ok: false, reason: 'HISTORY_FULL' };
+        }
+
+        const operations = drafts.map(op => state.pushOperation(op, authorId));
+        if (operations.length > 0) {
+            const opMsg: ServerMessage = {
+                type: ServerMessageType.BROADCAST_OPERATION,
+                roomId,
+                operations
+            };
+            io.to(roomId).emit('message', opMsg);
+        }
+        return { ok: true, batchId: operations[0]?.batchId, operations: operations.length, seq: state.getHeadSeq() };
+    });
+}
+
+/**
+ * Strokes being streamed to rooms this process owns.
+ */
+export function getActiveStrokeCount(): number {
+    return activeStrokes.size;
+}
+
+// ==========================================
+// Connections
+// ==========================================
+
+function handleJoin(io: Server, { roomId, socketId, userId, role, name, lastSeq }: JoinRequest): RoomRequests['join']['result'] {
+    if (getConnectionCount(roomId) >= LIMITS.maxRoomSize) {
+        console.warn(`Room ${roomId} is full, refusing ${socketId}`);
+        return { ok: false, reason: 'ROOM_FULL', message: `This room is full (${LIMITS.maxRoomSize} connections)` };
+    }
+
+    // The room stays in memory until this connection leaves.
+    // Registered before anything is awaited, so the connection's messages find it.
+    const state = openRoom(roomId);
+
+    // Presence
+    // The newcomer gets the full roster; everyone else only hears about
+    // users who weren't already connected (e.g. from another tab).
+    const { user, isNew } = joinRoom(roomId, userId, socketId, name);
+    sessions.set(socketId, { roomId, userId, user, state });
+
+    const rosterMsg: ServerMessage = {
+        type: ServerMessageType.ROSTER,
+        roomId,
+        users: getRoster(roomId),
+        role
+    };
+    io.to(socketId).emit('message', rosterMsg);
+
+    if (isNew) {
+        const joinedMsg: ServerMessage = {
+            type: ServerMessageType.USER_JOINED,
+            roomId,
+            user
+        };
+        io.to(roomId).except(socketId).emit('message', joinedMsg);
+    }
+
+    // Initial Sync
+    // A reconnecting client tells us the last seq it applied; it only needs what came after.
+    state.then((loaded) => {
+        io.to(socketId).emit('message', createSyncMessage(roomId, loaded, lastSeq));
+        io.to(socketId).emit('message', createCheckpointsMessage(roomId, loaded));
+    }).catch((err) => {
+        console.error(`Failed to load room ${roomId}, disconnecting ${socketId}:`, err);
+        io.in(socketId).disconnectSockets(true);
+    });
+
+    return { ok: true };
+}
+
+function handleLeave(io: Server, socketId: string): null {
+    const session = sessions.get(socketId);
+    if (!session) return null;
+    sessions.delete(socketId);
+
+    const { roomId, userId } = session;
+
+    // Cleanup all active strokes for this user
+    for (const key of activeStrokes.keys()) {
+        if (key.startsWith(`${socketId}:`)) {
+            activeStrokes.delete(key);
+        }
+    }
+
+    // Other clients drop this user's cursor (and any stroke they were mid-way through)
+    if (leaveRoom(roomId, userId, socketId)) {
+        const leftMsg: ServerMessage = {
+            type: ServerMessageType.USER_LEFT,
+            roomId,
+            userId
+        };
+        io.to(roomId).except(socketId).emit('message', leftMsg);
+    }
+
+    closeRoom(roomId, session.state);
+    return null;
+}
+
+// ==========================================
+// Message Handling
+// ==========================================
+
+/**
+ * Applies a message that the client's node has already validated, authorized and rate-limited.
+ */
+async function handleMessage(io: Server, socketId: string, msg: ClientMessage): Promise<null> {
+    const session = sessions.get(socketId);
+    if (!session) return null; // Left (or was refused) before this arrived
+
+    const { roomId, userId } = session;
+
+    // Tells the sender one of its messages was rejected (nothing from it was stored or broadcast)
+    const sendError = (code: ServerErrorCode, message: string, rejectedType: string | null, id?: string) => {
+        const errorMsg: ServerMessage = {
+            type: ServerMessageType.ERROR,
+            roomId,
+            code,
+            message,
+            rejectedType,
+            id
+        };
+        io.to(socketId).emit('message', errorMsg);
+        increment('errors', code);
+    };
+
+    let state: DrawingState;
+    try {
+        state = await session.state;
+    } catch {
+        return null; // Load failure is handled in handleJoin
+    }
+
+    if (GROWS_HISTORY.has(msg.type) && state.getHistorySize() >= LIMITS.maxRoomHistory) {
+        sendError('LIMIT_EXCEEDED', `Room history is full (max ${LIMITS.maxRoomHistory})`, msg.type, getSubjectId(msg));
+        return null;
+    }
+
+    switch (msg.type) {
+        // --- Streaming Drawing Events ---
+
+        case ClientMessageType.STROKE_START: {
+            // Key by socketId AND strokeId to handle overlapping strokes or race conditions
+            const bufferKey = `${socketId}:${msg.id}`;
+
+            // A re-sent start replaces its buffer; only new strokes count against the cap
+            if (!activeStrokes.has(bufferKey) && countActiveStrokes(socketId) >= LIMITS.maxActiveStrokesPerSocket) {
+                sendError('LIMIT_EXCEEDED', `Too many strokes in progress (max ${LIMITS.maxActiveStrokesPerSocket})`, msg.type, msg.id);
+                return null;
+            }
+
+            // Checked again at STROKE_END, in case its layer gets locked while it's drawn
+            if (isLocked(state, msg)) {
+                sendError('LOCKED', 'The layer is locked', msg.type, msg.id);
+                return null;
+            }
+
+            const tolerance = msg.tolerance !== undefined
+                ? Math.min(msg.tolerance, MAX_SIMPLIFY_TOLERANCE)
+                : DEFAULT_SIMPLIFY_TOLERANCE;
+
+            // Initialize buffer for this user's stroke
+            activeStrokes.set(bufferKey, {
+                id: msg.id,
+                color: msg.color,
+                size: msg.size,
+                brush: msg.brush,
+                layerId: msg.layerId,
+                tolerance,
+                points: [msg.startPoint]
+            });
+
+            // Broadcast start to others (for real-time visual)
+            const broadcastMsg: ServerMessage = {
+                type: ServerMessageType.BROADCAST_STROKE_START,
+                roomId,
+                userId,
+                id: msg.id,
+                color: msg.color,
+                size: msg.size,
+                brush: msg.brush,
+                startPoint: msg.startPoint
+            };
+            io.to(roomId).except(socketId).emit('message', broadcastMsg);
+            break;
+        }
+
+        case ClientMessageType.STROKE_MOVE: {
+            // Use composite key
+            const bufferKey = `${socketId}:${msg.id}`;
+            const buffer = activeStrokes.get(bufferKey);
+
+            // Defensive validation for stroke event order
+            if (!buffer) {
+                console.warn(`Socket ${socketId} sent STROKE_MOVE for unknown stroke ${msg.id}`);
+                return null; // Gracefully ignore
+            }
+
+            // The whole batch is refused, so everyone keeps seeing the same stroke;
+            // the stroke itself stays open and is committed as far as it got
+            if (buffer.points.length + msg.points.length > MAX_POINTS_PER_STROKE) {
+                sendError('LIMIT_EXCEEDED', `Stroke has too many points (max ${MAX_POINTS_PER_STROKE})`, msg.type, msg.id);
+                return null;
+            }
+
+            buffer.points.push(...msg.points);
+
+            // Broadcast move to others
+            const broadcastMsg: ServerMessage = {
+                type: ServerMessageType.BROADCAST_STROKE_MOVE,
+                roomId,
+                userId,
+                id: msg.id,
+                points: msg.points
+            };
+            io.to(roomId).except(socketId).emit('message', broadcastMsg);
+            break;
+        }
+
+        case ClientMessageType.STROKE_END: {
+            // Use composite key
+            const bufferKey = `${socketId}:${msg.id}`;
+            const buffer = activeStrokes.get(bufferKey);
+
+            // Defensive validation for stroke event order
+            if (!buffer) {
+                console.warn(`Socket ${socketId} sent STROKE_END for unknown stroke ${msg.id}`);
+                return null; // Gracefully ignore
+            }
+
+            // A reconnecting client re-sends strokes it never saw committed.
+            // If the original did get through, don't commit it a second time.
+            if (state.hasStroke(buffer.id)) {
+                console.warn(`Socket ${socketId} re-sent already committed stroke ${msg.id}`);
+                activeStrokes.delete(bufferKey);
+
+                const endMsg: ServerMessage = {
+                    type: ServerMessageType.BROADCAST_STROKE_END,
+                    roomId,
+                    userId,
+                    id: msg.id
+                };
+                io.to(roomId).except(socketId).emit('message', endMsg);
+                return null;
+            }
+
+            // Its layer was locked while it was drawn: refused like a locked start,
+            // and the others stop showing it
+            if (isLocked(state, buffer)) {
+                activeStrokes.delete(bufferKey);
+                sendError('LOCKED', 'The layer is locked', msg.type, msg.id);
+
+                const endMsg: ServerMessage = {
+                    type: ServerMessageType.BROADCAST_STROKE_END,
+                    roomId,
+                    userId,
+                    id: msg.id
+                };
+                io.to(roomId).except(socketId).emit('message', endMsg);
+                return null;
+            }
+
+            // 1. Construct the full Stroke object, dropping samples nobody can see
+            const ink = getBrush(buffer.brush).ink;
+            const stroke: Stroke = {
+                id: buffer.id,
+                color: buffer.color,
+                size: buffer.size,
+                brush: buffer.brush,
+                points: simplifyStroke(buffer.points, buffer.tolerance, getWidthPerPressure(buffer.size, ink))
+            };
+            if (buffer.layerId !== undefined) {
+                stroke.layerId = buffer.layerId;
+            }
+
+            // 2. Create the Client Operation
+            const op: ClientCanvasOperation = {
+                id: msg.id, // Use stroke ID as op ID for simplicity, or generate new UUID
+                type: 'ADD_STROKE',
+                stroke: stroke
+            };
+
+            // 3. Commit to Authoritative State
+            const serverOp = state.pushOperation(op, userId);
+
+            // 4. Broadcast the Authoritative Operation (with SEQ)
+            // This tells clients: "This stroke is now officially part of history"
+            const opMsg: ServerMessage = {
+                type: ServerMessageType.BROADCAST_OPERATION,
+                roomId,
+                operations: [serverOp]
+            };
+            io.to(roomId).emit('message', opMsg);
+
+            // 5. Broadcast End (to stop the streaming visual)
+            const endMsg: ServerMessage = {
+                type: ServerMessageType.BROADCAST_STROKE_END,
+                roomId,
+                userId,
+                id: msg.id
+            };
+            io.to(roomId).except(socketId).emit('message', endMsg);
+
+            // 6. Cleanup buffer
+            activeStrokes.delete(bufferKey);
+            break;
+        }
+
+        // --- Shapes ---
+
+        case ClientMessageType.ADD_SHAPE: {
+            // Shapes arrive whole, so the entire payload was validated up front
+            const shape = msg.shape;
+
+            // Re-sent after a reconnect, but the original got through
+            if (state.hasStroke(shape.id)) {
+                return null;
+            }
+            if (isLocked(state, shape)) {
+                sendError('LOCKED', 'The layer is locked', msg.type, shape.id);
+                return null;
+            }
+
+            const op: ClientCanvasOperation = {
+                id: shape.id, // Like strokes: the object ID doubles as the op ID
+                type: 'ADD_SHAPE',
+                shape
+            };
+            const serverOp = state.pushOperation(op, userId);
+
+            const opMsg: ServerMessage = {
+                type: ServerMessageType.BROADCAST_OPERATION,
+                roomId,
+                operations: [serverOp]
+            };
+            io.to(roomId).emit('message', opMsg);
+            break;
+        }
+
+        // --- Text ---
+
+        case ClientMessageType.ADD_TEXT: {
+            const text = msg.text;
+
+            if (state.hasStroke(text.id)) {
+                return null;
+            }
+            if (isLocked(state, text)) {
+                sendError('LOCKED', 'The layer is locked', msg.type, text.id);
+                return null;
+            }
+
+            const op: ClientCanvasOperation = {
+                id: text.id, // Like strokes: the object ID doubles as the op ID
+                type: 'ADD_TEXT',
+                text
+            };
+            const serverOp = state.pushOperation(op, userId);
+
+            const opMsg: ServerMessage = {
+                type: ServerMessageType.BROADCAST_OPERATION,
+                roomId,
+                operations: [serverOp]
+            };
+            io.to(roomId).emit('message', opMsg);
+            break;
+        }
+
+        case ClientMessageType.UPDATE_TEXT: {
+            const text = msg.text;
+
+            // Only edit a text box that is still visible. Another user may have
+            // erased it (or undone its creation) while this user was typing.
+            const current = state.computeVisibleStrokes().find(object => object.id === text.id);
+            if (!current || !isTextBox(current)) {
+                return null;
+            }
+
+            // Nothing changed (or a re-send after a reconnect that already got through):
+            // don't create an empty undo step
+            if (sameTextBox(current, text)) {
+                return null;
+            }
+            if (isLocked(state, current)) {
+                sendError('LOCKED', 'The text is on a locked layer', msg.type, text.id);
+                return null;
+            }
+
+            const op: ClientCanvasOperation = {
+                id: randomUUID(),
+                type: 'UPDATE_TEXT',
+                text
+            };
+            const serverOp = state.pushOperation(op, userId);
+
+            const opMsg: ServerMessage = {
+                type: ServerMessageType.BROADCAST_OPERATION,
+                roomId,
+                operations: [serverOp]
+            };
+            io.to(roomId).emit('message', opMsg);
+            break;
+        }
+
+        // --- Object Eraser ---
+
+        case ClientMessageType.ERASE: {
+            // Only erase strokes that are still visible. Another user may have
+            // erased or undone them while this message was in flight.
+            const visible = new Map(state.computeVisibleStrokes().map(stroke => [stroke.id, stroke]));
+            const visibleIds = new Set(visible.keys());
+            const operations: ServerCanvasOperation[] = [];
+
+            // All or nothing, like any refused message: the sender's optimistic erase is
+            // undone when it sees the layer locked (see app.ts)
+            if (touchesLockedLayer(state, msg.strokeIds, visible)) {
+                sendError('LOCKED', 'Some of these objects are on a locked layer', msg.type);
+                return null;
+            }
+
+            // One message is one user action (an eraser sweep, or deleting a
+            // selection), so it is undone as a whole
+            const batchId = randomUUID();
+
+            for (const strokeId of msg.strokeIds) {
+                if (!visibleIds.has(strokeId)) continue;
+                visibleIds.delete(strokeId); // Guard against duplicate IDs in one message
+
+                const op: ClientCanvasOperation = {
+                    id: randomUUID(),
+                    type: 'REMOVE_STROKE',
+                    strokeId,
+                    batchId
+                };
+                operations.push(state.pushOperation(op, userId));
+            }
+
+            if (operations.length > 0) {
+                const opMsg: ServerMessage = {
+                    type: ServerMessageType.BROADCAST_OPERATION,
+                    roomId,
+                    operations
+                };
+                io.to(roomId).emit('message', opMsg);
+            }
+            break;
+        }
+
+        // --- Selection Transform ---
+
+        case ClientMessageType.TRANSFORM: {
+            const transform = msg.transform;
+
+            // Like erasing: skip objects removed while the user was dragging
+            const visible = new Map(state.computeVisibleStrokes().map(object => [object.id, object]));
+            const visibleIds = new Set(visible.keys());
+            const operations: ServerCanvasOperation[] = [];
+            const batchId = randomUUID();
+
+            if (touchesLockedLayer(state, msg.objectIds, visible)) {
+                sendError('LOCKED', 'Some of these objects are on a locked layer', msg.type);
+                return null;
+            }
+
+            for (const objectId of msg.objectIds) {
+                if (!visibleIds.has(objectId)) continue;
+                visibleIds.delete(objectId);
+
+                const op: ClientCanvasOperation = {
+                    id: randomUUID(),
+                    type: 'TRANSFORM',
+                    objectId,
+                    transform,
+                    batchId
+                };
+                operations.push(state.pushOperation(op, userId));
+            }
+
+            if (operations.length > 0) {
+                const opMsg: ServerMessage = {
+                    type: ServerMessageType.BROADCAST_OPERATION,
+                    roomId,
+                    operations
+                };
+                io.to(roomId).emit('message', opMsg);
+            }
+            break;
+        }
+
+        // --- Layers ---
+        // Nothing is committed for a change that changes nothing (a re-send, or a
+        // layer that is gone), so it doesn't become an empty undo step.
+
+        case ClientMessageType.ADD_LAYER: {
+            if (state.computeLayers().some(layer => layer.id === msg.layer.id)) {
+                return null;
+            }
+
+            const op: ClientCanvasOperation = {
+                id: randomUUID(),
+                type: 'ADD_LAYER',
+                layer: msg.layer
+            };
+            const opMsg: ServerMessage = {
+                type: ServerMessageType.BROADCAST_OPERATION,
+                roomId,
+                operations: [state.pushOperation(op, userId)]
+            };
+            io.to(roomId).emit('message', opMsg);
+            break;
+        }
+
+        case ClientMessageType.UPDATE_LAYER: {
+            const layer = state.computeLayers().find(candidate => candidate.id === msg.layerId);
+            const changes = msg.changes;
+            if (!layer || (Object.keys(changes) as (keyof typeof changes)[]).every(key => layer[key] === changes[key])) {
+                return null;
+            }
+
+            const op: ClientCanvasOperation = {
+                id: randomUUID(),
+                type: 'UPDATE_LAYER',
+                layerId: msg.layerId,
+                changes
+            };
+            const opMsg: ServerMessage = {
+                type: ServerMessageType.BROADCAST_OPERATION,
+                roomId,
+                operations: [state.pushOperation(op, userId)]
+            };
+            io.to(roomId).emit('message', opMsg);
+            break;
+        }
+
+        case ClientMessageType.MOVE_LAYER: {
+            const layers = state.computeLayers();
+            const index = layers.findIndex(layer => layer.id === msg.layerId);
+            if (index === -1 || index === Math.min(msg.index, layers.length - 1)) {
+                return null;
+            }
+
+            const op: ClientCanvasOperation = {
+                id: randomUUID(),
+                type: 'MOVE_LAYER',
+                layerId: msg.layerId,
+                index: msg.index
+            };
+            const opMsg: ServerMessage = {
+                type: ServerMessageType.BROADCAST_OPERATION,
+                roomId,
+                operations: [state.pushOperation(op, userId)]
+            };
+            io.to(roomId).emit('message', opMsg);
+            break;
+        }
+
+        case ClientMessageType.MOVE_TO_LAYER: {
+            const target = state.computeLayers().find(layer => layer.id === msg.layerId);
+            if (!target) {
+                return null;
+            }
+
+            // Like transforming: skip objects removed meanwhile, and those already there.
+            // Locked on either side refuses the whole move.
+            const visible = new Map(state.computeVisibleStrokes().map(object => [object.id, object]));
+            if (target.locked || touchesLockedLayer(state, msg.objectIds, visible)) {
+                sendError('LOCKED', 'The layer is locked', msg.type);
+                return null;
+            }
+
+            const operations: ServerCanvasOperation[] = [];
+            const batchId = randomUUID();
+            for (const objectId of msg.objectIds) {
+                const object = visible.get(objectId);
+                if (!object || getLayerId(object) === msg.layerId) continue;
+                visible.delete(objectId);
+
+                const op: ClientCanvasOperation = {
+                    id: randomUUID(),
+                    type: 'MOVE_TO_LAYER',
+                    objectId,
+                    layerId: msg.layerId,
+                    batchId
+                };
+                operations.push(state.pushOperation(op, userId));
+            }
+
+            if (operations.length > 0) {
+                const opMsg: ServerMessage = {
+                    type: ServerMessageType.BROADCAST_OPERATION,
+                    roomId,
+                    operations
+                };
+                io.to(roomId).emit('message', opMsg);
+            }
+            break;
+        }
+
+        // --- Undo/Redo ---
+        // Scoped to the sender: only their own operations are affected.
+
+        case ClientMessageType.UNDO: {
+            // Undoing an ADD removes the object, undoing an ERASE brings it back, and so on:
+            // refused like doing the same directly, if the object is on a locked layer
+            const step = state.getUndoStep(userId);
+            if (stepTouchesLockedLayer(state, step, state.previewVisibleStrokes(step))) {
+                sendError('LOCKED', 'This would change a locked layer', msg.type);
+                return null;
+            }
+
+            const undone = state.undo(userId);
+            if (undone) {
+                // Broadcast the full undone operations so clients know what to remove
+                const undoMsg: ServerMessage = {
+                    type: ServerMessageType.BROADCAST_UNDO,
+                    roomId,
+                    operations: undone.operations,
+                    seq: undone.seq
+                };
+                io.to(roomId).emit('message', undoMsg);
+            }
+            break;
+        }
+        case ClientMessageType.REDO: {
+            const step = state.getRedoStep(userId);
+            if (stepTouchesLockedLayer(state, step, state.previewVisibleStrokes([], step))) {
+                sendError('LOCKED', 'This would change a locked layer', msg.type);
+                return null;
+            }
+
+            const redone = state.redo(userId);
+            if (redone) {
+                const redoMsg: ServerMessage = {
+                    type: ServerMessageType.BROADCAST_REDO,
+                    roomId,
+                    operations: redone
+                };
+                io.to(roomId).emit('message', redoMsg);
+            }
+            break;
+        }
+
+        // --- Cursor ---
+
+        case ClientMessageType.CURSOR_MOVE: {
+            const cursorMsg: ServerMessage = {
+                type: ServerMessageType.BROADCAST_CURSOR,
+                roomId,
+                userId,
+                x: msg.x,
+                y: msg.y,
+                color: session.user.color // Stable per user, see presence.ts
+            };
+            io.to(roomId).except(socketId).emit('message', cursorMsg);
+            break;
+        }
+
+        // --- Presence ---
+
+        case ClientMessageType.UPDATE_PROFILE: {
+            const profile = updateProfile(roomId, userId, msg.name);
+            if (profile) {
+                const updatedMsg: ServerMessage = {
+                    type: ServerMessageType.USER_JOINED,
+                    roomId,
+                    user: profile
+                };
+                io.to(roomId).emit('message', updatedMsg);
+            }
+            break;
+        }
+    }
+
+    return null;
+}
+
+// ==========================================
+// Helpers
+// ==========================================
+
+/**
+ * Whether an object, or a new one for `layerId`, is on a locked layer.
+ * Objects on a layer that doesn't exist are on the default layer (see shared/layers.ts).
+ */
+function isLocked(state: DrawingState, object: { layerId?: string }): boolean {
+    return getObjectLayer(object, state.computeLayers()).locked;
+}
+
+// Whether any of the visible objects among `ids` is on a locked layer
+function touchesLockedLayer(state: DrawingState, ids: string[], visible: Map<string, CanvasObject>): boolean {
+    const layers = state.computeLayers();
+    return ids.some((id) => {
+        const object = visible.get(id);
+        return object !== undefined && getObjectLayer(object, layers).locked;
+    });
+}
+
+/**
+ * Whether an undo or redo step changes an object on a locked layer: one its
+ * operations add, remove, edit or move, on a locked layer before the step
+ * (now) or after it. Layer operations themselves are never refused, or a
+ * layer locked by mistake couldn't be unlocked by undoing.
+ *
+ * @param after The visible objects once the step is taken.
+ */
+function stepTouchesLockedLayer(state: DrawingState, step: ServerCanvasOperation[], after: Map<string, CanvasObject>): boolean {
+    if (step.length === 0) return false;
+
+    const layers = state.computeLayers();
+    const before = new Map(state.computeVisibleStrokes().map(object => [object.id, object]));
+    return step.some((op) => {
+        const objectId = getObjectId(op);
+        if (objectId === null) return false;
+        return [before.get(objectId), after.get(objectId)]
+            .some(object => object !== undefined && getObjectLayer(object, layers).locked);
+    });
+}
+
+// The object an operation is about, or null for layer operations
+function getObjectId(op: ServerCanvasOperation): string | null {
+    switch (op.type) {
+        case 'ADD_STROKE': return op.stroke.id;
+        case 'ADD_SHAPE': return op.shape.id;
+        case 'ADD_TEXT':
+        case 'UPDATE_TEXT': return op.text.id;
+        case 'TRANSFORM':
+        case 'MOVE_TO_LAYER': return op.objectId;
+        case 'REMOVE_STROKE': return op.strokeId;
+        case 'ADD_LAYER':
+        case 'UPDATE_LAYER':
+        case 'MOVE_LAYER': return null;
+    }
+}
+
+function countActiveStrokes(socketId: string): number {
+    let count = 0;
+    for (const key of activeStrokes.keys()) {
+        if (key.startsWith(`${socketId}:`)) count++;
+    }
+    return count;
+}
+
+/**
+ * Commits imported objects as one undoable batch of ADD_STROKE / ADD_SHAPE / ADD_TEXT operations.
+ * Objects get fresh IDs, so importing a board into itself (or twice) never
+ * collides with objects already in the room.
+ */
+function commitImport(state: DrawingState, objects: CanvasObject[], authorId: string): ServerCanvasOperation[] {
+    const batchId = randomUUID();
+
+    return objects.map((object) => {
+        let op: ClientCanvasOperation;
+        if (isShape(object)) {
+            op = { id: randomUUID(), type: 'ADD_SHAPE', shape: { ...object, id: randomUUID() }, batchId };
+        } else if (isTextBox(object)) {
+            op = { id: randomUUID(), type: 'ADD_TEXT', text: { ...object, id: randomUUID() }, batchId };
+        } else {
+            op = { id: randomUUID(), type: 'ADD_STROKE', stroke: { ...object, id: randomUUID() }, batchId };
+        }
+        return state.pushOperation(op, authorId);
+    });
+}
+
+/**
+ * Builds the SYNC message for a (re)connecting client.
+ * Sends only the missing changes when the client can resume from `lastSeq`,
+ * otherwise the base snapshot plus the operation log after it.
+ */
+function createSyncMessage(roomId: string, state: DrawingState, lastSeq: number): ServerMessage {
+    const changes = lastSeq > 0 ? state.getChangesSince(lastSeq) : null;
+
+    if (changes) {
+        return {
+            type: ServerMessageType.SYNC,
+            roomId,
+            operations: changes.operations,
+            removedOperationIds: changes.removedOperationIds,
+            seq: state.getHeadSeq()
+        };
+    }
+
+    return {
+        type: ServerMessageType.SYNC,
+        roomId,
+        snapshot: state.getBaseSnapshot(),
+        operations: state.getSnapshot(),
+        removedOperationIds: [],
+        seq: state.getHeadSeq()
+    };
+}
+
+function createCheckpointsMessage(roomId: string, state: DrawingState): ServerMessage {
+    return {
+        type: ServerMessageType.CHECKPOINTS,
+        roomId,
+        checkpoints: state.getCheckpoints()
+    };
+}
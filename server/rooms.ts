@@ -1,12 +1,298 @@
-import { DrawingState } from './drawing-state';
+import { randomUUID } from 'crypto';
+import { CompactionOptions, DrawingState, HistoryEvent } from './drawing-state';
+import { RoomMetadata, RoomStorage, StoredRoom, createStorage } from './storage';
 
-// Map of roomId -> Authoritative DrawingState
-const rooms = new Map<string, DrawingState>();
+// Durable backing store for every room's history
+const storage: RoomStorage = createStorage();
 
-// Helper to get or create state for a room
-export function getRoomState(roomId: string): DrawingState {
-    if (!rooms.has(roomId)) {
-        rooms.set(roomId, new DrawingState());
+// How aggressively room histories are folded into snapshots
+const compaction: CompactionOptions = {
+    threshold: parseInt(process.env.COMPACT_THRESHOLD || '1000', 10),
+    keep: parseInt(process.env.COMPACT_KEEP || '200', 10)
+};
+
+// Room lifecycle (seconds in the environment):
+// - ROOM_IDLE_TIMEOUT (default 300): a room nobody is connected to is unloaded
+//   from memory this long after its last use. It is rehydrated on the next access.
+// - ROOM_TTL (default 0 = never): an unloaded room that hasn't changed for this
+//   long is deleted from storage.
+const IDLE_TIMEOUT_MS = readSeconds('ROOM_IDLE_TIMEOUT', 300);
+const TTL_MS = readSeconds('ROOM_TTL', 0);
+const SWEEP_INTERVAL_MS = Math.max(1000, Math.min(IDLE_TIMEOUT_MS, 60_000));
+
+/**
+ * A room held in memory.
+ */
+interface LoadedRoom {
+    // We store the loading promise (not the state) so concurrent connections
+    // to a cold room share a single rehydration instead of racing.
+    state: Promise<DrawingState>;
+    connections: number; // Sockets that opened the room and haven't closed it
+    lastUsed: number;    // ms since epoch: last access, or when the last connection closed
+}
+
+/**
+ * What the admin API reports about a room.
+ */
+export interface RoomSummary {
+    roomId: string;
+    secured: boolean;
+    createdAt: number | null; // Only known for rooms created through POST /rooms
+    updatedAt: number | null; // Last write to storage (null if nothing was ever stored)
+    loaded: boolean;          // Currently in memory
+    connections: number;
+    // Null when a room that isn't loaded is listed rather than read on its own
+    strokes: number | null;    // Visible objects (strokes, shapes, text)
+    operations: number | null; // Operations in the log after the base snapshot
+    seq: number | null;
+}
+
+// Map of roomId -> room in memory
+const rooms = new Map<string, LoadedRoom>();
+
+// Map of roomId -> metadata, cached only for rooms loaded here (dropped when they
+// unload). Other IDs are read from storage each time: unknown ones mustn't pile up,
+// and another node's rooms can be deleted or revived by their owner.
+const metadata = new Map<string, Promise<RoomMetadata | null>>();
+
+// Helper to get or create state for a room.
+// Use openRoom instead for connections, so the room isn't unloaded under them.
+export function getRoomState(roomId: string): Promise<DrawingState> {
+    return useRoom(roomId).state;
+}
+
+/**
+ * Like getRoomState, but never creates a room: reading an unknown ID doesn't
+ * leave an empty room behind in memory.
+ * @returns The state, or null if the room doesn't exist (nothing stored and not in memory).
+ */
+export async function findRoomState(roomId: string): Promise<DrawingState | null> {
+    if (!rooms.has(roomId) && !(await findStoredRoom(roomId))) return null;
+    return getRoomState(roomId);
+}
+
+/**
+ * Loads a room for a connection and keeps it in memory until `closeRoom`.
+ */
+export function openRoom(roomId: string): Promise<DrawingState> {
+    const room = useRoom(roomId);
+    room.connections++;
+    return room.state;
+}
+
+/**
+ * Undoes `openRoom`. Takes the state the connection got, so a connection to a
+ * room that has since been reloaded or deleted doesn't count against the new one.
+ */
+export function closeRoom(roomId: string, state: Promise<DrawingState>) {
+    const room = rooms.get(roomId);
+    if (!room || room.state !== state) return;
+
+    room.connections = Math.max(0, room.connections - 1);
+    room.lastUsed = Date.now();
+}
+
+// Connections holding the room open (0 if it isn't loaded)
+export function getConnectionCount(roomId: string): number {
+    return rooms.get(roomId)?.connections ?? 0;
+}
+
+// Metadata for a room, or null if it was never created through the API (an open room)
+export function getRoomMetadata(roomId: string): Promise<RoomMetadata | null> {
+    const cached = metadata.get(roomId);
+    if (cached) return cached;
+
+    const meta = storage.loadMetadata(roomId);
+    meta.then((found) => {
+        // Misses (open rooms, unknown IDs) aren't kept
+        if (found && rooms.has(roomId) && !metadata.has(roomId)) metadata.set(roomId, meta);
+    }, () => undefined);
+    return meta;
+}
+
+// Creates a secured room with a fresh, unguessable ID
+export async function createRoom(): Promise<{ roomId: string, metadata: RoomMetadata }> {
+    const roomId = randomUUID();
+    const meta: RoomMetadata = { createdAt: Date.now(), secured: true };
+
+    await storage.saveMetadata(roomId, meta);
+    return { roomId, metadata: meta };
+}
+
+/**
+ * @param fold Whether to replay a room that isn't loaded to count its contents.
+ *             Listings don't: that would read every room's history.
+ * @returns The room's summary, or null if the room doesn't exist (nothing stored and not in memory).
+ */
+export async function getRoomSummary(roomId: string, fold: boolean): Promise<RoomSummary | null> {
+    const stored = await findStoredRoom(roomId);
+    const room = rooms.get(roomId);
+    if (!stored && !room) return null;
+
+    // A replayed room isn't kept, so reading it doesn't load it
+    const state = room ? await room.state : fold ? await replayRoom(roomId) : null;
+    const meta = await getRoomMetadata(roomId);
+
+    return {
+        roomId,
+        secured: meta?.secured ?? false,
+        createdAt: meta?.createdAt ?? null,
+        updatedAt: stored?.updatedAt ?? null,
+        loaded: room !== undefined,
+        connections: room?.connections ?? 0,
+        strokes: state?.computeVisibleStrokes().length ?? null,
+        operations: state?.getSnapshot().length ?? null,
+        seq: state?.getHeadSeq() ?? null
+    };
+}
+
+/**
+ * Every room in storage or loaded here, sorted.
+ */
+export async function listRoomIds(): Promise<string[]> {
+    const roomIds = new Set(rooms.keys());
+    for (const stored of await storage.list()) {
+        if (!(await isDeleted(stored.roomId))) roomIds.add(stored.roomId);
     }
-    return rooms.get(roomId)!;
+    return [...roomIds].sort();
+}
+
+/**
+ * Empties a room's board and history (see DrawingState.clear).
+ * @returns The cleared state, or null if the room doesn't exist.
+ */
+export async function clearRoom(roomId: string): Promise<DrawingState | null> {
+    if (!rooms.has(roomId) && !(await findStoredRoom(roomId))) return null;
+
+    const state = await getRoomState(roomId);
+    state.clear();
+    return state;
+}
+
+/**
+ * Forgets a room: unloads it and deletes its history and metadata.
+ * A secured room keeps its metadata, marked deleted, so its ID can't be reopened
+ * as an open room: only a token for it brings the (empty) room back.
+ * Close its connections first, or they keep writing to the deleted room.
+ * @returns False if the room didn't exist.
+ */
+export async function deleteRoom(roomId: string): Promise<boolean> {
+    const existed = rooms.delete(roomId) || (await findStoredRoom(roomId)) !== null;
+    const meta = await getRoomMetadata(roomId);
+    metadata.delete(roomId);
+    await storage.delete(roomId);
+
+    if (meta?.secured) {
+        const tombstone: RoomMetadata = { ...meta, deletedAt: meta.deletedAt ?? Date.now() };
+        await storage.saveMetadata(roomId, tombstone);
+    }
+    return existed;
+}
+
+/**
+ * What storage holds for a room, or null if nothing, or only a deleted room's metadata.
+ */
+async function findStoredRoom(roomId: string): Promise<StoredRoom | null> {
+    const stored = await storage.stat(roomId);
+    return stored && !(await isDeleted(roomId)) ? stored : null;
+}
+
+async function isDeleted(roomId: string): Promise<boolean> {
+    return (await getRoomMetadata(roomId))?.deletedAt !== undefined;
+}
+
+function useRoom(roomId: string): LoadedRoom {
+    let room = rooms.get(roomId);
+    if (!room) {
+        const loaded: LoadedRoom = { state: loadRoom(roomId), connections: 0, lastUsed: Date.now() };
+        rooms.set(roomId, loaded);
+
+        // Don't cache failures; the next connection should retry the load.
+        loaded.state.catch(() => {
+            if (rooms.get(roomId) === loaded) {
+                rooms.delete(roomId);
+                metadata.delete(roomId);
+            }
+        });
+        room = loaded;
+    }
+    room.lastUsed = Date.now();
+    return room;
+}
+
+// Rehydrates a room from storage and wires it to persist future mutations
+async function loadRoom(roomId: string): Promise<DrawingState> {
+    const state = await replayRoom(roomId, (event) => {
+        storage.append(roomId, event).catch((err) => {
+            console.error(`Failed to persist event for room ${roomId}:`, err);
+        });
+    });
+
+    if (state.getHeadSeq() > 0) {
+        console.log(`Restored room ${roomId} up to seq ${state.getHeadSeq()}`);
+    }
+
+    // Someone with a token opened a deleted secured room: it exists again, empty
+    const meta = await getRoomMetadata(roomId);
+    if (meta?.deletedAt !== undefined) {
+        const { deletedAt: _deletedAt, ...revived } = meta;
+        await storage.saveMetadata(roomId, revived);
+        metadata.set(roomId, Promise.resolve(revived));
+    }
+    return state;
+}
+
+// Rebuilds a room's state from its stored events
+async function replayRoom(roomId: string, onEvent?: (event: HistoryEvent) => void): Promise<DrawingState> {
+    const events = await storage.load(roomId);
+
+    const state = new DrawingState(onEvent, compaction);
+    for (const event of events) {
+        state.replay(event);
+    }
+    return state;
+}
+
+// ==========================================
+// Idle Unloading & Expiry
+// ==========================================
+
+async function sweep(owns: (roomId: string) => boolean, now: number = Date.now()) {
+    for (const [roomId, room] of rooms) {
+        if (room.connections === 0 && now - room.lastUsed >= IDLE_TIMEOUT_MS) {
+            rooms.delete(roomId);
+            metadata.delete(roomId);
+            console.log(`Unloaded idle room ${roomId}`);
+        }
+    }
+
+    if (TTL_MS > 0) {
+        for (const stored of await storage.list()) {
+            // Storage is shared, but only the owner knows whether a room is in use: it holds
+            // every room with connections, on any node. Rooms in memory were used recently;
+            // deleted ones are gone already.
+            if (!owns(stored.roomId) || rooms.has(stored.roomId) || now - stored.updatedAt < TTL_MS ||
+                await isDeleted(stored.roomId)) continue;
+
+            await deleteRoom(stored.roomId);
+            console.log(`Deleted expired room ${stored.roomId}`);
+        }
+    }
+}
+
+/**
+ * Starts unloading idle rooms and, with ROOM_TTL, expiring the rooms this node owns.
+ * Doesn't keep the process alive on its own.
+ *
+ * @param owns Whether this node owns a room (see cluster.ts).
+ */
+export function startSweep(owns: (roomId: string) => boolean) {
+    setInterval(() => {
+        sweep(owns).catch((err) => console.error('Room sweep failed:', err));
+    }, SWEEP_INTERVAL_MS).unref();
+}
+
+function readSeconds(name: string, fallback: number): number {
+    const value = Number(process.env[name]);
+    return (process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback) * 1000;
 }
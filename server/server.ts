@@ -1,259 +1,638 @@
 import express from 'express';
 import http from 'http';
+import { randomUUID } from 'crypto';
 import { Server, Socket } from 'socket.io';
 import {
     ClientMessage,
     ClientMessageType,
     ServerMessageType,
     ServerMessage,
-    Point,
-    Stroke,
-    ClientCanvasOperation
+    HandshakeAuth,
+    ServerErrorCode,
+    DisconnectReason,
+    Role
 } from '../shared/types';
+import { createStrokeDocument, createSvgDocument } from '../shared/export';
+import { ImportError, parseImportDocument } from '../shared/import';
+import { canSend, hasRole, isRole } from '../shared/roles';
+import { ValidationError, getSubjectId, validateClientMessage } from '../shared/validation';
 
 // ==========================================
 // 1. Server Setup
 // ==========================================
 
 import cors from 'cors';
+import { ClusterNode, ClusterNodeConfig, ClusterTransport, SocketIoTransport, createTransportAdapter, loadClusterConfig } from './cluster';
+import { RoomRequests, getActiveStrokeCount, registerRoomOwner } from './room-owner';
+import { RoomSummary, createRoom, listRoomIds, startSweep } from './rooms';
+import { isAdmin, isAdminEnabled, resolveRole, signAccessToken, signUserToken, verifyUserToken } from './auth';
+import { LIMITS, MessageThrottle, releaseRoom } from './rate-limit';
+import { getCounters, increment } from './metrics';
+
+/**
+ * The HTTP API of one node. Routes that read or change a room are sent to the
+ * room's owner (see cluster.ts); the rest are answered here.
+ */
+function createApp(node: ClusterNode<RoomRequests>, getConnections: () => number) {
+    const app = express();
+    app.use(cors()); // Enable CORS for all routes
+
+    // Health check endpoint
+    app.get('/health', (_req, res) => {
+        res.json({ status: 'ok', node: node.nodeId, timestamp: Date.now() });
+    });
 
-const app = express();
-app.use(cors()); // Enable CORS for all routes
+    // Room administration
+    // Lists, inspects, clears and deletes rooms. Needs `Authorization: Bearer <ADMIN_TOKEN>`;
+    // without ADMIN_TOKEN the routes are disabled.
+    // One room at a time, from storage stats and metadata: only loaded rooms report their contents
+    app.get('/rooms', requireAdmin, async (_req, res) => {
+        try {
+            const summaries: RoomSummary[] = [];
+            for (const roomId of await listRoomIds()) {
+                try {
+                    const summary = await node.request(roomId, 'summary', { roomId, fold: false });
+                    if (summary) summaries.push(summary);
+                } catch (err) {
+                    // One unreadable room doesn't hide the others
+                    console.error(`Reading room ${roomId} failed:`, err);
+                }
+            }
+            res.json({ rooms: summaries });
+        } catch (err) {
+            console.error('Listing rooms failed:', err);
+            res.status(500).json({ error: 'Listing rooms failed' });
+        }
+    });
 
-// Health check endpoint
-app.get('/health', (_req, res) => {
-    res.json({ status: 'ok', timestamp: Date.now() });
-});
+    app.get('/rooms/:roomId', requireAdmin, async (req, res) => {
+        const roomId = req.params.roomId;
+        try {
+            const summary = await node.request(roomId, 'summary', { roomId, fold: true });
+            if (!summary) {
+                res.status(404).json({ error: 'Room not found' });
+                return;
+            }
+            res.json(summary);
+        } catch (err) {
+            console.error(`Reading room ${roomId} failed:`, err);
+            res.status(500).json({ error: 'Reading room failed' });
+        }
+    });
 
-const server = http.createServer(app);
-const io = new Server(server, {
-    cors: {
-        origin: "*", // Allow all origins for this demo
-        methods: ["GET", "POST"]
-    }
-});
+    // Empties the board for everyone; connected clients get a fresh full SYNC
+    app.post('/rooms/:roomId/clear', requireAdmin, async (req, res) => {
+        const roomId = req.params.roomId;
+        try {
+            const cleared = await node.request(roomId, 'clear', { roomId });
+            if (!cleared) {
+                res.status(404).json({ error: 'Room not found' });
+                return;
+            }
+            res.json({ roomId, seq: cleared.seq });
+        } catch (err) {
+            console.error(`Clearing room ${roomId} failed:`, err);
+            res.status(500).json({ error: 'Clearing room failed' });
+        }
+    });
 
-// ==========================================
-// 2. State Management
-// ==========================================
+    // Disconnects everyone in the room, then deletes its history and metadata
+    app.delete('/rooms/:roomId', requireAdmin, async (req, res) => {
+        const roomId = req.params.roomId;
+        try {
+            if (!(await node.request(roomId, 'delete', { roomId }))) {
+                res.status(404).json({ error: 'Room not found' });
+                return;
+            }
+            res.status(204).end();
+        } catch (err) {
+            console.error(`Deleting room ${roomId} failed:`, err);
+            res.status(500).json({ error: 'Deleting room failed' });
+        }
+    });
+
+    // Metrics: this node's connections, the limits in force, and counters of accepted and refused messages
+    app.get('/metrics', (_req, res) => {
+        res.json({
+            timestamp: Date.now(),
+            node: node.nodeId,
+            connections: getConnections(),
+            activeStrokes: getActiveStrokeCount(),
+            limits: LIMITS,
+            counters: getCounters()
+        });
+    });
+
+    // Rooms
+    // Creates a secured room. The response carries the owner's token; keep it,
+    // it is the only way to mint share links for the room.
+    app.post('/rooms', async (_req, res) => {
+        try {
+            const { roomId } = await createRoom();
+            const token = signAccessToken({ roomId, role: 'owner', expiresAt: null });
+
+            res.status(201).json({ roomId, role: 'owner', token, link: createShareLink(roomId, token) });
+        } catch (err) {
+            console.error('Room creation failed:', err);
+            res.status(500).json({ error: 'Room creation failed' });
+        }
+    });
+
+    // Share links
+    // The owner mints a token for a role; whoever opens the link joins with it.
+    // Body: { role: 'owner' | 'editor' | 'viewer', expiresIn?: seconds }
+    app.post('/rooms/:roomId/share', express.json(), requireRole('owner'), (req, res) => {
+        const roomId = req.params.roomId;
+        const { role, expiresIn } = (req.body ?? {}) as { role?: unknown, expiresIn?: unknown };
+
+        if (!isRole(role)) {
+            res.status(400).json({ error: 'role must be owner, editor or viewer' });
+            return;
+        }
+        if (expiresIn !== undefined && (typeof expiresIn !== 'number' || !(expiresIn > 0))) {
+            res.status(400).json({ error: 'expiresIn must be a positive number of seconds' });
+            return;
+        }
+
+        const expiresAt = expiresIn !== undefined ? Date.now() + expiresIn * 1000 : null;
+        const token = signAccessToken({ roomId, role, expiresAt });
+        res.status(201).json({ role, token, expiresAt, link: createShareLink(roomId, token) });
+    });
+
+    // Board export
+    // Lets boards be embedded in docs and tickets, e.g. <img src=".../rooms/abc/export.svg">.
+    // `?background=transparent` drops the default white fill (SVG only).
+    // Secured rooms need a token, e.g. `?token=` with a viewer's token for an embed.
+    app.get('/rooms/:roomId/export.svg', requireRole('viewer'), async (req, res) => {
+        const roomId = req.params.roomId;
+        try {
+            const objects = await node.request(roomId, 'export', { roomId });
+            if (!objects) {
+                res.status(404).json({ error: 'Room not found' });
+                return;
+            }
+            const background = typeof req.query.background === 'string' ? req.query.background : '#ffffff';
+
+            res.type('image/svg+xml');
+            res.set('Cache-Control', 'no-cache');
+            res.send(createSvgDocument(objects, {
+                background: background === 'transparent' ? undefined : background
+            }));
+        } catch (err) {
+            console.error(`SVG export failed for room ${roomId}:`, err);
+            res.status(500).json({ error: 'Export failed' });
+        }
+    });
+
+    app.get('/rooms/:roomId/export.json', requireRole('viewer'), async (req, res) => {
+        const roomId = req.params.roomId;
+        try {
+            const objects = await node.request(roomId, 'export', { roomId });
+            if (!objects) {
+                res.status(404).json({ error: 'Room not found' });
+                return;
+            }
+
+            res.set('Cache-Control', 'no-cache');
+            res.json(createStrokeDocument(objects));
+        } catch (err) {
+            console.error(`JSON export failed for room ${roomId}:`, err);
+            res.status(500).json({ error: 'Export failed' });
+        }
+    });
+
+    // Board import
+    // Seeds a room from a template or a previous export (JSON stroke document or SVG).
+    // The body is the raw document. Strokes are committed as one batch, so a single
+    // undo by the importing user (see getAuthorId) removes the whole import.
+    app.post('/rooms/:roomId/import', requireRole('editor'), express.text({ type: '*/*', limit: '10mb' }), async (req, res) => {
+        const roomId = req.params.roomId;
+        const authorId = getAuthorId(req, 'import');
+
+        try {
+            // Parsed here, so the owner only gets well-formed objects
+            const objects = parseImportDocument(typeof req.body === 'string' ? req.body : '');
+            const imported = await node.request(roomId, 'import', { roomId, objects, authorId });
+            if (!imported.ok) {
+                if (imported.reason === 'LOCKED') {
+                    res.status(423).json({ error: 'Some objects are on a locked layer' });
+                } else {
+                    res.status(413).json({ error: `Room history is full (max ${LIMITS.maxRoomHistory})` });
+                }
+                return;
+            }
+            const { ok: _ok, ...result } = imported;
+            res.status(201).json(result);
+        } catch (err) {
+            if (err instanceof ImportError) {
+                res.status(400).json({ error: err.message });
+                return;
+            }
+            console.error(`Import failed for room ${roomId}:`, err);
+            res.status(500).json({ error: 'Import failed' });
+        }
+    });
+
+    // Checkpoints
+    // Named versions of the board. Viewers can list and preview them; editors save,
+    // delete and restore. A restore is committed as one batch, so the restoring user
+    // (see getAuthorId) can undo it in one step.
+    app.get('/rooms/:roomId/checkpoints', requireRole('viewer'), async (req, res) => {
+        const roomId = req.params.roomId;
+        try {
+            const checkpoints = await node.request(roomId, 'checkpoints', { roomId });
+            if (!checkpoints) {
+                res.status(404).json({ error: 'Room not found' });
+                return;
+            }
+            res.json({ checkpoints });
+        } catch (err) {
+            console.error(`Listing checkpoints failed for room ${roomId}:`, err);
+            res.status(500).json({ error: 'Listing checkpoints failed' });
+        }
+    });
+
+    // Body: { name }
+    app.post('/rooms/:roomId/checkpoints', express.json(), requireRole('editor'), async (req, res) => {
+        const roomId = req.params.roomId;
+        const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+        if (!name || name.length > MAX_CHECKPOINT_NAME_LENGTH) {
+            res.status(400).json({ error: `name must be 1 to ${MAX_CHECKPOINT_NAME_LENGTH} characters` });
+            return;
+        }
+
+        try {
+            const saved = await node.request(roomId, 'saveCheckpoint', { roomId, name, authorId: getAuthorId(req, 'checkpoint') });
+            if (!saved.ok) {
+                if (saved.reason === 'NOT_FOUND') {
+                    res.status(404).json({ error: 'Room not found' });
+                } else {
+                    res.status(409).json({ error: `Room has too many checkpoints (max ${LIMITS.maxCheckpoints})` });
+                }
+                return;
+            }
+            res.status(201).json(saved.checkpoint);
+        } catch (err) {
+            console.error(`Saving a checkpoint failed for room ${roomId}:`, err);
+            res.status(500).json({ error: 'Saving the checkpoint failed' });
+        }
+    });
+
+    // The checkpoint with its objects, for a preview
+    app.get('/rooms/:roomId/checkpoints/:checkpointId', requireRole('viewer'), async (req, res) => {
+        const { roomId, checkpointId } = req.params;
+        try {
+            const checkpoint = await node.request(roomId, 'checkpoint', { roomId, checkpointId });
+            if (!checkpoint) {
+                res.status(404).json({ error: 'Checkpoint not found' });
+                return;
+            }
+            res.json(checkpoint);
+        } catch (err) {
+            console.error(`Reading checkpoint ${checkpointId} failed for room ${roomId}:`, err);
+            res.status(500).json({ error: 'Reading the checkpoint failed' });
+        }
+    });
+
+    app.delete('/rooms/:roomId/checkpoints/:checkpointId', requireRole('editor'), async (req, res) => {
+        const { roomId, checkpointId } = req.params;
+        try {
+            if (!(await node.request(roomId, 'deleteCheckpoint', { roomId, checkpointId }))) {
+                res.status(404).json({ error: 'Checkpoint not found' });
+                return;
+            }
+            res.status(204).end();
+        } catch (err) {
+            console.error(`Deleting checkpoint ${checkpointId} failed for room ${roomId}:`, err);
+            res.status(500).json({ error: 'Deleting the checkpoint failed' });
+        }
+    });
+
+    app.post('/rooms/:roomId/checkpoints/:checkpointId/restore', requireRole('editor'), async (req, res) => {
+        const { roomId, checkpointId } = req.params;
+        try {
+            const restored = await node.request(roomId, 'restoreCheckpoint', { roomId, checkpointId, authorId: getAuthorId(req, 'checkpoint') });
+            if (!restored.ok) {
+                if (restored.reason === 'NOT_FOUND') {
+                    res.status(404).json({ error: 'Checkpoint not found' });
+                } else {
+                    res.status(413).json({ error: `Room history is full (max ${LIMITS.maxRoomHistory})` });
+                }
+                return;
+            }
+            const { ok: _ok, ...result } = restored;
+            res.status(201).json(result);
+        } catch (err) {
+            console.error(`Restoring checkpoint ${checkpointId} failed for room ${roomId}:`, err);
+            res.status(500).json({ error: 'Restoring the checkpoint failed' });
+        }
+    });
 
-import { getRoomState } from './rooms';
+    return app;
+}
+
+const MAX_CHECKPOINT_NAME_LENGTH = 100;
 
-// Buffer for active strokes being streamed.
-// We need this to reconstruct the full Stroke object when STROKE_END arrives.
-// Key: socketId -> Partial Stroke Data
-interface ActiveStrokeBuffer {
-    id: string;
-    color: string;
-    size: number;
-    points: Point[];
+// Who an HTTP change is attributed to, so they can undo it: the user proven by the
+// `X-User-Token` header (see S_IDENTITY), or `fallback`, which no user can undo as
+function getAuthorId(req: express.Request, fallback: string): string {
+    return verifyUserToken(req.get('x-user-token')) ?? fallback;
 }
-const activeStrokes = new Map<string, ActiveStrokeBuffer>();
 
 // ==========================================
-// 3. Socket.io Logic
+// 2. Access Control
 // ==========================================
 
-io.on('connection', (socket: Socket) => {
-    console.log(`Client connected: ${socket.id}`);
+// Where the web client lives, for share links
+const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:1234';
+
+function createShareLink(roomId: string, token: string): string {
+    return `${CLIENT_URL}/?roomId=${encodeURIComponent(roomId)}&token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Express middleware: lets a request through only with at least `required`
+ * in its room. The token comes from `Authorization: Bearer <token>`, or from
+ * `?token=` where headers can't be set (an <img> embed).
+ */
+function requireRole(required: Role): express.RequestHandler {
+    return (req, res, next) => {
+        resolveRole(req.params.roomId, getRequestToken(req)).then((role) => {
+            if (!role) {
+                res.status(401).json({ error: 'A valid access token is required' });
+            } else if (!hasRole(role, required)) {
+                res.status(403).json({ error: `This needs the ${required} role` });
+            } else {
+                res.locals.role = role;
+                next();
+            }
+        }).catch(next);
+    };
+}
 
-    // 3.1. Handshake & Room Join
-    // Client MUST provide roomId in query params
-    const roomId = socket.handshake.query.roomId as string;
-    if (!roomId) {
-        console.error(`Socket ${socket.id} missing roomId, disconnecting.`);
-        socket.disconnect();
+/**
+ * Express middleware for the room admin routes (see isAdmin).
+ */
+function requireAdmin(req: express.Request, res: express.Response, next: express.NextFunction) {
+    if (!isAdminEnabled()) {
+        res.status(403).json({ error: 'Room administration is disabled; set ADMIN_TOKEN to enable it' });
+        return;
+    }
+    if (!isAdmin(getRequestToken(req))) {
+        res.status(401).json({ error: 'A valid admin token is required' });
         return;
     }
+    next();
+}
 
-    socket.join(roomId);
-    const state = getRoomState(roomId);
+function getRequestToken(req: express.Request): unknown {
+    const header = req.get('authorization');
+    return header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : req.query.token;
+}
 
-    // 3.2. Initial Sync
-    // Send the full authoritative history to the new client
-    const syncMsg: ServerMessage = {
-        type: ServerMessageType.SYNC,
+/**
+ * Tells a client why, then closes its connection. Socket.io doesn't reconnect
+ * after a server-side disconnect, so the client stays away until it reloads.
+ */
+function disconnectWithReason(socket: Socket, roomId: string, reason: DisconnectReason, message: string) {
+    const msg: ServerMessage = {
+        type: ServerMessageType.DISCONNECT,
         roomId,
-        operations: state.getSnapshot()
+        reason,
+        message
     };
-    socket.emit('message', syncMsg);
+    socket.emit('message', msg);
+    socket.disconnect(true);
+    increment('disconnects', reason);
+}
 
-    // 3.3. Message Handling
-    socket.on('message', (msg: ClientMessage) => {
-        // Defensive check: Ensure message belongs to the joined room
-        if (msg.roomId !== roomId) {
-            console.warn(`Socket ${socket.id} sent message for wrong room ${msg.roomId}`);
+// ==========================================
+// 3. Socket.io Logic
+// ==========================================
+
+/**
+ * The connection's side of a room: everything that can be decided without the
+ * room's state (validation, roles, rate limits) is decided here, on the node
+ * the client is connected to. The rest goes to the room's owner (see room-owner.ts).
+ */
+function attachSocketHandlers(io: Server, node: ClusterNode<RoomRequests>) {
+    // Access control runs in the handshake, before a connection joins anything.
+    // The role is kept on the socket for the connection handler to enforce.
+    io.use((socket, next) => {
+        // Who the connection is: the user its token proves, or a new one.
+        // Never a client-chosen ID, or anyone could undo someone else's work.
+        const auth = socket.handshake.auth as Partial<HandshakeAuth>;
+        socket.data.userId = verifyUserToken(auth.userToken) ?? randomUUID();
+
+        const roomId = socket.handshake.query.roomId;
+        if (typeof roomId !== 'string' || !roomId) {
+            next(); // Disconnected in the connection handler
             return;
         }
 
-        switch (msg.type) {
-            // --- Streaming Drawing Events ---
-
-            case ClientMessageType.STROKE_START: {
-                // Key by socketId AND strokeId to handle overlapping strokes or race conditions
-                const bufferKey = `${socket.id}:${msg.id}`;
-
-                // Initialize buffer for this user's stroke
-                activeStrokes.set(bufferKey, {
-                    id: msg.id,
-                    color: msg.color,
-                    size: msg.size,
-                    points: [msg.startPoint]
-                });
-
-                // Broadcast start to others (for real-time visual)
-                const broadcastMsg: ServerMessage = {
-                    type: ServerMessageType.BROADCAST_STROKE_START,
-                    roomId,
-                    userId: socket.id,
-                    id: msg.id,
-                    color: msg.color,
-                    size: msg.size,
-                    startPoint: msg.startPoint
-                };
-                socket.to(roomId).emit('message', broadcastMsg);
-                break;
+        resolveRole(roomId, auth.token).then((role) => {
+            if (!role) {
+                increment('disconnects', 'UNAUTHORIZED');
+                // Socket.io hands `data` to the client's connect_error handler
+                const err = new Error('This room needs a valid invite link') as Error & { data?: unknown };
+                err.data = { reason: 'UNAUTHORIZED' satisfies DisconnectReason };
+                next(err);
+                return;
             }
+            socket.data.role = role;
+            next();
+        }).catch((err) => {
+            console.error(`Failed to check access to room ${roomId}:`, err);
+            next(new Error('Room unavailable'));
+        });
+    });
 
-            case ClientMessageType.STROKE_MOVE: {
-                // Use composite key
-                const bufferKey = `${socket.id}:${msg.id}`;
-                const buffer = activeStrokes.get(bufferKey);
+    io.on('connection', (socket: Socket) => {
+        console.log(`Client connected to ${node.nodeId}: ${socket.id}`);
 
-                // Defensive validation for stroke event order
-                if (!buffer) {
-                    console.warn(`Socket ${socket.id} sent STROKE_MOVE for unknown stroke ${msg.id}`);
-                    return; // Gracefully ignore
-                }
+        // 3.1. Handshake & Room Join
+        // Client MUST provide roomId in query params
+        const roomId = socket.handshake.query.roomId as string;
+        if (!roomId) {
+            console.error(`Socket ${socket.id} missing roomId, disconnecting.`);
+            socket.disconnect();
+            return;
+        }
 
-                buffer.points.push(...msg.points);
-
-                // Broadcast move to others
-                const broadcastMsg: ServerMessage = {
-                    type: ServerMessageType.BROADCAST_STROKE_MOVE,
-                    roomId,
-                    userId: socket.id,
-                    id: msg.id,
-                    points: msg.points
-                };
-                socket.to(roomId).emit('message', broadcastMsg);
-                break;
+        // Stable user identity, assigned by the handshake middleware above and kept by the
+        // client. It survives reconnects (unlike socket.id), so users can still undo
+        // their own strokes after a refresh.
+        const userId = socket.data.userId as string;
+        const identity: ServerMessage = {
+            type: ServerMessageType.IDENTITY,
+            roomId,
+            userId,
+            userToken: signUserToken(userId)
+        };
+        socket.emit('message', identity);
+
+        // Resolved by the handshake middleware above
+        const role = socket.data.role as Role;
+
+        // Joined before the owner hears of the connection, so its broadcasts reach this socket
+        socket.join(roomId);
+
+        // 3.2. Presence & Initial Sync
+        // The owner sends the roster and the SYNC, or refuses a full room.
+        // A reconnecting client tells us the last seq it applied; it only needs what came after.
+        const auth = socket.handshake.auth as Partial<HandshakeAuth>;
+        node.request(roomId, 'join', {
+            roomId,
+            socketId: socket.id,
+            userId,
+            role,
+            name: auth.name,
+            lastSeq: Number(auth.lastSeq) || 0
+        }).then((joined) => {
+            if (!joined.ok) {
+                disconnectWithReason(socket, roomId, joined.reason, joined.message);
             }
-
-            case ClientMessageType.STROKE_END: {
-                // Use composite key
-                const bufferKey = `${socket.id}:${msg.id}`;
-                const buffer = activeStrokes.get(bufferKey);
-
-                // Defensive validation for stroke event order
-                if (!buffer) {
-                    console.warn(`Socket ${socket.id} sent STROKE_END for unknown stroke ${msg.id}`);
-                    return; // Gracefully ignore
-                }
-
-                // 1. Construct the full Stroke object
-                const stroke: Stroke = {
-                    id: buffer.id,
-                    color: buffer.color,
-                    size: buffer.size,
-                    points: buffer.points
-                };
-
-                // 2. Create the Client Operation
-                const op: ClientCanvasOperation = {
-                    id: msg.id, // Use stroke ID as op ID for simplicity, or generate new UUID
-                    type: 'ADD_STROKE',
-                    stroke: stroke
-                };
-
-                // 3. Commit to Authoritative State
-                const serverOp = state.pushOperation(op);
-
-                // 4. Broadcast the Authoritative Operation (with SEQ)
-                // This tells clients: "This stroke is now officially part of history"
-                const opMsg: ServerMessage = {
-                    type: ServerMessageType.BROADCAST_OPERATION,
-                    roomId,
-                    operation: serverOp
-                };
-                io.to(roomId).emit('message', opMsg);
-
-                // 5. Broadcast End (to stop the streaming visual)
-                const endMsg: ServerMessage = {
-                    type: ServerMessageType.BROADCAST_STROKE_END,
-                    roomId,
-                    userId: socket.id,
-                    id: msg.id
-                };
-                socket.to(roomId).emit('message', endMsg);
-
-                // 6. Cleanup buffer
-                activeStrokes.delete(bufferKey);
-                break;
+        }).catch((err) => {
+            console.error(`Joining room ${roomId} failed, disconnecting ${socket.id}:`, err);
+            socket.disconnect();
+        });
+
+        // Tells the sender one of its messages was rejected (nothing from it was stored or broadcast)
+        const sendError = (code: ServerErrorCode, message: string, rejectedType: string | null, id?: string) => {
+            const errorMsg: ServerMessage = {
+                type: ServerMessageType.ERROR,
+                roomId,
+                code,
+                message,
+                rejectedType,
+                id
+            };
+            socket.emit('message', errorMsg);
+            increment('errors', code);
+        };
+
+        // Refused and invalid messages count against the connection; too many and it is dropped
+        const throttle = new MessageThrottle(roomId);
+        const strike = () => {
+            if (throttle.strike()) {
+                console.warn(`Socket ${socket.id} sent too many refused messages, disconnecting`);
+                disconnectWithReason(socket, roomId, 'RATE_LIMITED', 'Too many messages were refused. Reload to reconnect.');
             }
-
-            // --- Undo/Redo ---
-
-            case ClientMessageType.UNDO: {
-                const undoneOp = state.undo();
-                if (undoneOp) {
-                    // Broadcast the full undone operation so clients know what to remove
-                    const undoMsg: ServerMessage = {
-                        type: ServerMessageType.BROADCAST_UNDO,
-                        roomId,
-                        operation: undoneOp
-                    };
-                    io.to(roomId).emit('message', undoMsg);
+        };
+
+        // 3.3. Message Handling
+        socket.on('message', (raw: unknown) => {
+            // Nothing from the client is trusted until it has been checked against the protocol
+            let msg: ClientMessage;
+            try {
+                msg = validateClientMessage(raw);
+            } catch (err) {
+                // A bug in the validator; throwing here would only be an unhandled error
+                if (!(err instanceof ValidationError)) {
+                    console.error(`Validating a message from ${socket.id} failed:`, err);
+                    sendError('SERVER_ERROR', 'The server could not handle this message', null);
+                    return;
                 }
-                break;
+                console.warn(`Socket ${socket.id} sent an invalid ${err.messageType ?? 'message'}: ${err.message}`);
+                sendError(err.code, err.message, err.messageType, err.subjectId);
+                strike();
+                return;
             }
-            case ClientMessageType.REDO: {
-                const redoneOp = state.redo();
-                if (redoneOp) {
-                    const redoMsg: ServerMessage = {
-                        type: ServerMessageType.BROADCAST_REDO,
-                        roomId,
-                        operation: redoneOp
-                    };
-                    io.to(roomId).emit('message', redoMsg);
-                }
-                break;
+
+            // Defensive check: Ensure message belongs to the joined room
+            if (msg.roomId !== roomId) {
+                console.warn(`Socket ${socket.id} sent message for wrong room ${msg.roomId}`);
+                sendError('INVALID_MESSAGE', `Connected to room ${roomId}, not ${msg.roomId}`, msg.type);
+                strike();
+                return;
             }
 
-            // --- Cursor ---
-
-            case ClientMessageType.CURSOR_MOVE: {
-                const cursorMsg: ServerMessage = {
-                    type: ServerMessageType.BROADCAST_CURSOR,
-                    roomId,
-                    userId: socket.id,
-                    x: msg.x,
-                    y: msg.y,
-                    color: '#000000' // In a real app, we'd store user profiles
-                };
-                socket.to(roomId).emit('message', cursorMsg);
-                break;
+            // Viewers may only move their cursor and set their name (see shared/roles.ts)
+            if (!canSend(role, msg.type)) {
+                sendError('FORBIDDEN', `A ${role} can't send ${msg.type}`, msg.type, getSubjectId(msg));
+                strike();
+                return;
             }
-        }
-    });
 
-    // 3.4. Disconnect Handling
-    socket.on('disconnect', () => {
-        console.log(`Client disconnected: ${socket.id}`);
-        // Cleanup all active strokes for this user
-        for (const key of activeStrokes.keys()) {
-            if (key.startsWith(`${socket.id}:`)) {
-                activeStrokes.delete(key);
+            // Rate limits come before any work is done for the message
+            const limitedBy = throttle.take(msg.type);
+            if (limitedBy) {
+                increment(limitedBy === 'socket' ? 'rateLimitedBySocket' : 'rateLimitedByRoom', msg.type);
+                // The next cursor position supersedes a dropped one; don't answer each of them
+                if (msg.type !== ClientMessageType.CURSOR_MOVE) {
+                    const reason = limitedBy === 'socket' ? 'Too many messages' : 'The room is too busy';
+                    sendError('RATE_LIMITED', `${reason}, try again shortly`, msg.type, getSubjectId(msg));
+                }
+                // A busy room isn't this connection's fault
+                if (limitedBy === 'socket') strike();
+                return;
             }
-        }
+            increment('messages', msg.type);
+
+            // The owner applies it and broadcasts the result (or sends back an ERROR)
+            node.request(roomId, 'message', { socketId: socket.id, msg }).catch((err) => {
+                console.error(`Room ${roomId} failed to handle ${msg.type} from ${socket.id}:`, err);
+                sendError('SERVER_ERROR', 'The server could not handle this message', msg.type, getSubjectId(msg));
+            });
+        });
+
+        // 3.4. Disconnect Handling
+        socket.on('disconnect', () => {
+            console.log(`Client disconnected from ${node.nodeId}: ${socket.id}`);
+
+            node.request(roomId, 'leave', { socketId: socket.id }).catch((err) => {
+                console.error(`Leaving room ${roomId} failed for ${socket.id}:`, err);
+            });
+            if (!io.sockets.adapter.rooms.has(roomId)) {
+                releaseRoom(roomId);
+            }
+        });
     });
-});
+}
 
 // ==========================================
 // 4. Start Server
 // ==========================================
 
-const PORT = process.env.PORT || 3000;
-server.listen(PORT, () => {
-    console.log(`Server running on port ${PORT}`);
-});
+/**
+ * Starts this process's cluster member: its HTTP API and Socket.io server on
+ * `config.port`, serving the rooms it owns and routing the rest to their owners.
+ * `createTransport` links it to the other members; by default over Socket.io.
+ */
+export function startNode(
+    config: ClusterNodeConfig,
+    createTransport: (server: http.Server) => ClusterTransport = (server) => new SocketIoTransport(
+        server, config.id, config.members.filter(member => member.id !== config.id), config.secret
+    )
+) {
+    let io: Server | null = null;
+    // The routes are mounted once the node exists; the transport needs the server first
+    const app = express();
+    const server = http.createServer(app);
+    const transport = createTransport(server);
+
+    const node = new ClusterNode<RoomRequests>(config.id, config.members.map(member => member.id), transport);
+    app.use(createApp(node, () => io?.engine.clientsCount ?? 0));
+
+    io = new Server(server, {
+        cors: {
+            origin: "*", // Allow all origins for this demo
+            methods: ["GET", "POST"]
+        },
+        // Broadcasts reach sockets on every node
+        adapter: createTransportAdapter(transport)
+    });
+
+    registerRoomOwner(node, io);
+    attachSocketHandlers(io, node);
+    startSweep(roomId => node.owns(roomId));
+
+    server.listen(config.port, () => {
+        console.log(`Server ${config.id} running on port ${config.port}`);
+    });
+    return { node, io, server };
+}
+
+if (require.main === module) {
+    startNode(loadClusterConfig());
+}
@@ -0,0 +1,363 @@
+import fs from 'fs';
+import path from 'path';
+import { Checkpoint } from '../shared/types';
+import { HistoryEvent } from './drawing-state';
+
+/**
+ * Durable backing store for room histories.
+ *
+ * DESIGN:
+ * Storage is an append-only log of `HistoryEvent`s per room. A room is rehydrated
+ * by replaying its events in order through `DrawingState.replay`. This mirrors the
+ * in-memory model, where the operation log (not the canvas) is the state.
+ *
+ * The only rewrite is compaction: a SNAPSHOT event captures the whole state, so
+ * backends may discard everything recorded before it.
+ *
+ * Checkpoints are kept apart from the log, one record each: a SNAPSHOT doesn't
+ * have to copy them, and deleting one really removes its objects.
+ *
+ * Rooms may also have metadata, stored separately from the log.
+ */
+export interface RoomStorage {
+    /**
+     * Loads every recorded event for a room: its log, oldest first, then a
+     * CHECKPOINT event for each stored checkpoint, oldest first.
+     * Resolves to an empty array for rooms that have never been written.
+     */
+    load(roomId: string): Promise<HistoryEvent[]>;
+
+    /**
+     * Appends a single event to a room's log.
+     * Appends for the same room are applied in call order.
+     * A SNAPSHOT event may replace the existing log.
+     * CHECKPOINT and DELETE_CHECKPOINT events store and remove a checkpoint instead.
+     */
+    append(roomId: string, event: HistoryEvent): Promise<void>;
+
+    /**
+     * Loads a room's metadata, or null if it has none.
+     */
+    loadMetadata(roomId: string): Promise<RoomMetadata | null>;
+
+    /**
+     * Replaces a room's metadata.
+     */
+    saveMetadata(roomId: string, metadata: RoomMetadata): Promise<void>;
+
+    /**
+     * When a room was last written, or null if it has nothing stored.
+     */
+    stat(roomId: string): Promise<StoredRoom | null>;
+
+    /**
+     * Every room with something stored (a log or metadata), in no particular order.
+     */
+    list(): Promise<StoredRoom[]>;
+
+    /**
+     * Removes a room's log, checkpoints and metadata. Deleting a room that doesn't exist is not an error.
+     */
+    delete(roomId: string): Promise<void>;
+}
+
+export interface StoredRoom {
+    roomId: string;
+    updatedAt: number; // ms since epoch, last write to the log or metadata
+}
+
+/**
+ * What the server knows about a room besides its history.
+ * Only rooms created through POST /rooms have metadata; the others are open to anyone.
+ */
+export interface RoomMetadata {
+    createdAt: number;  // ms since epoch
+    secured: boolean;   // Joining needs an access token (see auth.ts)
+    deletedAt?: number; // Set when a secured room is deleted: the metadata stays, so its ID stays secured
+}
+
+/**
+ * Keeps room logs in process memory.
+ * Nothing survives a restart; intended for tests and local experiments.
+ */
+export class InMemoryStorage implements RoomStorage {
+    private logs = new Map<string, HistoryEvent[]>();
+    private checkpoints = new Map<string, Checkpoint[]>();
+    private metadata = new Map<string, RoomMetadata>();
+    private updatedAt = new Map<string, number>();
+
+    public async load(roomId: string): Promise<HistoryEvent[]> {
+        const checkpoints = this.checkpoints.get(roomId) ?? [];
+        return [
+            ...(this.logs.get(roomId) ?? []),
+            ...checkpoints.map((checkpoint): HistoryEvent => ({ type: 'CHECKPOINT', checkpoint }))
+        ];
+    }
+
+    public async append(roomId: string, event: HistoryEvent): Promise<void> {
+        this.updatedAt.set(roomId, Date.now());
+        if (event.type === 'CHECKPOINT') {
+            this.checkpoints.set(roomId, [...(this.checkpoints.get(roomId) ?? []), event.checkpoint]);
+            return;
+        }
+        if (event.type === 'DELETE_CHECKPOINT') {
+            const checkpoints = this.checkpoints.get(roomId) ?? [];
+            this.checkpoints.set(roomId, checkpoints.filter(checkpoint => checkpoint.id !== event.checkpointId));
+            return;
+        }
+        if (event.type === 'SNAPSHOT') {
+            this.logs.set(roomId, [event]);
+            return;
+        }
+
+        let log = this.logs.get(roomId);
+        if (!log) {
+            log = [];
+            this.logs.set(roomId, log);
+        }
+        log.push(event);
+    }
+
+    public async loadMetadata(roomId: string): Promise<RoomMetadata | null> {
+        return this.metadata.get(roomId) ?? null;
+    }
+
+    public async saveMetadata(roomId: string, metadata: RoomMetadata): Promise<void> {
+        this.metadata.set(roomId, { ...metadata });
+        this.updatedAt.set(roomId, Date.now());
+    }
+
+    public async stat(roomId: string): Promise<StoredRoom | null> {
+        const updatedAt = this.updatedAt.get(roomId);
+        return updatedAt !== undefined ? { roomId, updatedAt } : null;
+    }
+
+    public async list(): Promise<StoredRoom[]> {
+        return Array.from(this.updatedAt, ([roomId, updatedAt]) => ({ roomId, updatedAt }));
+    }
+
+    public async delete(roomId: string): Promise<void> {
+        this.logs.delete(roomId);
+        this.checkpoints.delete(roomId);
+        this.metadata.delete(roomId);
+        this.updatedAt.delete(roomId);
+    }
+}
+
+/**
+ * Stores each room as a JSON Lines file (`<dataDir>/<roomId>.jsonl`),
+ * one event per line, its checkpoints as `<dataDir>/<roomId>.checkpoints/<id>.json`
+ * and its metadata as `<dataDir>/<roomId>.meta.json`.
+ *
+ * Writes for a room are chained on a promise so lines never interleave,
+ * even though callers fire-and-forget.
+ */
+export class FileStorage implements RoomStorage {
+    private writeQueues = new Map<string, Promise<void>>();
+
+    constructor(private dataDir: string) {
+        fs.mkdirSync(dataDir, { recursive: true });
+    }
+
+    public async load(roomId: string): Promise<HistoryEvent[]> {
+        // Let pending writes land first so we never read a half-written log.
+        await this.writeQueues.get(roomId);
+
+        let contents: string;
+        try {
+            contents = await fs.promises.readFile(this.filePath(roomId), 'utf8');
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+                return [];
+            }
+            throw err;
+        }
+
+        const events: HistoryEvent[] = [];
+        const lines = contents.split('\n');
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i];
+            if (!line.trim()) continue;
+
+            try {
+                events.push(JSON.parse(line));
+            } catch (err) {
+                // EDGE CASE: A crash mid-append can leave a truncated last line.
+                // Anything before it is intact, so we keep it and drop the tail.
+                console.warn(`Ignoring corrupt line ${i + 1} in log for room ${roomId}`);
+                break;
+            }
+        }
+
+        const checkpoints = await this.loadCheckpoints(roomId);
+        return [...events, ...checkpoints.map((checkpoint): HistoryEvent => ({ type: 'CHECKPOINT', checkpoint }))];
+    }
+
+    public append(roomId: string, event: HistoryEvent): Promise<void> {
+        const previous = this.writeQueues.get(roomId) ?? Promise.resolve();
+        const next = previous
+            .catch(() => undefined) // A failed write must not block later ones
+            .then(() => {
+                switch (event.type) {
+                    case 'SNAPSHOT':
+                        return this.rewrite(roomId, event);
+                    case 'CHECKPOINT':
+                        return this.saveCheckpoint(roomId, event.checkpoint);
+                    case 'DELETE_CHECKPOINT':
+                        return fs.promises.rm(this.checkpointPath(roomId, event.checkpointId), { force: true });
+                    default:
+                        return fs.promises.appendFile(this.filePath(roomId), JSON.stringify(event) + '\n', 'utf8');
+                }
+            });
+
+        this.writeQueues.set(roomId, next);
+        return next;
+    }
+
+    public async loadMetadata(roomId: string): Promise<RoomMetadata | null> {
+        try {
+            return JSON.parse(await fs.promises.readFile(this.metadataPath(roomId), 'utf8'));
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+                return null;
+            }
+            throw err;
+        }
+    }
+
+    public async saveMetadata(roomId: string, metadata: RoomMetadata): Promise<void> {
+        // Same temp-and-rename as compaction: never a half-written file
+        const target = this.metadataPath(roomId);
+        const temp = `${target}.tmp`;
+        await fs.promises.writeFile(temp, JSON.stringify(metadata), 'utf8');
+        await fs.promises.rename(temp, target);
+    }
+
+    public async stat(roomId: string): Promise<StoredRoom | null> {
+        const files = [this.filePath(roomId), this.checkpointsPath(roomId), this.metadataPath(roomId)];
+        const times = await Promise.all(files.map(async (file) => {
+            try {
+                return Math.floor((await fs.promises.stat(file)).mtimeMs);
+            } catch (err) {
+                if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+                    return null;
+                }
+                throw err;
+            }
+        }));
+
+        const present = times.filter((time): time is number => time !== null);
+        return present.length > 0 ? { roomId, updatedAt: Math.max(...present) } : null;
+    }
+
+    public async list(): Promise<StoredRoom[]> {
+        const roomIds = new Set<string>();
+        for (const file of await fs.promises.readdir(this.dataDir)) {
+            // Temp files (`.tmp`) and anything else in the directory don't match
+            const match = /^(.+)\.(?:jsonl|checkpoints|meta\.json)$/.exec(file);
+            if (!match) continue;
+            try {
+                roomIds.add(decodeURIComponent(match[1]));
+            } catch {
+                // Not a name we wrote
+            }
+        }
+
+        const rooms: StoredRoom[] = [];
+        for (const roomId of roomIds) {
+            const room = await this.stat(roomId);
+            if (room) rooms.push(room);
+        }
+        return rooms;
+    }
+
+    public async delete(roomId: string): Promise<void> {
+        // Let pending writes land first, or a late append would bring the log back
+        await this.writeQueues.get(roomId)?.catch(() => undefined);
+        this.writeQueues.delete(roomId);
+
+        await fs.promises.rm(this.filePath(roomId), { force: true });
+        await fs.promises.rm(this.checkpointsPath(roomId), { recursive: true, force: true });
+        await fs.promises.rm(this.metadataPath(roomId), { force: true });
+    }
+
+    // A room's checkpoints, oldest first
+    private async loadCheckpoints(roomId: string): Promise<Checkpoint[]> {
+        let files: string[];
+        try {
+            files = await fs.promises.readdir(this.checkpointsPath(roomId));
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+                return [];
+            }
+            throw err;
+        }
+
+        const checkpoints: Checkpoint[] = [];
+        for (const file of files) {
+            if (!file.endsWith('.json')) continue; // Temp files
+            try {
+                checkpoints.push(JSON.parse(await fs.promises.readFile(path.join(this.checkpointsPath(roomId), file), 'utf8')));
+            } catch (err) {
+                console.warn(`Ignoring unreadable checkpoint ${file} of room ${roomId}`);
+            }
+        }
+        return checkpoints.sort((a, b) => a.createdAt - b.createdAt);
+    }
+
+    // Same temp-and-rename as compaction
+    private async saveCheckpoint(roomId: string, checkpoint: Checkpoint): Promise<void> {
+        await fs.promises.mkdir(this.checkpointsPath(roomId), { recursive: true });
+        const target = this.checkpointPath(roomId, checkpoint.id);
+        const temp = `${target}.tmp`;
+        await fs.promises.writeFile(temp, JSON.stringify(checkpoint), 'utf8');
+        await fs.promises.rename(temp, target);
+    }
+
+    /**
+     * Replaces the log with a single snapshot line.
+     * Written to a temp file and renamed so a crash never leaves a partial log.
+     */
+    private async rewrite(roomId: string, event: HistoryEvent): Promise<void> {
+        const target = this.filePath(roomId);
+        const temp = `${target}.tmp`;
+        await fs.promises.writeFile(temp, JSON.stringify(event) + '\n', 'utf8');
+        await fs.promises.rename(temp, target);
+    }
+
+    private filePath(roomId: string): string {
+        // Room IDs come straight from the URL; encode them so they can't escape dataDir.
+        return path.join(this.dataDir, `${encodeURIComponent(roomId)}.jsonl`);
+    }
+
+    private checkpointsPath(roomId: string): string {
+        return path.join(this.dataDir, `${encodeURIComponent(roomId)}.checkpoints`);
+    }
+
+    private checkpointPath(roomId: string, checkpointId: string): string {
+        return path.join(this.checkpointsPath(roomId), `${encodeURIComponent(checkpointId)}.json`);
+    }
+
+    private metadataPath(roomId: string): string {
+        return path.join(this.dataDir, `${encodeURIComponent(roomId)}.meta.json`);
+    }
+}
+
+/**
+ * Picks a storage backend from the environment.
+ *
+ * - `STORAGE=memory`: InMemoryStorage
+ * - `STORAGE=file` (default): FileStorage under `DATA_DIR` (default `./data`)
+ */
+export function createStorage(): RoomStorage {
+    const driver = process.env.STORAGE || 'file';
+
+    switch (driver) {
+        case 'memory':
+            return new InMemoryStorage();
+        case 'file':
+            return new FileStorage(process.env.DATA_DIR || path.join(__dirname, 'data'));
+        default:
+            throw new Error(`Unknown STORAGE driver: ${driver}`);
+    }
+}
@@ -0,0 +1,94 @@
+import { Socket as ClientSocket, io as connect } from 'socket.io-client';
+import { ClientMessage, ServerMessage, ServerMessageType } from '../shared/types';
+
+/**
+ * A client for the server tests: connects to a room like the app does and
+ * waits for the server's answers instead of sleeping.
+ */
+
+// A message to send; the client fills in the room
+export type Outgoing<M = ClientMessage> = M extends ClientMessage ? Omit<M, 'roomId'> : never;
+
+// How long to wait for an answer before failing the test
+const TIMEOUT_MS = 5000;
+
+export class TestClient {
+    public messages: ServerMessage[] = [];
+    public userId: string | null = null;
+    private socket: ClientSocket;
+    private waiters = new Set<(msg: ServerMessage) => void>();
+
+    constructor(url: string, private roomId: string) {
+        this.socket = connect(url, { query: { roomId }, transports: ['websocket'], reconnection: false });
+        this.socket.on('message', (msg: ServerMessage) => {
+            if (msg.type === ServerMessageType.IDENTITY) this.userId = msg.userId;
+            this.messages.push(msg);
+            this.waiters.forEach(waiter => waiter(msg));
+        });
+    }
+
+    /**
+     * Connects and waits for the room's SYNC.
+     */
+    public static async join(url: string, roomId: string): Promise<TestClient> {
+        const client = new TestClient(url, roomId);
+        await client.waitFor(msg => msg.type === ServerMessageType.SYNC, 'SYNC');
+        return client;
+    }
+
+    public send(msg: Outgoing) {
+        this.socket.emit('message', { ...msg, roomId: this.roomId });
+    }
+
+    /**
+     * Sends a message and waits for the server's answer to it: the broadcast of
+     * operations (or an undo/redo) this client authored, or an ERROR.
+     */
+    public async sendAndWait(msg: Outgoing): Promise<ServerMessage> {
+        const answer = this.waitFor(msg => this.isAnswer(msg), `an answer to ${msg.type}`);
+        this.send(msg);
+        return answer;
+    }
+
+    /**
+     * The next message (from now on) that matches.
+     * @param description What is awaited, for the timeout error.
+     */
+    public waitFor(matches: (msg: ServerMessage) => boolean, description: string): Promise<ServerMessage> {
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.waiters.delete(waiter);
+                reject(new Error(`Timed out waiting for ${description}`));
+            }, TIMEOUT_MS);
+            const waiter = (msg: ServerMessage) => {
+                if (!matches(msg)) return;
+                clearTimeout(timer);
+                this.waiters.delete(waiter);
+                resolve(msg);
+            };
+            this.waiters.add(waiter);
+        });
+    }
+
+    public errors(): string[] {
+        return this.messages.flatMap(msg => msg.type === ServerMessageType.ERROR ? [msg.code] : []);
+    }
+
+    public close() {
+        this.socket.close();
+    }
+
+    // Errors go only to the sender; broadcasts to everyone, so they must be ours
+    private isAnswer(msg: ServerMessage): boolean {
+        switch (msg.type) {
+            case ServerMessageType.ERROR:
+                return true;
+            case ServerMessageType.BROADCAST_OPERATION:
+            case ServerMessageType.BROADCAST_UNDO:
+            case ServerMessageType.BROADCAST_REDO:
+                return msg.operations.some(op => op.authorId === this.userId);
+            default:
+                return false;
+        }
+    }
+}
@@ -0,0 +1,111 @@
+import { BrushKind, CanvasObject, Stroke } from './types';
+import { DEFAULT_INK, InkStyle } from './ink';
+import { getLayerId } from './layers';
+
+/**
+ * shared/brushes.ts
+ *
+ * Brush presets for freehand strokes. A stroke stores only its brush name;
+ * everything else about how it looks comes from here, so the live layer, the
+ * base layer and both exports draw a brush the same way.
+ *
+ * - pen: solid ink that follows pressure.
+ * - highlighter: wide, flat and translucent; painted beneath every other object
+ *   so it never dims ink drawn before it.
+ * - pencil: thinner, slightly translucent, with a grain texture.
+ * - calligraphy: a broad nib held at 45°, thick or thin depending on direction.
+ */
+
+export interface BrushPreset {
+    label: string;
+    opacity: number;                   // 0..1, applied to the whole stroke
+    blend: 'source-over' | 'multiply'; // Canvas globalCompositeOperation / SVG mix-blend-mode
+    texture: 'none' | 'grain';
+    underInk: boolean;                 // Painted beneath all other objects (see getPaintOrder)
+    ink: InkStyle;                     // Outline: caps, tapers, pressure (see shared/ink.ts)
+}
+
+export const DEFAULT_BRUSH: BrushKind = 'pen';
+
+export const BRUSHES: Readonly<Record<BrushKind, BrushPreset>> = {
+    pen: {
+        label: 'Pen',
+        opacity: 1,
+        blend: 'source-over',
+        texture: 'none',
+        underInk: false,
+        ink: DEFAULT_INK
+    },
+    highlighter: {
+        label: 'Highlighter',
+        opacity: 0.35,
+        blend: 'multiply',
+        texture: 'none',
+        underInk: true,
+        ink: { cap: 'square', taper: false, pressure: false, widthScale: 3, nibAngle: null }
+    },
+    pencil: {
+        label: 'Pencil',
+        opacity: 0.85,
+        blend: 'source-over',
+        texture: 'grain',
+        underInk: false,
+        ink: { ...DEFAULT_INK, widthScale: 0.6 }
+    },
+    calligraphy: {
+        label: 'Calligraphy',
+        opacity: 1,
+        blend: 'source-over',
+        texture: 'none',
+        underInk: false,
+        ink: { cap: 'flat', taper: false, pressure: true, widthScale: 1.5, nibAngle: -Math.PI / 4 }
+    }
+};
+
+export const BRUSH_KINDS = Object.keys(BRUSHES) as BrushKind[];
+
+export function isBrushKind(value: unknown): value is BrushKind {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(BRUSHES, value);
+}
+
+/**
+ * The preset for a brush name. Strokes without one (older history), or with one
+ * this build doesn't know, are drawn as pens.
+ */
+export function getBrush(kind: BrushKind | undefined): BrushPreset {
+    return isBrushKind(kind) ? BRUSHES[kind] : BRUSHES[DEFAULT_BRUSH];
+}
+
+/**
+ * Objects in the order they are painted: under-ink brushes (highlighters) first,
+ * then everything else, each group in its original z-order.
+ *
+ * Objects composited by layer (see compositeLayers in shared/layers.ts) are
+ * ordered one layer at a time, so a highlighter only goes beneath its own layer.
+ *
+ * Depends only on each object's own brush and layer, so painting any subset (one
+ * tile) gives the same result as painting the whole board. Also orders live strokes.
+ */
+export function getPaintOrder<T extends CanvasObject | Pick<Stroke, 'brush'>>(objects: ReadonlyArray<T>): T[] {
+    if (!objects.some(isUnderInk)) return [...objects];
+
+    const ordered: T[] = [];
+    let start = 0;
+    for (let i = 1; i <= objects.length; i++) {
+        if (i < objects.length && layerOf(objects[i]) === layerOf(objects[start])) continue;
+
+        const run = objects.slice(start, i);
+        ordered.push(...run.filter(isUnderInk), ...run.filter(object => !isUnderInk(object)));
+        start = i;
+    }
+    return ordered;
+}
+
+function isUnderInk(object: CanvasObject | Pick<Stroke, 'brush'>): boolean {
+    return 'brush' in object && getBrush(object.brush).underInk;
+}
+
+// Live strokes count as on the default layer
+function layerOf(object: CanvasObject | Pick<Stroke, 'brush'>): string {
+    return getLayerId(object as { layerId?: string });
+}
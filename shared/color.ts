@@ -0,0 +1,26 @@
+/**
+ * shared/color.ts
+ *
+ * Validation for colors that come from clients or imported documents.
+ *
+ * Colors end up in canvas fill styles and in SVG attributes, so anything that
+ * isn't plain color syntax (url(), var(), quotes, CSS injection) is refused.
+ * Whether a keyword or a functional color is actually meaningful is left to the
+ * browser; an unknown keyword simply doesn't paint.
+ */
+
+export const MAX_COLOR_LENGTH = 64;
+
+// #rgb, #rgba, #rrggbb, #rrggbbaa
+const HEX_COLOR = /^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+// rgb()/rgba()/hsl()/hsla() with numbers, percentages, angles and separators only
+const FUNCTIONAL_COLOR = /^(?:rgba?|hsla?)\(\s*[0-9a-z.%+\-\s,/]*\)$/i;
+// Named colors ("red", "transparent", "currentColor")
+const KEYWORD_COLOR = /^[a-z]+$/i;
+
+export function isColor(value: unknown): value is string {
+    if (typeof value !== 'string' || value.length === 0 || value.length > MAX_COLOR_LENGTH) {
+        return false;
+    }
+    return HEX_COLOR.test(value) || FUNCTIONAL_COLOR.test(value) || KEYWORD_COLOR.test(value);
+}
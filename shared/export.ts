@@ -0,0 +1,281 @@
+import { CanvasObject, Point, Shape, StrokeDocument, TextBox } from './types';
+import { getArrowHead, getShapeBounds, getShapeBox, isShape, isStroke } from './shapes';
+import { TEXT_FONT_FAMILY, getTextBounds, getTextLayout, isTextBox } from './text';
+import { transformBounds } from './transform';
+import { getMaxStrokeWidth, getStrokeOutline, InkStyle, traceOutline } from './ink';
+import { getBrush, getPaintOrder } from './brushes';
+
+/**
+ * shared/export.ts
+ *
+ * Serializes the folded board (visible strokes, shapes and text) into portable formats.
+ * Shared so the client's "Export" button and the server's HTTP export routes
+ * produce byte-for-byte identical documents.
+ */
+
+export const STROKE_DOCUMENT_VERSION = 5;
+
+// Margin (world units) around the drawing in raster and vector exports
+export const DEFAULT_EXPORT_PADDING = 16;
+
+export interface ExportOptions {
+    padding?: number;     // World units of margin around the drawing
+    background?: string;  // Fill behind the strokes; omit for transparent
+}
+
+/**
+ * Wraps objects in the versioned JSON document format.
+ */
+export function createStrokeDocument(strokes: ReadonlyArray<CanvasObject>): StrokeDocument {
+    return {
+        version: STROKE_DOCUMENT_VERSION,
+        strokes: strokes.map((object): CanvasObject => {
+            const copy: CanvasObject = isShape(object)
+                ? { ...object, start: { ...object.start }, end: { ...object.end }, style: { ...object.style } }
+                : isTextBox(object) ? { ...object } : { ...object, points: [...object.points] };
+            if (object.transform) {
+                copy.transform = { ...object.transform };
+            }
+            return copy;
+        })
+    };
+}
+
+/**
+ * The area covered by the objects, including their brush/outline width.
+ * Returns a zero-size box at the origin for an empty board.
+ */
+export function getExportBounds(strokes: ReadonlyArray<CanvasObject>, padding: number = 0): { x: number, y: number, width: number, height: number } {
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+
+    for (const stroke of strokes) {
+        const bounds = getObjectExtent(stroke);
+        if (!bounds) continue;
+
+        minX = Math.min(minX, bounds.minX);
+        minY = Math.min(minY, bounds.minY);
+        maxX = Math.max(maxX, bounds.maxX);
+        maxY = Math.max(maxY, bounds.maxY);
+    }
+
+    if (minX === Infinity) {
+        return { x: 0, y: 0, width: 0, height: 0 };
+    }
+
+    return {
+        x: minX - padding,
+        y: minY - padding,
+        width: maxX - minX + padding * 2,
+        height: maxY - minY + padding * 2
+    };
+}
+
+// Painted area of one object, transform included; null for a stroke without points
+function getObjectExtent(object: CanvasObject): { minX: number, minY: number, maxX: number, maxY: number } | null {
+    let bounds;
+    if (isShape(object)) {
+        bounds = getShapeBounds(object);
+    } else if (isTextBox(object)) {
+        bounds = getTextBounds(object);
+    } else {
+        if (object.points.length === 0) return null;
+
+        const half = getMaxStrokeWidth(object.size, getBrush(object.brush).ink) / 2;
+        bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+        for (const p of object.points) {
+            bounds.minX = Math.min(bounds.minX, p.x - half);
+            bounds.minY = Math.min(bounds.minY, p.y - half);
+            bounds.maxX = Math.max(bounds.maxX, p.x + half);
+            bounds.maxY = Math.max(bounds.maxY, p.y + half);
+        }
+    }
+
+    return object.transform ? transformBounds(bounds, object.transform) : bounds;
+}
+
+/**
+ * Builds the SVG path data for the painted outline of a stroke (to be filled).
+ *
+ * Traced by shared/ink.ts exactly like CanvasRenderer.drawStroke, so exported
+ * strokes keep their pressure, tapers and caps.
+ */
+export function strokeOutlineToSvgPath(points: ReadonlyArray<Point>, size: number, style?: InkStyle): string {
+    const parts: string[] = [];
+    traceOutline(getStrokeOutline(points, size, style), {
+        moveTo: (x, y) => parts.push(`M${fmt(x)} ${fmt(y)}`),
+        lineTo: (x, y) => parts.push(`L${fmt(x)} ${fmt(y)}`),
+        quadraticCurveTo: (cpx, cpy, x, y) => parts.push(`Q${fmt(cpx)} ${fmt(cpy)} ${fmt(x)} ${fmt(y)}`),
+        closePath: () => parts.push('Z')
+    });
+    return parts.join(' ');
+}
+
+/**
+ * Builds the SVG path data for a stroke's centerline: quadratic curves using each
+ * captured point as the control point and the midpoint to the next one as the end
+ * point, then a straight line to the last point.
+ *
+ * Written next to the outline (`data-centerline`) so importing our own SVG
+ * recovers the original samples rather than the outline.
+ */
+export function strokeToSvgPath(points: ReadonlyArray<Point>): string {
+    if (points.length === 0) return '';
+
+    const parts = [`M${fmt(points[0].x)} ${fmt(points[0].y)}`];
+    if (points.length === 1) return parts[0];
+
+    for (let i = 1; i < points.length - 1; i++) {
+        const p1 = points[i];
+        const p2 = points[i + 1];
+        parts.push(`Q${fmt(p1.x)} ${fmt(p1.y)} ${fmt((p1.x + p2.x) / 2)} ${fmt((p1.y + p2.y) / 2)}`);
+    }
+
+    const last = points[points.length - 1];
+    parts.push(`L${fmt(last.x)} ${fmt(last.y)}`);
+
+    return parts.join(' ');
+}
+
+// Pencil grain: the stroke's alpha modulated by fractal noise (CanvasRenderer uses a noise pattern)
+const PENCIL_GRAIN_FILTER =
+    '<filter id="pencil-grain"><feTurbulence type="fractalNoise" baseFrequency="0.8" seed="7" result="noise"/>' +
+    '<feColorMatrix in="noise" type="luminanceToAlpha" result="mask"/>' +
+    '<feComponentTransfer in="mask" result="grain"><feFuncA type="linear" slope="1.5" intercept="0.25"/></feComponentTransfer>' +
+    '<feComposite in="SourceGraphic" in2="grain" operator="in"/></filter>';
+
+/**
+ * Renders objects as a standalone SVG document cropped to the drawing,
+ * in paint order (highlighters beneath everything else, as on the canvas).
+ */
+export function createSvgDocument(strokes: ReadonlyArray<CanvasObject>, options: ExportOptions = {}): string {
+    const bounds = getExportBounds(strokes, options.padding ?? DEFAULT_EXPORT_PADDING);
+    const elements: string[] = [];
+
+    if (options.background) {
+        elements.push(`<rect x="${fmt(bounds.x)}" y="${fmt(bounds.y)}" width="${fmt(bounds.width)}" height="${fmt(bounds.height)}" fill="${escapeAttr(options.background)}"/>`);
+    }
+
+    if (strokes.some(object => isStroke(object) && getBrush(object.brush).texture === 'grain')) {
+        elements.push(`<defs>${PENCIL_GRAIN_FILTER}</defs>`);
+    }
+
+    for (const object of getPaintOrder(strokes)) {
+        const element = objectToSvgElement(object);
+        if (!element) continue;
+
+        // Moved/scaled/rotated objects keep their stored geometry, as on the canvas
+        const m = object.transform;
+        elements.push(m
+            ? `<g transform="matrix(${[m.a, m.b, m.c, m.d, m.e, m.f].map(fmtPrecise).join(' ')})">${element}</g>`
+            : element);
+    }
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${fmt(bounds.x)} ${fmt(bounds.y)} ${fmt(bounds.width)} ${fmt(bounds.height)}" ` +
+        `width="${fmt(bounds.width)}" height="${fmt(bounds.height)}">`,
+        ...elements.map(element => `  ${element}`),
+        '</svg>',
+        ''
+    ].join('\n');
+}
+
+function objectToSvgElement(object: CanvasObject): string | null {
+    if (isShape(object)) return shapeToSvgElement(object);
+    if (isTextBox(object)) return textToSvgElement(object);
+    if (object.points.length === 0) return null;
+
+    // Filled outline, as on the canvas (a single point is a dot)
+    const brush = getBrush(object.brush);
+    const attrs = [
+        `d="${strokeOutlineToSvgPath(object.points, object.size, brush.ink)}"`,
+        `fill="${escapeAttr(object.color)}"`
+    ];
+    if (brush.opacity < 1) attrs.push(`opacity="${brush.opacity}"`);
+    if (brush.blend !== 'source-over') attrs.push(`style="mix-blend-mode:${brush.blend}"`);
+    if (brush.texture === 'grain') attrs.push('filter="url(#pencil-grain)"');
+    attrs.push(`data-centerline="${strokeToSvgPath(object.points)}"`, `data-size="${fmt(object.size)}"`);
+    if (object.brush) attrs.push(`data-brush="${object.brush}"`);
+
+    return `<path ${attrs.join(' ')}/>`;
+}
+
+/**
+ * One SVG element per shape, styled like CanvasRenderer.drawShape (round caps and joins).
+ */
+function shapeToSvgElement(shape: Shape): string {
+    const { style } = shape;
+    const outline = `stroke="${escapeAttr(style.stroke)}" stroke-width="${fmt(style.strokeWidth)}" stroke-linecap="round" stroke-linejoin="round"`;
+    const fill = style.fill ? escapeAttr(style.fill) : 'none';
+
+    switch (shape.kind) {
+        case 'line':
+            return `<line x1="${fmt(shape.start.x)}" y1="${fmt(shape.start.y)}" x2="${fmt(shape.end.x)}" y2="${fmt(shape.end.y)}" ${outline}/>`;
+
+        case 'arrow': {
+            const head = getArrowHead(shape);
+            let d = `M${fmt(shape.start.x)} ${fmt(shape.start.y)} L${fmt(shape.end.x)} ${fmt(shape.end.y)}`;
+            if (head) {
+                d += ` M${fmt(head[0].x)} ${fmt(head[0].y)} L${fmt(shape.end.x)} ${fmt(shape.end.y)} L${fmt(head[1].x)} ${fmt(head[1].y)}`;
+            }
+            return `<path d="${d}" fill="none" ${outline}/>`;
+        }
+
+        case 'rect': {
+            const box = getShapeBox(shape);
+            return `<rect x="${fmt(box.x)}" y="${fmt(box.y)}" width="${fmt(box.width)}" height="${fmt(box.height)}" fill="${fill}" ${outline}/>`;
+        }
+
+        case 'ellipse': {
+            const box = getShapeBox(shape);
+            return `<ellipse cx="${fmt(box.x + box.width / 2)}" cy="${fmt(box.y + box.height / 2)}" ` +
+                `rx="${fmt(box.width / 2)}" ry="${fmt(box.height / 2)}" fill="${fill}" ${outline}/>`;
+        }
+    }
+}
+
+/**
+ * A text box as a group: the sticky-note background (if any) and one `<tspan>` per line,
+ * laid out like CanvasRenderer.drawText.
+ */
+function textToSvgElement(text: TextBox): string {
+    const layout = getTextLayout(text);
+    const parts: string[] = [];
+
+    if (text.background) {
+        parts.push(`<rect x="${fmt(text.x)}" y="${fmt(text.y)}" width="${fmt(layout.width)}" height="${fmt(layout.height)}" fill="${escapeAttr(text.background)}"/>`);
+    }
+
+    const x = text.x + layout.padding;
+    const spans = layout.lines.map((line, i) => {
+        const y = text.y + layout.padding + i * layout.lineHeight;
+        return `<tspan x="${fmt(x)}" y="${fmt(y)}">${escapeAttr(line)}</tspan>`;
+    });
+    parts.push(
+        `<text font-family="${escapeAttr(TEXT_FONT_FAMILY)}" font-size="${fmt(text.fontSize)}" fill="${escapeAttr(text.color)}" ` +
+        `dominant-baseline="text-before-edge" xml:space="preserve">${spans.join('')}</text>`
+    );
+
+    return `<g>${parts.join('')}</g>`;
+}
+
+// Two decimals is well below a pixel and keeps documents small
+function fmt(n: number): string {
+    return String(Math.round(n * 100) / 100);
+}
+
+// Transform components (rotations, small scales) need more than two decimals
+function fmtPrecise(n: number): string {
+    return String(Math.round(n * 1e6) / 1e6);
+}
+
+// Colors come from clients; never let one break out of the attribute
+function escapeAttr(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/"/g, '&quot;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+}
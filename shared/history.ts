@@ -0,0 +1,109 @@
+import { CanvasObject, ServerCanvasOperation } from './types';
+import { transformObject } from './transform';
+import { moveToLayer } from './layers';
+
+/**
+ * shared/history.ts
+ *
+ * The "fold" of the operation log into visible state.
+ * Shared by the server (DrawingState) and the client (OperationStore) so both
+ * sides derive exactly the same canvas from the same operations.
+ */
+
+/**
+ * Applies a single operation to a map of visible objects, in place.
+ * Map insertion order is z-order (later objects draw on top).
+ */
+export function applyOperation(visibleStrokes: Map<string, CanvasObject>, op: ServerCanvasOperation) {
+    switch (op.type) {
+        case 'ADD_STROKE':
+            // Add the stroke to the map.
+            // If ID exists (shouldn't happen in normal flow), it overwrites.
+            visibleStrokes.set(op.stroke.id, op.stroke);
+            break;
+
+        case 'ADD_SHAPE':
+            visibleStrokes.set(op.shape.id, op.shape);
+            break;
+
+        case 'ADD_TEXT':
+            visibleStrokes.set(op.text.id, op.text);
+            break;
+
+        case 'UPDATE_TEXT': {
+            // Only edits a visible text box: an edit must not resurrect a removed one.
+            // Map.set on an existing key keeps its position, so the z-order is unchanged.
+            const current = visibleStrokes.get(op.text.id);
+            if (current) {
+                visibleStrokes.set(op.text.id, withTransformOf(op.text, current));
+            }
+            break;
+        }
+
+        case 'TRANSFORM': {
+            // Same rules as UPDATE_TEXT: visible objects only, z-order unchanged
+            const current = visibleStrokes.get(op.objectId);
+            if (current) {
+                visibleStrokes.set(op.objectId, transformObject(current, op.transform));
+            }
+            break;
+        }
+
+        case 'MOVE_TO_LAYER': {
+            // Same rules as UPDATE_TEXT: visible objects only, z-order unchanged
+            const current = visibleStrokes.get(op.objectId);
+            if (current) {
+                visibleStrokes.set(op.objectId, moveToLayer(current, op.layerId));
+            }
+            break;
+        }
+
+        case 'REMOVE_STROKE':
+            // Remove the stroke (or shape) from the map.
+            // EDGE CASE: If we try to remove a stroke that doesn't exist
+            // (e.g. it was already undone), this is a no-op.
+            visibleStrokes.delete(op.strokeId);
+            break;
+
+        case 'ADD_LAYER':
+        case 'UPDATE_LAYER':
+        case 'MOVE_LAYER':
+            // The layers themselves are folded separately (shared/layers.ts)
+            break;
+    }
+}
+
+/**
+ * `object` placed the way `current` is: an edit replaces content and style,
+ * but keeps any move/scale/rotate applied since, and the layer it is on.
+ */
+export function withTransformOf<T extends CanvasObject>(object: T, current: CanvasObject): T {
+    const { transform: _transform, layerId: _layerId, ...rest } = object;
+    const placed = rest as T;
+    if (current.transform) placed.transform = current.transform;
+    if (current.layerId !== undefined) placed.layerId = current.layerId;
+    return placed;
+}
+
+/**
+ * Folds operations on top of an already-folded base (e.g. a compacted snapshot).
+ *
+ * @param baseStrokes Visible objects before the first operation, in z-order.
+ * @param operations Operations to apply, in sequence order.
+ * @returns The visible objects keyed by ID, in z-order.
+ */
+export function foldOperations(
+    baseStrokes: ReadonlyArray<CanvasObject>,
+    operations: ReadonlyArray<ServerCanvasOperation>
+): Map<string, CanvasObject> {
+    const visibleStrokes = new Map<string, CanvasObject>();
+
+    for (const stroke of baseStrokes) {
+        visibleStrokes.set(stroke.id, stroke);
+    }
+    for (const op of operations) {
+        applyOperation(visibleStrokes, op);
+    }
+
+    return visibleStrokes;
+}
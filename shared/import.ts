@@ -0,0 +1,474 @@
+import { CanvasObject, Point, Stroke } from './types';
+import { STROKE_DOCUMENT_VERSION } from './export';
+import { isBrushKind } from './brushes';
+import { isColor } from './color';
+import { DEFAULT_PRESSURE } from './ink';
+import { isStroke, parseShape } from './shapes';
+import { parseTextBox } from './text';
+import { parseTransform } from './transform';
+import { MAX_POINTS_PER_STROKE, MAX_STROKE_SIZE, isCoordinate, isStrokeSize } from './validation';
+
+/**
+ * shared/import.ts
+ *
+ * Parses and validates documents that seed a room: a JSON stroke document
+ * (our own export, or a bare `Stroke[]`) or a simple SVG file of paths.
+ *
+ * Input is untrusted, so everything is checked field by field. Object IDs in the
+ * result are only placeholders; the server assigns fresh ones when committing,
+ * so importing a board into itself never collides with existing objects.
+ */
+
+export const MAX_IMPORT_STROKES = 10000;
+export const MAX_IMPORT_POINTS = 500000; // Across all strokes
+
+/**
+ * Thrown when a document is malformed or too large.
+ * The message is safe to show to the user.
+ */
+export class ImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ImportError';
+    }
+}
+
+/**
+ * Parses a document, detecting JSON or SVG from its content.
+ */
+export function parseImportDocument(text: string): CanvasObject[] {
+    const trimmed = text.trim();
+    if (trimmed.startsWith('<')) {
+        return parseSvgDocument(trimmed);
+    }
+
+    let data: unknown;
+    try {
+        data = JSON.parse(trimmed);
+    } catch {
+        throw new ImportError('Document is neither valid JSON nor SVG');
+    }
+    return parseStrokeDocument(data);
+}
+
+/**
+ * Validates a parsed JSON document: either `{ version, strokes }` or a bare array.
+ * Entries with a `kind` are shapes (document version 2) or text boxes (version 3);
+ * the rest are strokes. Any of them may carry a `transform` (version 4), strokes a `brush` (version 5).
+ */
+export function parseStrokeDocument(data: unknown): CanvasObject[] {
+    let strokes: unknown = data;
+
+    if (!Array.isArray(data)) {
+        if (!isObject(data) || !Array.isArray(data.strokes)) {
+            throw new ImportError('Expected a stroke array or a document with a "strokes" array');
+        }
+        if (typeof data.version !== 'number' || data.version > STROKE_DOCUMENT_VERSION) {
+            throw new ImportError(`Unsupported document version: ${String(data.version)}`);
+        }
+        strokes = data.strokes;
+    }
+
+    const list = strokes as unknown[];
+    if (list.length === 0) {
+        throw new ImportError('Document contains no strokes');
+    }
+
+    const result = list.map((raw, i): CanvasObject => {
+        if (isObject(raw) && raw.kind === 'text') {
+            const text = parseTextBox({ id: `import-${i}`, ...raw });
+            if (!text) {
+                throw new ImportError(`Object ${i} is not a valid text box`);
+            }
+            return text;
+        }
+        if (isObject(raw) && 'kind' in raw) {
+            const shape = parseShape({ id: `import-${i}`, ...raw });
+            if (!shape) {
+                throw new ImportError(`Object ${i} is not a valid shape`);
+            }
+            return shape;
+        }
+        return parseStroke(raw, i);
+    });
+    checkLimits(result);
+    return result;
+}
+
+/**
+ * Converts the stroked shapes of an SVG file into strokes.
+ *
+ * Supports `<path>`, `<line>`, `<polyline>` and `<circle>` (as a dot), with color and
+ * width from `stroke`/`stroke-width`/`fill` attributes or an inline `style`.
+ * Curves are flattened into points. Transforms and the viewBox are ignored:
+ * coordinates are taken as world coordinates, which round-trips our own SVG export.
+ */
+export function parseSvgDocument(text: string): Stroke[] {
+    if (!/<svg[\s>]/i.test(text)) {
+        throw new ImportError('Not an SVG document');
+    }
+
+    const strokes: Stroke[] = [];
+    const budget = new PointBudget();
+    const elementPattern = /<(path|line|polyline|circle)\b([^>]*)>/gi;
+    let match: RegExpExecArray | null;
+
+    while ((match = elementPattern.exec(text)) !== null) {
+        const tag = match[1].toLowerCase();
+        const attrs = parseAttributes(match[2]);
+        const paint = attrs['stroke'] && attrs['stroke'] !== 'none' ? attrs['stroke'] : attrs['fill'];
+        // Gradients and patterns (url(#...)) can't be imported; fall back to black
+        const color = isColor(paint) ? paint : '#000000';
+        const size = Number(attrs['stroke-width'] ?? 1);
+
+        let polylines: Point[][] = [];
+        let strokeSize = size;
+
+        switch (tag) {
+            case 'path':
+                // Our export writes strokes as filled outlines, with the original samples alongside
+                if (attrs['data-centerline'] !== undefined) {
+                    polylines = flattenPath(attrs['data-centerline'], budget);
+                    strokeSize = Number(attrs['data-size'] ?? 1);
+                } else {
+                    polylines = flattenPath(attrs['d'] ?? '', budget);
+                }
+                break;
+            case 'line':
+                budget.take(2);
+                polylines = [[
+                    point(Number(attrs['x1']), Number(attrs['y1'])),
+                    point(Number(attrs['x2']), Number(attrs['y2']))
+                ]];
+                break;
+            case 'polyline': {
+                const numbers = (attrs['points'] ?? '').match(NUMBER_PATTERN)?.map(Number) ?? [];
+                const points: Point[] = [];
+                for (let i = 0; i + 1 < numbers.length; i += 2) {
+                    budget.take(1);
+                    points.push(point(numbers[i], numbers[i + 1]));
+                }
+                polylines = [points];
+                break;
+            }
+            case 'circle':
+                // A filled dot
+                budget.take(1);
+                polylines = [[point(Number(attrs['cx']), Number(attrs['cy']))]];
+                strokeSize = Number(attrs['r']) * 2;
+                break;
+        }
+
+        // Our export tags non-pen strokes; anything else imports as a pen
+        const brush = isBrushKind(attrs['data-brush']) ? attrs['data-brush'] : undefined;
+
+        for (const points of polylines) {
+            if (points.length === 0) continue;
+            strokes.push(parseStroke({ id: `svg-${strokes.length}`, color, size: strokeSize, brush, points }, strokes.length));
+        }
+    }
+
+    if (strokes.length === 0) {
+        throw new ImportError('SVG contains no drawable paths');
+    }
+    checkLimits(strokes);
+    return strokes;
+}
+
+// ==========================================
+// Validation
+// ==========================================
+
+function parseStroke(raw: unknown, index: number): Stroke {
+    const where = `Stroke ${index}`;
+    if (!isObject(raw)) {
+        throw new ImportError(`${where} is not an object`);
+    }
+
+    const { id, color, size, brush, points } = raw;
+
+    if (!isColor(color)) {
+        throw new ImportError(`${where} has an invalid color`);
+    }
+    if (!isStrokeSize(size)) {
+        throw new ImportError(`${where} has an invalid size (must be greater than 0 and at most ${MAX_STROKE_SIZE})`);
+    }
+    if (!Array.isArray(points) || points.length === 0) {
+        throw new ImportError(`${where} has no points`);
+    }
+    if (points.length > MAX_POINTS_PER_STROKE) {
+        throw new ImportError(`${where} has too many points (${points.length} > ${MAX_POINTS_PER_STROKE})`);
+    }
+    if (brush !== undefined && !isBrushKind(brush)) {
+        throw new ImportError(`${where} has an unknown brush`);
+    }
+
+    const stroke: Stroke = {
+        id: typeof id === 'string' && id.length > 0 ? id : `import-${index}`,
+        color,
+        size,
+        points: points.map((p, i) => parsePoint(p, `${where}, point ${i}`))
+    };
+    if (brush !== undefined) {
+        stroke.brush = brush;
+    }
+    if (raw.transform !== undefined) {
+        const transform = parseTransform(raw.transform);
+        if (!transform) {
+            throw new ImportError(`${where} has an invalid transform`);
+        }
+        stroke.transform = transform;
+    }
+    return stroke;
+}
+
+function parsePoint(raw: unknown, where: string): Point {
+    if (!isObject(raw) || !isCoordinate(raw.x) || !isCoordinate(raw.y)) {
+        throw new ImportError(`${where} needs finite x and y within the canvas`);
+    }
+
+    // Pressure and timestamps are optional in hand-written documents
+    const p = isFiniteNumber(raw.p) ? Math.min(1, Math.max(0, raw.p)) : DEFAULT_PRESSURE;
+    const t = isFiniteNumber(raw.t) ? raw.t : 0;
+    return { x: raw.x, y: raw.y, p, t };
+}
+
+/**
+ * Counts the points an SVG document expands into as they are produced. Curves
+ * multiply points, so a document well within the body limit could otherwise
+ * allocate far more than MAX_IMPORT_POINTS before checkLimits sees them.
+ */
+class PointBudget {
+    private used = 0;
+
+    /**
+     * @throws ImportError once the document has produced too many points.
+     */
+    public take(count: number) {
+        this.used += count;
+        if (this.used > MAX_IMPORT_POINTS) {
+            throw new ImportError(`Too many points (more than ${MAX_IMPORT_POINTS})`);
+        }
+    }
+}
+
+function checkLimits(strokes: CanvasObject[]) {
+    if (strokes.length > MAX_IMPORT_STROKES) {
+        throw new ImportError(`Too many objects (${strokes.length} > ${MAX_IMPORT_STROKES})`);
+    }
+
+    const totalPoints = strokes.reduce((sum, object) => sum + (isStroke(object) ? object.points.length : 0), 0);
+    if (totalPoints > MAX_IMPORT_POINTS) {
+        throw new ImportError(`Too many points (${totalPoints} > ${MAX_IMPORT_POINTS})`);
+    }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+// ==========================================
+// SVG helpers
+// ==========================================
+
+const NUMBER_PATTERN = /[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g;
+const PATH_TOKEN_PATTERN = /[MmLlHhVvQqTtCcSsAaZz]|[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g;
+
+function point(x: number, y: number): Point {
+    return { x, y, p: DEFAULT_PRESSURE, t: 0 };
+}
+
+/**
+ * Reads `name="value"` pairs, with inline `style` declarations taking precedence.
+ */
+function parseAttributes(source: string): Record<string, string> {
+    const attrs: Record<string, string> = {};
+    const attrPattern = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = attrPattern.exec(source)) !== null) {
+        attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3]);
+    }
+
+    for (const declaration of (attrs['style'] ?? '').split(';')) {
+        const [name, value] = declaration.split(':').map(part => part?.trim());
+        if (name && value) {
+            attrs[name.toLowerCase()] = value;
+        }
+    }
+    return attrs;
+}
+
+function decodeEntities(value: string): string {
+    return value
+        .replace(/&quot;/g, '"')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&amp;/g, '&');
+}
+
+/**
+ * Flattens SVG path data into polylines, one per subpath.
+ * Arcs are approximated by a straight line to their end point.
+ * Every point produced is taken from `budget`, so it stops as soon as there are too many.
+ */
+function flattenPath(d: string, budget: PointBudget): Point[][] {
+    const tokens = d.match(PATH_TOKEN_PATTERN) ?? [];
+    const polylines: Point[][] = [];
+    let current: Point[] = [];
+
+    let i = 0;
+    let command = '';
+    let x = 0;
+    let y = 0;
+    let startX = 0;
+    let startY = 0;
+    // Last control point, for the smooth (S/T) curve shorthands
+    let controlX = 0;
+    let controlY = 0;
+    let lastCurve = '';
+
+    const next = (): number => {
+        const value = Number(tokens[i++]);
+        if (!Number.isFinite(value)) {
+            throw new ImportError('Malformed SVG path data');
+        }
+        return value;
+    };
+    const lineTo = (nx: number, ny: number) => {
+        budget.take(1);
+        x = nx;
+        y = ny;
+        current.push(point(x, y));
+    };
+
+    while (i < tokens.length) {
+        // A command letter may be followed by several argument groups,
+        // so `command` is reused until the next letter
+        if (/^[A-Za-z]$/.test(tokens[i])) {
+            command = tokens[i++];
+        } else if (!command) {
+            throw new ImportError('SVG path data must start with a command');
+        }
+
+        const relative = command === command.toLowerCase();
+        const ox = relative ? x : 0;
+        const oy = relative ? y : 0;
+
+        switch (command.toUpperCase()) {
+            case 'M': {
+                if (current.length > 0) polylines.push(current);
+                current = [];
+                lineTo(ox + next(), oy + next());
+                startX = x;
+                startY = y;
+                // Extra coordinate pairs after a move are implicit line-tos
+                command = relative ? 'l' : 'L';
+                break;
+            }
+            case 'L':
+                lineTo(ox + next(), oy + next());
+                break;
+            case 'H':
+                lineTo(ox + next(), y);
+                break;
+            case 'V':
+                lineTo(x, oy + next());
+                break;
+            case 'Q':
+            case 'T': {
+                let cx: number;
+                let cy: number;
+                if (command.toUpperCase() === 'Q') {
+                    cx = ox + next();
+                    cy = oy + next();
+                } else {
+                    const smooth = lastCurve === 'Q';
+                    cx = smooth ? 2 * x - controlX : x;
+                    cy = smooth ? 2 * y - controlY : y;
+                }
+                const ex = ox + next();
+                const ey = oy + next();
+                sampleCurve(x, y, ex, ey, (t) => quadratic(x, cx, ex, t), (t) => quadratic(y, cy, ey, t), current, budget);
+                x = ex;
+                y = ey;
+                controlX = cx;
+                controlY = cy;
+                lastCurve = 'Q';
+                continue;
+            }
+            case 'C':
+            case 'S': {
+                let c1x: number;
+                let c1y: number;
+                if (command.toUpperCase() === 'C') {
+                    c1x = ox + next();
+                    c1y = oy + next();
+                } else {
+                    const smooth = lastCurve === 'C';
+                    c1x = smooth ? 2 * x - controlX : x;
+                    c1y = smooth ? 2 * y - controlY : y;
+                }
+                const c2x = ox + next();
+                const c2y = oy + next();
+                const ex = ox + next();
+                const ey = oy + next();
+                sampleCurve(x, y, ex, ey, (t) => cubic(x, c1x, c2x, ex, t), (t) => cubic(y, c1y, c2y, ey, t), current, budget);
+                x = ex;
+                y = ey;
+                controlX = c2x;
+                controlY = c2y;
+                lastCurve = 'C';
+                continue;
+            }
+            case 'A':
+                // rx ry rotation large-arc sweep x y
+                for (let skip = 0; skip < 5; skip++) next();
+                lineTo(ox + next(), oy + next());
+                break;
+            case 'Z':
+                lineTo(startX, startY);
+                command = '';
+                break;
+            default:
+                throw new ImportError(`Unsupported SVG path command: ${command}`);
+        }
+
+        // Only a curve directly before S/T provides a control point to reflect
+        lastCurve = '';
+    }
+
+    if (current.length > 0) polylines.push(current);
+    return polylines;
+}
+
+/**
+ * Appends points along a curve (excluding its start), with roughly one sample
+ * every few world units.
+ */
+function sampleCurve(
+    x0: number, y0: number, x1: number, y1: number,
+    fx: (t: number) => number, fy: (t: number) => number,
+    out: Point[], budget: PointBudget
+) {
+    const segments = Math.min(32, Math.max(2, Math.ceil(Math.hypot(x1 - x0, y1 - y0) / 4)));
+    budget.take(segments);
+    for (let s = 1; s <= segments; s++) {
+        const t = s / segments;
+        out.push(point(fx(t), fy(t)));
+    }
+}
+
+function quadratic(a: number, b: number, c: number, t: number): number {
+    const u = 1 - t;
+    return u * u * a + 2 * u * t * b + t * t * c;
+}
+
+function cubic(a: number, b: number, c: number, d: number, t: number): number {
+    const u = 1 - t;
+    return u * u * u * a + 3 * u * u * t * b + 3 * u * t * t * c + t * t * t * d;
+}
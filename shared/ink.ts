@@ -0,0 +1,266 @@
+import { Point } from './types';
+
+/**
+ * shared/ink.ts
+ *
+ * Variable-width ("ink") strokes: a stroke is painted as a filled outline
+ * whose width follows pen pressure, instead of a constant-width line.
+ *
+ * PIPELINE:
+ * 1. Pressure per point: the pen's own pressure if the device reports it,
+ *    otherwise simulated from drawing speed (`Point.t`): slow is thick, fast is thin.
+ * 2. Width per point: pressure scales the brush `size` (pressure 0.5 = `size`),
+ *    tapered to a point over the first and last few brush widths.
+ * 3. Outline: both edges offset along the normals (or along a fixed nib),
+ *    joined by end caps.
+ * 4. Tracing: the outline is drawn as quadratic curves through its midpoints.
+ *
+ * Which of these steps apply is an InkStyle, set per brush (see shared/brushes.ts).
+ *
+ * Shared so the canvas (live and base layers, PNG export) and the SVG export
+ * trace exactly the same outline: tracing goes through a minimal path sink
+ * that a CanvasRenderingContext2D satisfies directly.
+ */
+
+type Vec = { x: number, y: number };
+
+/**
+ * The subset of CanvasRenderingContext2D / Path2D used to trace an outline.
+ */
+export interface PathSink {
+    moveTo(x: number, y: number): void;
+    lineTo(x: number, y: number): void;
+    quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void;
+    closePath(): void;
+}
+
+/**
+ * How a brush shapes its outline.
+ */
+export interface InkStyle {
+    cap: 'round' | 'square' | 'flat';
+    taper: boolean;          // Thin out towards both ends
+    pressure: boolean;       // Width follows (real or simulated) pressure; otherwise constant
+    widthScale: number;      // Multiplier on the stroke's `size`
+    nibAngle: number | null; // Radians. Edges offset along a fixed nib (calligraphy) instead of the normal
+}
+
+export const DEFAULT_INK: InkStyle = { cap: 'round', taper: true, pressure: true, widthScale: 1, nibAngle: null };
+
+// What mice (and imported strokes without pressure) report
+export const DEFAULT_PRESSURE = 0.5;
+
+// Width = size * (MIN + pressure * (MAX - MIN)); chosen so DEFAULT_PRESSURE gives exactly `size`
+const MIN_WIDTH_FACTOR = 0.3;
+const MAX_WIDTH_FACTOR = 1.7;
+
+// Velocity simulation: speeds at or above this (world units per ms) give the thinnest line
+const SIMULATION_MAX_SPEED = 2.5;
+const SIMULATED_PRESSURE_RANGE = [0.2, 0.8];
+// How quickly simulated pressure follows speed changes (0..1, higher is snappier)
+const SIMULATION_EASING = 0.3;
+
+// Tapers span this many brush widths, but never more than a third of the stroke
+const TAPER_WIDTHS = 3;
+const MIN_TAPER = 0.15;
+
+// Points closer than this are merged, so normals are well defined
+const MIN_SEGMENT_LENGTH = 0.01;
+const CAP_SEGMENTS = 6;
+
+/**
+ * The widest a stroke of this size can get. Used for bounds and hit-testing.
+ */
+export function getMaxStrokeWidth(size: number, style: InkStyle = DEFAULT_INK): number {
+    const width = size * style.widthScale;
+    // Square caps reach into the corners: half the diagonal of a width-sized square
+    const capReach = style.cap === 'square' ? Math.SQRT2 : 1;
+    return (style.pressure ? width * MAX_WIDTH_FACTOR : width) * capReach;
+}
+
+/**
+ * How far each edge of the outline moves per unit of pressure (0 if the style ignores pressure).
+ */
+export function getWidthPerPressure(size: number, style: InkStyle = DEFAULT_INK): number {
+    return style.pressure ? size * style.widthScale * (MAX_WIDTH_FACTOR - MIN_WIDTH_FACTOR) / 2 : 0;
+}
+
+/**
+ * Pressure (0..1) at each point: real pressure when the device reported any,
+ * otherwise simulated from speed, otherwise (no timing either) constant.
+ */
+export function getStrokePressures(points: ReadonlyArray<Point>): number[] {
+    if (points.some(p => p.p > 0 && p.p !== DEFAULT_PRESSURE)) {
+        return points.map(p => p.p);
+    }
+
+    const timed = points.length > 1 && points[points.length - 1].t > points[0].t;
+    if (!timed) {
+        return points.map(() => DEFAULT_PRESSURE);
+    }
+
+    const [low, high] = SIMULATED_PRESSURE_RANGE;
+    const pressures: number[] = [];
+    let pressure = DEFAULT_PRESSURE;
+
+    for (let i = 0; i < points.length; i++) {
+        if (i > 0) {
+            const distance = Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+            const elapsed = Math.max(1, points[i].t - points[i - 1].t);
+            const speed = Math.min(1, distance / elapsed / SIMULATION_MAX_SPEED);
+            const target = high - speed * (high - low);
+            pressure += (target - pressure) * SIMULATION_EASING;
+        }
+        pressures.push(pressure);
+    }
+    return pressures;
+}
+
+/**
+ * The closed outline of a stroke, as a polygon (to be traced with traceOutline).
+ * Empty for no points; a dot (circle, or square for square caps) for a single point.
+ */
+export function getStrokeOutline(points: ReadonlyArray<Point>, size: number, style: InkStyle = DEFAULT_INK): Vec[] {
+    if (points.length === 0) return [];
+
+    size *= style.widthScale;
+    const pressures = style.pressure ? getStrokePressures(points) : points.map(() => DEFAULT_PRESSURE);
+
+    // Merge (near-)duplicate points, keeping the harder pressure
+    const path: Vec[] = [points[0]];
+    const pathPressures = [pressures[0]];
+    for (let i = 1; i < points.length; i++) {
+        const last = path[path.length - 1];
+        if (Math.hypot(points[i].x - last.x, points[i].y - last.y) < MIN_SEGMENT_LENGTH) {
+            pathPressures[pathPressures.length - 1] = Math.max(pathPressures[pathPressures.length - 1], pressures[i]);
+            continue;
+        }
+        path.push(points[i]);
+        pathPressures.push(pressures[i]);
+    }
+
+    if (path.length === 1) {
+        const radius = widthFor(size, pathPressures[0]) / 2;
+        return style.cap === 'square' ? square(path[0], radius) : circle(path[0], radius);
+    }
+
+    // Distance along the stroke, for tapering
+    const along = [0];
+    for (let i = 1; i < path.length; i++) {
+        along.push(along[i - 1] + Math.hypot(path[i].x - path[i - 1].x, path[i].y - path[i - 1].y));
+    }
+    const total = along[along.length - 1];
+    const taper = style.taper ? Math.min(size * TAPER_WIDTHS, total / 3) : 0;
+    const nib = style.nibAngle === null ? null : { x: Math.cos(style.nibAngle), y: Math.sin(style.nibAngle) };
+
+    const left: Vec[] = [];
+    const right: Vec[] = [];
+    const radii: number[] = [];
+
+    for (let i = 0; i < path.length; i++) {
+        let nx: number;
+        let ny: number;
+        if (nib) {
+            // A broad nib keeps its angle: thin when moving along it, full width across it
+            nx = nib.x;
+            ny = nib.y;
+        } else {
+            const prev = path[Math.max(0, i - 1)];
+            const next = path[Math.min(path.length - 1, i + 1)];
+            const dx = next.x - prev.x;
+            const dy = next.y - prev.y;
+            const length = Math.hypot(dx, dy) || 1;
+            nx = -dy / length;
+            ny = dx / length;
+        }
+
+        const radius = (widthFor(size, pathPressures[i]) / 2) * taperFactor(along[i], total, taper);
+        radii.push(radius);
+        left.push({ x: path[i].x + nx * radius, y: path[i].y + ny * radius });
+        right.push({ x: path[i].x - nx * radius, y: path[i].y - ny * radius });
+    }
+
+    const last = path.length - 1;
+    return [
+        ...left,
+        ...cap(style.cap, path[last], path[last - 1], radii[last]),
+        ...right.reverse(),
+        ...cap(style.cap, path[0], path[1], radii[0])
+    ];
+}
+
+/**
+ * Traces a closed outline as quadratic curves through the midpoints of its
+ * vertices (smooth, and never further than half a segment from the polygon).
+ * The caller fills the path.
+ */
+export function traceOutline(outline: ReadonlyArray<Vec>, sink: PathSink) {
+    const n = outline.length;
+    if (n < 3) return;
+
+    const mid = (a: Vec, b: Vec) => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+    const start = mid(outline[n - 1], outline[0]);
+    sink.moveTo(start.x, start.y);
+    for (let i = 0; i < n; i++) {
+        const control = outline[i];
+        const end = mid(control, outline[(i + 1) % n]);
+        sink.quadraticCurveTo(control.x, control.y, end.x, end.y);
+    }
+    sink.closePath();
+}
+
+function widthFor(size: number, pressure: number): number {
+    const p = Math.min(1, Math.max(0, pressure));
+    return size * (MIN_WIDTH_FACTOR + p * (MAX_WIDTH_FACTOR - MIN_WIDTH_FACTOR));
+}
+
+// Eases from MIN_TAPER at either end of the stroke to 1 over `taper` units
+function taperFactor(distance: number, total: number, taper: number): number {
+    if (taper <= 0) return 1;
+    const fromEnd = Math.min(distance, total - distance);
+    if (fromEnd >= taper) return 1;
+
+    const t = fromEnd / taper;
+    return MIN_TAPER + (1 - MIN_TAPER) * Math.sin(t * Math.PI / 2);
+}
+
+// Points joining the left edge to the right edge around `tip`, on the side away from `from`
+function cap(kind: InkStyle['cap'], tip: Vec, from: Vec, radius: number): Vec[] {
+    const angle = Math.atan2(tip.y - from.y, tip.x - from.x);
+    if (kind === 'flat') return [];
+    if (kind === 'square') {
+        // Extend both edges by the radius
+        const dx = Math.cos(angle) * radius;
+        const dy = Math.sin(angle) * radius;
+        return [
+            { x: tip.x + dx - dy, y: tip.y + dy + dx },
+            { x: tip.x + dx + dy, y: tip.y + dy - dx }
+        ];
+    }
+
+    const points: Vec[] = [];
+    for (let i = 1; i < CAP_SEGMENTS; i++) {
+        const a = angle + Math.PI / 2 - (i / CAP_SEGMENTS) * Math.PI;
+        points.push({ x: tip.x + Math.cos(a) * radius, y: tip.y + Math.sin(a) * radius });
+    }
+    return points;
+}
+
+function square(center: Vec, radius: number): Vec[] {
+    return [
+        { x: center.x - radius, y: center.y - radius },
+        { x: center.x + radius, y: center.y - radius },
+        { x: center.x + radius, y: center.y + radius },
+        { x: center.x - radius, y: center.y + radius }
+    ];
+}
+
+function circle(center: Vec, radius: number): Vec[] {
+    const points: Vec[] = [];
+    for (let i = 0; i < CAP_SEGMENTS * 2; i++) {
+        const a = (i / (CAP_SEGMENTS * 2)) * Math.PI * 2;
+        points.push({ x: center.x + Math.cos(a) * radius, y: center.y + Math.sin(a) * radius });
+    }
+    return points;
+}
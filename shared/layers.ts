@@ -0,0 +1,172 @@
+import { CanvasObject, Layer, LayerChanges, ServerCanvasOperation } from './types';
+
+/**
+ * shared/layers.ts
+ *
+ * The fold of layer operations, and how layers are composited.
+ * Shared by the server (DrawingState, lock checks), the client (SceneIndex,
+ * OperationStore) and the exports, so everyone stacks the board the same way.
+ *
+ * DESIGN:
+ * - Objects keep their single z-order; a layer is a field on the object
+ *   (`layerId`). Compositing sorts by layer first and keeps z-order within a layer,
+ *   so moving an object to another layer and back puts it where it was.
+ * - Every room has a default layer that can't go away. Objects without a
+ *   `layerId`, or on a layer whose creation was undone, are drawn on it.
+ */
+
+export const DEFAULT_LAYER_ID = 'default';
+export const MAX_LAYER_NAME_LENGTH = 100;
+
+export const DEFAULT_LAYERS: ReadonlyArray<Layer> = [
+    { id: DEFAULT_LAYER_ID, name: 'Layer 1', hidden: false, locked: false }
+];
+
+type LayerOperation = Extract<ServerCanvasOperation, { type: 'ADD_LAYER' | 'UPDATE_LAYER' | 'MOVE_LAYER' }>;
+
+/**
+ * Whether an operation changes the layers themselves (rather than objects).
+ */
+export function isLayerOperation(op: ServerCanvasOperation): op is LayerOperation {
+    return op.type === 'ADD_LAYER' || op.type === 'UPDATE_LAYER' || op.type === 'MOVE_LAYER';
+}
+
+/**
+ * Applies a layer operation.
+ * @returns The new layers, or the same array if nothing changed.
+ */
+export function applyLayerOperation(layers: ReadonlyArray<Layer>, op: LayerOperation): ReadonlyArray<Layer> {
+    switch (op.type) {
+        case 'ADD_LAYER':
+            if (layers.some(layer => layer.id === op.layer.id)) return layers;
+            return [...layers, op.layer];
+
+        case 'UPDATE_LAYER': {
+            const index = layers.findIndex(layer => layer.id === op.layerId);
+            if (index === -1) return layers;
+
+            const next = [...layers];
+            next[index] = { ...layers[index], ...op.changes };
+            return next;
+        }
+
+        case 'MOVE_LAYER': {
+            const index = layers.findIndex(layer => layer.id === op.layerId);
+            const target = Math.min(op.index, layers.length - 1);
+            if (index === -1 || index === target) return layers;
+
+            const next = [...layers];
+            const [layer] = next.splice(index, 1);
+            next.splice(target, 0, layer);
+            return next;
+        }
+    }
+}
+
+/**
+ * Folds the layer operations among `operations` on top of a snapshot's layers.
+ *
+ * @param baseLayers Layers before the first operation, bottom first.
+ * @returns The layers, bottom first.
+ */
+export function foldLayers(
+    baseLayers: ReadonlyArray<Layer>,
+    operations: ReadonlyArray<ServerCanvasOperation>
+): ReadonlyArray<Layer> {
+    let layers = baseLayers;
+    for (const op of operations) {
+        if (isLayerOperation(op)) {
+            layers = applyLayerOperation(layers, op);
+        }
+    }
+    return layers;
+}
+
+/**
+ * The layer an object claims to be on (the default layer if it names none).
+ */
+export function getLayerId(object: { layerId?: string }): string {
+    return object.layerId ?? DEFAULT_LAYER_ID;
+}
+
+/**
+ * `object` on another layer (the result of a MOVE_TO_LAYER operation).
+ */
+export function moveToLayer<T extends CanvasObject>(object: T, layerId: string): T {
+    return { ...object, layerId };
+}
+
+/**
+ * The layer an object is drawn on: its own, or the default layer if its own doesn't exist.
+ */
+export function getObjectLayer(object: { layerId?: string }, layers: ReadonlyArray<Layer>): Layer {
+    const layerId = getLayerId(object);
+    return layers.find(layer => layer.id === layerId)
+        ?? layers.find(layer => layer.id === DEFAULT_LAYER_ID)
+        ?? DEFAULT_LAYERS[0];
+}
+
+/**
+ * The objects on visible layers, bottom layer first; within a layer, in z-order.
+ * Pass the result through `getPaintOrder` (shared/brushes.ts) to paint it.
+ *
+ * @param objects Objects in z-order.
+ */
+export function compositeLayers<T extends CanvasObject>(objects: ReadonlyArray<T>, layers: ReadonlyArray<Layer>): T[] {
+    const positions = new Map(layers.map((layer, i) => [layer.id, i]));
+
+    // Array.sort is stable, so z-order survives within a layer
+    return objects
+        .map(object => ({ object, layer: getObjectLayer(object, layers) }))
+        .filter(entry => !entry.layer.hidden)
+        .sort((a, b) => (positions.get(a.layer.id) ?? -1) - (positions.get(b.layer.id) ?? -1))
+        .map(entry => entry.object);
+}
+
+/**
+ * Validates an untrusted layer (from a client message).
+ * @returns A clean copy, or null if invalid.
+ */
+export function parseLayer(raw: unknown): Layer | null {
+    if (typeof raw !== 'object' || raw === null) return null;
+
+    const { id, name, hidden, locked } = raw as Record<string, unknown>;
+    if (typeof id !== 'string' || id.length === 0) return null;
+    if (typeof hidden !== 'boolean' || typeof locked !== 'boolean') return null;
+
+    const cleanName = parseLayerName(name);
+    if (cleanName === null) return null;
+    return { id, name: cleanName, hidden, locked };
+}
+
+/**
+ * Validates untrusted layer changes: only known fields, with the right types.
+ * @returns A clean copy, or null if invalid or empty.
+ */
+export function parseLayerChanges(raw: unknown): LayerChanges | null {
+    if (typeof raw !== 'object' || raw === null) return null;
+
+    const { name, hidden, locked } = raw as Record<string, unknown>;
+    const changes: LayerChanges = {};
+    if (name !== undefined) {
+        const cleanName = parseLayerName(name);
+        if (cleanName === null) return null;
+        changes.name = cleanName;
+    }
+    if (hidden !== undefined) {
+        if (typeof hidden !== 'boolean') return null;
+        changes.hidden = hidden;
+    }
+    if (locked !== undefined) {
+        if (typeof locked !== 'boolean') return null;
+        changes.locked = locked;
+    }
+    return Object.keys(changes).length > 0 ? changes : null;
+}
+
+// Trimmed, 1..MAX_LAYER_NAME_LENGTH characters
+function parseLayerName(raw: unknown): string | null {
+    if (typeof raw !== 'string') return null;
+    const name = raw.trim();
+    return name.length > 0 && name.length <= MAX_LAYER_NAME_LENGTH ? name : null;
+}
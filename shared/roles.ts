@@ -0,0 +1,49 @@
+import { ClientMessageType, Role } from './types';
+
+/**
+ * shared/roles.ts
+ *
+ * What each role may send. The server enforces it per message; the client uses
+ * it to disable what the server would refuse anyway.
+ */
+
+export const ROLES: ReadonlyArray<Role> = ['owner', 'editor', 'viewer'];
+
+// Each role can do everything the roles below it can
+const RANK: Record<Role, number> = { viewer: 0, editor: 1, owner: 2 };
+
+// The least role that may send each message type. A full record, so a new
+// message type can't be added without deciding who may send it.
+const MESSAGE_ROLES: Readonly<Record<ClientMessageType, Role>> = {
+    [ClientMessageType.STROKE_START]: 'editor',
+    [ClientMessageType.STROKE_MOVE]: 'editor',
+    [ClientMessageType.STROKE_END]: 'editor',
+    [ClientMessageType.UNDO]: 'editor',
+    [ClientMessageType.REDO]: 'editor',
+    [ClientMessageType.CURSOR_MOVE]: 'viewer',
+    [ClientMessageType.ERASE]: 'editor',
+    [ClientMessageType.UPDATE_PROFILE]: 'viewer',
+    [ClientMessageType.ADD_SHAPE]: 'editor',
+    [ClientMessageType.ADD_TEXT]: 'editor',
+    [ClientMessageType.UPDATE_TEXT]: 'editor',
+    [ClientMessageType.TRANSFORM]: 'editor',
+    [ClientMessageType.ADD_LAYER]: 'editor',
+    [ClientMessageType.UPDATE_LAYER]: 'editor',
+    [ClientMessageType.MOVE_LAYER]: 'editor',
+    [ClientMessageType.MOVE_TO_LAYER]: 'editor'
+};
+
+export function isRole(value: unknown): value is Role {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(RANK, value);
+}
+
+/**
+ * Whether `role` is `required` or above.
+ */
+export function hasRole(role: Role, required: Role): boolean {
+    return RANK[role] >= RANK[required];
+}
+
+export function canSend(role: Role, type: ClientMessageType): boolean {
+    return hasRole(role, MESSAGE_ROLES[type]);
+}
@@ -0,0 +1,166 @@
+import { CanvasObject, Shape, ShapeKind, Stroke } from './types';
+import { isColor } from './color';
+import { parseTransform } from './transform';
+
+/**
+ * shared/shapes.ts
+ *
+ * Geometry and validation for shape objects, shared so the canvas renderer,
+ * the SVG export and the server's validation agree on what a shape is.
+ */
+
+export const SHAPE_KINDS: ReadonlyArray<ShapeKind> = ['line', 'rect', 'ellipse', 'arrow'];
+
+export const MAX_SHAPE_STROKE_WIDTH = 100;
+
+type Vec = { x: number, y: number };
+
+export function isShape(object: CanvasObject): object is Shape {
+    return 'kind' in object && object.kind !== 'text';
+}
+
+export function isStroke(object: CanvasObject): object is Stroke {
+    return !('kind' in object);
+}
+
+/**
+ * The normalized box spanned by a shape's two corners.
+ */
+export function getShapeBox(shape: Shape): { x: number, y: number, width: number, height: number } {
+    return {
+        x: Math.min(shape.start.x, shape.end.x),
+        y: Math.min(shape.start.y, shape.end.y),
+        width: Math.abs(shape.end.x - shape.start.x),
+        height: Math.abs(shape.end.y - shape.start.y)
+    };
+}
+
+/**
+ * Length of the arrow head's sides. Grows with the line width so thick arrows stay readable.
+ */
+export function getArrowHeadLength(shape: Shape): number {
+    return Math.max(10, shape.style.strokeWidth * 3);
+}
+
+/**
+ * The two outer corners of an arrow head at `shape.end`, or null for a zero-length arrow.
+ * Drawn as lines from each corner to the tip.
+ */
+export function getArrowHead(shape: Shape): [Vec, Vec] | null {
+    const dx = shape.end.x - shape.start.x;
+    const dy = shape.end.y - shape.start.y;
+    if (dx === 0 && dy === 0) return null;
+
+    const angle = Math.atan2(dy, dx);
+    const length = getArrowHeadLength(shape);
+    const spread = Math.PI / 6; // 30° each side
+
+    return [
+        { x: shape.end.x - length * Math.cos(angle - spread), y: shape.end.y - length * Math.sin(angle - spread) },
+        { x: shape.end.x - length * Math.cos(angle + spread), y: shape.end.y - length * Math.sin(angle + spread) }
+    ];
+}
+
+/**
+ * The outline of a shape as polylines in world coordinates.
+ * Ellipses are approximated with `segments` points. Used for hit-testing.
+ */
+export function getShapeOutline(shape: Shape, segments: number = 48): Vec[][] {
+    const { start, end } = shape;
+
+    switch (shape.kind) {
+        case 'line':
+            return [[start, end]];
+
+        case 'arrow': {
+            const head = getArrowHead(shape);
+            return head ? [[start, end], [head[0], end, head[1]]] : [[start, end]];
+        }
+
+        case 'rect': {
+            const box = getShapeBox(shape);
+            return [[
+                { x: box.x, y: box.y },
+                { x: box.x + box.width, y: box.y },
+                { x: box.x + box.width, y: box.y + box.height },
+                { x: box.x, y: box.y + box.height },
+                { x: box.x, y: box.y }
+            ]];
+        }
+
+        case 'ellipse': {
+            const box = getShapeBox(shape);
+            const cx = box.x + box.width / 2;
+            const cy = box.y + box.height / 2;
+            const points: Vec[] = [];
+            for (let i = 0; i <= segments; i++) {
+                const angle = (i / segments) * Math.PI * 2;
+                points.push({ x: cx + (box.width / 2) * Math.cos(angle), y: cy + (box.height / 2) * Math.sin(angle) });
+            }
+            return [points];
+        }
+    }
+}
+
+/**
+ * Axis-aligned bounds of everything a shape paints, including its outline width
+ * and arrow head.
+ */
+export function getShapeBounds(shape: Shape): { minX: number, minY: number, maxX: number, maxY: number } {
+    let minX = Math.min(shape.start.x, shape.end.x);
+    let minY = Math.min(shape.start.y, shape.end.y);
+    let maxX = Math.max(shape.start.x, shape.end.x);
+    let maxY = Math.max(shape.start.y, shape.end.y);
+
+    if (shape.kind === 'arrow') {
+        for (const p of getArrowHead(shape) ?? []) {
+            minX = Math.min(minX, p.x);
+            minY = Math.min(minY, p.y);
+            maxX = Math.max(maxX, p.x);
+            maxY = Math.max(maxY, p.y);
+        }
+    }
+
+    const pad = shape.style.strokeWidth / 2;
+    return { minX: minX - pad, minY: minY - pad, maxX: maxX + pad, maxY: maxY + pad };
+}
+
+/**
+ * Validates an untrusted shape (from a client message or an imported document).
+ * @returns A clean copy with only known fields, or null if anything is invalid.
+ */
+export function parseShape(raw: unknown): Shape | null {
+    if (!isObject(raw) || !isObject(raw.style)) return null;
+
+    const { id, kind, start, end, style } = raw;
+    if (typeof id !== 'string' || id.length === 0) return null;
+    if (!SHAPE_KINDS.includes(kind as ShapeKind)) return null;
+    if (!isVec(start) || !isVec(end)) return null;
+
+    const { stroke, strokeWidth, fill } = style;
+    if (!isColor(stroke)) return null;
+    if (typeof strokeWidth !== 'number' || !(strokeWidth > 0) || strokeWidth > MAX_SHAPE_STROKE_WIDTH) return null;
+    if (fill !== null && fill !== undefined && !isColor(fill)) return null;
+
+    const shape: Shape = {
+        id,
+        kind: kind as ShapeKind,
+        start: { x: start.x, y: start.y },
+        end: { x: end.x, y: end.y },
+        style: { stroke, strokeWidth, fill: fill ?? null }
+    };
+    if (raw.transform !== undefined) {
+        const transform = parseTransform(raw.transform);
+        if (!transform) return null;
+        shape.transform = transform;
+    }
+    return shape;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null;
+}
+
+function isVec(value: unknown): value is Vec {
+    return isObject(value) && Number.isFinite(value.x) && Number.isFinite(value.y);
+}
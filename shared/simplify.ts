@@ -0,0 +1,79 @@
+import { Point } from './types';
+import { DEFAULT_PRESSURE, getStrokePressures } from './ink';
+
+/**
+ * shared/simplify.ts
+ *
+ * Ramer–Douglas–Peucker simplification of committed strokes. Pointer events
+ * arrive far denser than the curve needs; dropping the samples that lie within
+ * a fraction of a pixel of the simplified line shrinks history (and every sync)
+ * with no visible change.
+ *
+ * Width matters as much as position: a sample is only dropped if both its
+ * position and its ink width are within tolerance of the simplified stroke.
+ * Simulated pressure depends on the spacing of samples, so it is baked into
+ * `p` first; the simplified stroke then renders with the same widths.
+ */
+
+// World units; used when the client doesn't say what it can't see
+export const DEFAULT_SIMPLIFY_TOLERANCE = 0.25;
+// Cap on client-requested tolerance; a zoomed-out client simplifies less, never more
+export const MAX_SIMPLIFY_TOLERANCE = 2;
+
+/**
+ * Simplifies a stroke's samples. Kept samples are unchanged (apart from baked
+ * pressure); the first and last are always kept.
+ *
+ * @param tolerance Maximum deviation, in world units.
+ * @param widthPerPressure How far (world units) the outline's edge moves per unit of
+ *                         pressure; pressure differences are weighed against `tolerance` with it.
+ */
+export function simplifyStroke(points: ReadonlyArray<Point>, tolerance: number, widthPerPressure: number): Point[] {
+    if (points.length <= 2 || !(tolerance > 0)) return [...points];
+
+    const pressures = getStrokePressures(points);
+    const baked = points.map((point, i) => ({ ...point, p: pressures[i] }));
+
+    // Untimed mouse strokes stay at the default pressure; nothing to bake
+    const constant = pressures.every(p => p === DEFAULT_PRESSURE);
+    const source = constant ? [...points] : baked;
+
+    const keep = new Uint8Array(source.length);
+    keep[0] = 1;
+    keep[source.length - 1] = 1;
+
+    // Iterative, so very long strokes can't overflow the stack
+    const stack: Array<[number, number]> = [[0, source.length - 1]];
+    while (stack.length > 0) {
+        const [first, last] = stack.pop()!;
+        let worst = -1;
+        let worstError = tolerance;
+
+        for (let i = first + 1; i < last; i++) {
+            const error = deviation(source[i], source[first], source[last], widthPerPressure);
+            if (error > worstError) {
+                worst = i;
+                worstError = error;
+            }
+        }
+
+        if (worst !== -1) {
+            keep[worst] = 1;
+            stack.push([first, worst], [worst, last]);
+        }
+    }
+
+    return source.filter((_, i) => keep[i] === 1);
+}
+
+// How far `p` is from the segment a-b, in position or (scaled) pressure, whichever is worse
+function deviation(p: Point, a: Point, b: Point, widthPerPressure: number): number {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+
+    const distance = Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+    const pressure = Math.abs(p.p - (a.p + t * (b.p - a.p))) * widthPerPressure;
+    return Math.max(distance, pressure);
+}
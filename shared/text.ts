@@ -0,0 +1,119 @@
+import { CanvasObject, TextBox } from './types';
+import { isColor } from './color';
+import { parseTransform } from './transform';
+
+/**
+ * shared/text.ts
+ *
+ * Layout and validation for text boxes, shared so the canvas renderer, the
+ * overlay editor, the SVG export and the server agree on a text box's size.
+ *
+ * LAYOUT:
+ * Text is never wrapped; lines are split on '\n'. Line widths are *estimated*
+ * from character counts (the server has no font metrics), and the renderer
+ * squeezes any line that turns out wider than its estimate, so the estimate is
+ * always the true painted extent. Sticky notes get a minimum size so short
+ * notes still look like notes.
+ */
+
+export const TEXT_FONT_FAMILY = 'Helvetica, Arial, sans-serif';
+export const TEXT_LINE_HEIGHT = 1.25;   // In ems
+export const TEXT_PADDING = 0.5;        // In ems, on every side
+export const STICKY_MIN_SIZE = 8;       // In ems
+
+export const DEFAULT_STICKY_COLOR = '#fff3a0';
+export const MIN_FONT_SIZE = 4;
+export const MAX_FONT_SIZE = 200;
+export const MAX_TEXT_LENGTH = 4000;
+
+// Average advance of a glyph in ems: Latin text vs. wide (CJK, emoji) glyphs
+const NARROW_GLYPH_WIDTH = 0.62;
+const WIDE_GLYPH_WIDTH = 1.05;
+
+export interface TextLayout {
+    lines: string[];
+    lineWidths: number[];  // Estimated width of each line
+    lineHeight: number;
+    padding: number;
+    width: number;         // Outer size, including padding
+    height: number;
+}
+
+export function isTextBox(object: CanvasObject): object is TextBox {
+    return 'kind' in object && object.kind === 'text';
+}
+
+export function getTextLayout(text: TextBox): TextLayout {
+    const { fontSize } = text;
+    const lines = text.text.split('\n');
+    const lineWidths = lines.map(line => estimateLineWidth(line, fontSize));
+    const lineHeight = fontSize * TEXT_LINE_HEIGHT;
+    const padding = fontSize * TEXT_PADDING;
+
+    // An empty box still has room for the caret
+    let width = Math.max(fontSize, ...lineWidths) + padding * 2;
+    let height = lines.length * lineHeight + padding * 2;
+
+    if (text.background) {
+        width = Math.max(width, fontSize * STICKY_MIN_SIZE);
+        height = Math.max(height, fontSize * STICKY_MIN_SIZE);
+    }
+
+    return { lines, lineWidths, lineHeight, padding, width, height };
+}
+
+export function getTextBounds(text: TextBox): { minX: number, minY: number, maxX: number, maxY: number } {
+    const { width, height } = getTextLayout(text);
+    return { minX: text.x, minY: text.y, maxX: text.x + width, maxY: text.y + height };
+}
+
+/**
+ * Whether two text boxes look the same (same position, content and style).
+ */
+export function sameTextBox(a: TextBox, b: TextBox): boolean {
+    return a.id === b.id && a.x === b.x && a.y === b.y && a.text === b.text &&
+        a.fontSize === b.fontSize && a.color === b.color && a.background === b.background;
+}
+
+/**
+ * Validates an untrusted text box (from a client message or an imported document).
+ * @returns A clean copy with only known fields, or null if anything is invalid.
+ */
+export function parseTextBox(raw: unknown): TextBox | null {
+    if (typeof raw !== 'object' || raw === null) return null;
+
+    const { id, kind, x, y, text, fontSize, color, background, transform } = raw as Record<string, unknown>;
+    if (typeof id !== 'string' || id.length === 0) return null;
+    if (kind !== 'text') return null;
+    if (!Number.isFinite(x) || !Number.isFinite(y)) return null;
+    if (typeof text !== 'string' || text.length > MAX_TEXT_LENGTH) return null;
+    if (typeof fontSize !== 'number' || !(fontSize >= MIN_FONT_SIZE) || fontSize > MAX_FONT_SIZE) return null;
+    if (!isColor(color)) return null;
+    if (background !== null && background !== undefined && !isColor(background)) return null;
+
+    const result: TextBox = {
+        id,
+        kind: 'text',
+        x: x as number,
+        y: y as number,
+        // Normalize line endings so the layout is the same everywhere
+        text: text.replace(/\r\n?/g, '\n'),
+        fontSize,
+        color,
+        background: background ?? null
+    };
+    if (transform !== undefined) {
+        const parsed = parseTransform(transform);
+        if (!parsed) return null;
+        result.transform = parsed;
+    }
+    return result;
+}
+
+function estimateLineWidth(line: string, fontSize: number): number {
+    let ems = 0;
+    for (const char of line) {
+        ems += char.codePointAt(0)! >= 0x2E80 ? WIDE_GLYPH_WIDTH : NARROW_GLYPH_WIDTH;
+    }
+    return ems * fontSize;
+}
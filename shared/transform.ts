@@ -0,0 +1,130 @@
+import { CanvasObject, Transform } from './types';
+
+/**
+ * shared/transform.ts
+ *
+ * 2D affine transforms for moved/scaled/rotated objects.
+ *
+ * An object's geometry is never rewritten: TRANSFORM operations compose onto
+ * its optional `transform`, which the renderer, hit-testing and exports apply
+ * on top of the stored coordinates (like SVG's `transform` attribute). That
+ * keeps every object type transformable the same way, including rotated
+ * rectangles and text, and keeps undo a matter of dropping an operation.
+ */
+
+type Vec = { x: number, y: number };
+type Box = { minX: number, minY: number, maxX: number, maxY: number };
+
+export const IDENTITY: Transform = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+
+// Guards against degenerate or absurd client-supplied transforms
+const MIN_DETERMINANT = 1e-6;
+const MAX_COMPONENT = 1e7;
+
+/**
+ * `outer` after `inner`: applying the result equals applying `inner`, then `outer`.
+ */
+export function multiply(outer: Transform, inner: Transform): Transform {
+    return {
+        a: outer.a * inner.a + outer.c * inner.b,
+        b: outer.b * inner.a + outer.d * inner.b,
+        c: outer.a * inner.c + outer.c * inner.d,
+        d: outer.b * inner.c + outer.d * inner.d,
+        e: outer.a * inner.e + outer.c * inner.f + outer.e,
+        f: outer.b * inner.e + outer.d * inner.f + outer.f
+    };
+}
+
+export function invert(m: Transform): Transform {
+    const det = m.a * m.d - m.b * m.c;
+    return {
+        a: m.d / det,
+        b: -m.b / det,
+        c: -m.c / det,
+        d: m.a / det,
+        e: (m.c * m.f - m.d * m.e) / det,
+        f: (m.b * m.e - m.a * m.f) / det
+    };
+}
+
+export function applyToPoint(m: Transform, p: Vec): Vec {
+    return { x: m.a * p.x + m.c * p.y + m.e, y: m.b * p.x + m.d * p.y + m.f };
+}
+
+export function translation(dx: number, dy: number): Transform {
+    return { a: 1, b: 0, c: 0, d: 1, e: dx, f: dy };
+}
+
+/**
+ * Scales by (sx, sy) around the fixed point `origin`.
+ */
+export function scaling(sx: number, sy: number, origin: Vec): Transform {
+    return { a: sx, b: 0, c: 0, d: sy, e: origin.x - sx * origin.x, f: origin.y - sy * origin.y };
+}
+
+/**
+ * Rotates by `angle` radians (clockwise on screen, as y points down) around `origin`.
+ */
+export function rotation(angle: number, origin: Vec): Transform {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return {
+        a: cos,
+        b: sin,
+        c: -sin,
+        d: cos,
+        e: origin.x - cos * origin.x + sin * origin.y,
+        f: origin.y - sin * origin.x - cos * origin.y
+    };
+}
+
+/**
+ * How much the transform scales lengths on average (e.g. for stroke widths and hit radii).
+ */
+export function getScaleFactor(m: Transform): number {
+    return Math.sqrt(Math.abs(m.a * m.d - m.b * m.c));
+}
+
+/**
+ * Axis-aligned bounds of a transformed box (the box's four corners, transformed).
+ */
+export function transformBounds(box: Box, m: Transform): Box {
+    const corners = [
+        applyToPoint(m, { x: box.minX, y: box.minY }),
+        applyToPoint(m, { x: box.maxX, y: box.minY }),
+        applyToPoint(m, { x: box.maxX, y: box.maxY }),
+        applyToPoint(m, { x: box.minX, y: box.maxY })
+    ];
+    return {
+        minX: Math.min(...corners.map(p => p.x)),
+        minY: Math.min(...corners.map(p => p.y)),
+        maxX: Math.max(...corners.map(p => p.x)),
+        maxY: Math.max(...corners.map(p => p.y))
+    };
+}
+
+/**
+ * The object with `transform` composed on top of its current transform.
+ */
+export function transformObject<T extends CanvasObject>(object: T, transform: Transform): T {
+    return { ...object, transform: multiply(transform, object.transform ?? IDENTITY) };
+}
+
+/**
+ * Validates an untrusted transform (from a client message or an imported document).
+ * Rejects non-finite, huge and non-invertible matrices.
+ * @returns A clean copy, or null if invalid.
+ */
+export function parseTransform(raw: unknown): Transform | null {
+    if (typeof raw !== 'object' || raw === null) return null;
+
+    const { a, b, c, d, e, f } = raw as Record<string, unknown>;
+    const values = [a, b, c, d, e, f];
+    if (!values.every(v => typeof v === 'number' && Number.isFinite(v) && Math.abs(v) <= MAX_COMPONENT)) {
+        return null;
+    }
+
+    const m = { a, b, c, d, e, f } as Transform;
+    if (Math.abs(m.a * m.d - m.b * m.c) < MIN_DETERMINANT) return null;
+    return m;
+}
@@ -5,9 +5,10 @@
  * 
  * DESIGN DECISIONS:
  * 1.  **Operation-Based History**: We treat the document state as a log of operations 
- *     (ADD_STROKE, REMOVE_STROKE). This ensures:
+ *     (ADD_STROKE, ADD_SHAPE, ADD_TEXT, UPDATE_TEXT, TRANSFORM, REMOVE_STROKE, and the
+ *     layer operations). This ensures:
  *     -   **Deterministic Replay**: Replaying the log from zero always yields the same state.
- *     -   **Pure Undo/Redo**: Undo is simply popping the last operation; Redo is re-pushing it.
+ *     -   **Pure Undo/Redo**: Undo removes the requester's latest operation; Redo re-pushes it.
  *     -   **No "Soft Deletes"**: We don't mutate strokes to mark them erased. We append a 
  *         REMOVE operation. This keeps history immutable.
  * 
@@ -34,12 +35,31 @@
  * Timestamp is vital for replay timing and smoothing algorithms.
  */
 export interface Point {
-    x: number;         // Canvas coordinate X
-    y: number;         // Canvas coordinate Y
+    x: number;         // World coordinate X (independent of any viewer's pan/zoom)
+    y: number;         // World coordinate Y
     p: number;         // Pressure (0.0 to 1.0), defaults to 0.5 for mouse
     t: number;         // Timestamp (ms) relative to stroke start or epoch
 }
 
+/**
+ * A 2D affine transform, as in canvas `setTransform(a, b, c, d, e, f)`:
+ * x' = a*x + c*y + e, y' = b*x + d*y + f.
+ * See shared/transform.ts.
+ */
+export interface Transform {
+    a: number;
+    b: number;
+    c: number;
+    d: number;
+    e: number;
+    f: number;
+}
+
+/**
+ * Freehand brush presets (opacity, blend mode, caps, texture); see shared/brushes.ts.
+ */
+export type BrushKind = 'pen' | 'highlighter' | 'pencil' | 'calligraphy';
+
 /**
  * A completed drawing stroke.
  * This is the data payload for an ADD_STROKE operation.
@@ -48,7 +68,90 @@ export interface Stroke {
     id: string;        // UUID, assigned by client to allow optimistic updates
     color: string;     // Hex code or RGBA string
     size: number;      // Base brush thickness
+    brush?: BrushKind; // Absent = 'pen'
     points: Point[];   // The full sequence of points
+    transform?: Transform; // Set by TRANSFORM operations (move/scale/rotate); absent = identity
+    layerId?: string;  // Absent = the default layer (see shared/layers.ts)
+}
+
+/**
+ * Geometric primitives drawn with the shape tools.
+ * - line / arrow: from `start` to `end` (the arrow head sits at `end`).
+ * - rect / ellipse: the box spanned by `start` and `end` (any two opposite corners).
+ */
+export type ShapeKind = 'line' | 'rect' | 'ellipse' | 'arrow';
+
+export interface ShapeStyle {
+    stroke: string;      // Outline color
+    strokeWidth: number; // Outline thickness (world units)
+    fill: string | null; // Interior color for rect/ellipse; null = hollow. Ignored for line/arrow.
+}
+
+/**
+ * A shape object. The data payload for an ADD_SHAPE operation.
+ */
+export interface Shape {
+    id: string;          // UUID, assigned by client (like stroke IDs)
+    kind: ShapeKind;
+    start: { x: number, y: number }; // World coordinates
+    end: { x: number, y: number };
+    style: ShapeStyle;
+    transform?: Transform;
+    layerId?: string;
+}
+
+/**
+ * A block of text, optionally on a sticky-note background.
+ * Lines are split on '\n' (no automatic wrapping); see shared/text.ts for layout.
+ * The data payload for ADD_TEXT and UPDATE_TEXT operations.
+ */
+export interface TextBox {
+    id: string;          // UUID, assigned by client
+    kind: 'text';
+    x: number;           // World coordinates of the top-left corner
+    y: number;
+    text: string;
+    fontSize: number;    // World units
+    color: string;
+    background: string | null; // Sticky-note color; null = plain text
+    transform?: Transform;
+    layerId?: string;
+}
+
+/**
+ * Anything that can be on the board. Strokes have no `kind`; every other object does.
+ * Objects share one ID space, so removal and z-order work the same for all of them.
+ */
+export type CanvasObject = Stroke | Shape | TextBox;
+
+/**
+ * A named group of objects. Layers are composited bottom to top, each one's
+ * objects in z-order; see shared/layers.ts.
+ */
+export interface Layer {
+    id: string;        // UUID, assigned by the client (the default layer's is 'default')
+    name: string;
+    hidden: boolean;   // Not drawn, for anyone, and its objects can't be picked
+    locked: boolean;   // Its objects can't be erased, moved, edited or added to
+}
+
+/**
+ * The layer settings an UPDATE_LAYER operation changes; absent fields are left as they are.
+ */
+export type LayerChanges = Partial<Pick<Layer, 'name' | 'hidden' | 'locked'>>;
+
+/**
+ * A portable, versioned board document (the JSON export format).
+ * Bump `version` whenever the object model changes incompatibly.
+ * - 1: strokes only
+ * - 2: strokes and shapes
+ * - 3: strokes, shapes and text
+ * - 4: objects may carry a `transform`
+ * - 5: strokes may carry a `brush`
+ */
+export interface StrokeDocument {
+    version: 1 | 2 | 3 | 4 | 5;
+    strokes: CanvasObject[]; // Visible objects in z-order (bottom first)
 }
 
 /**
@@ -57,15 +160,56 @@ export interface Stroke {
  */
 export interface Cursor {
     userId: string;
-    x: number;
+    x: number;         // World coordinates
     y: number;
     color: string;     // User's identifying color
 }
 
+/**
+ * How a user appears to others in a room (participant list, cursor labels).
+ * The color is derived from the stable user ID, so it survives reconnects.
+ */
+export interface UserProfile {
+    userId: string;    // Stable per-browser ID (not the socket ID)
+    name: string;      // Display name chosen by the user
+    color: string;     // Identifying color, assigned by the server
+}
+
 // ==========================================
 // 2. History & Operations
 // ==========================================
 
+/**
+ * The folded result of every operation up to (and including) `seq`.
+ * Long histories are compacted into one of these so joining clients
+ * don't have to replay the room from zero.
+ */
+export interface StrokeSnapshot {
+    seq: number;       // Sequence number of the last operation folded in (0 = empty)
+    strokes: CanvasObject[]; // Visible objects at that point, in z-order
+    layers?: Layer[];  // Layers at that point, bottom first; absent = just the default layer
+}
+
+/**
+ * A named version of a board, saved by a user to come back to later.
+ */
+export interface CheckpointSummary {
+    id: string;          // UUID, assigned by the server
+    name: string;
+    seq: number;         // The room's latest seq when it was saved: the board it keeps
+    createdAt: number;   // ms since epoch
+    authorId: string;    // Stable ID of the user who saved it
+}
+
+/**
+ * A checkpoint with the board it keeps. The objects are stored rather than
+ * derived from `seq`, because compaction folds old operations away.
+ */
+export interface Checkpoint extends CheckpointSummary {
+    objects: CanvasObject[]; // Visible objects at `seq`, in z-order
+    layers?: Layer[];        // Layers at `seq`, bottom first (absent in checkpoints saved before layers)
+}
+
 /**
  * Operations sent by the CLIENT.
  * These represent "draft" intentions and do NOT have sequence numbers yet.
@@ -75,11 +219,75 @@ export type ClientCanvasOperation =
         id: string;        // Operation ID (UUID)
         type: 'ADD_STROKE';
         stroke: Stroke;
+        batchId?: string;  // Shared by operations committed together (e.g. an import)
+    }
+    | {
+        id: string;        // Operation ID (UUID)
+        type: 'ADD_SHAPE';
+        shape: Shape;
+        batchId?: string;
+    }
+    | {
+        id: string;        // Operation ID (UUID)
+        type: 'ADD_TEXT';
+        text: TextBox;
+        batchId?: string;
+    }
+    | {
+        // Replaces the content/style of an existing text box, keeping its z-order
+        // and its current transform. No-op if the text box is not visible at that point in the log.
+        id: string;        // Operation ID (UUID)
+        type: 'UPDATE_TEXT';
+        text: TextBox;     // The full new state; `text.id` identifies the box
+        batchId?: string;
+    }
+    | {
+        // Moves/scales/rotates an existing object: `transform` is applied on top of the
+        // object's current one, keeping its z-order. No-op if the object is not visible.
+        // Transforming a selection is one batch with one op per object.
+        id: string;        // Operation ID (UUID)
+        type: 'TRANSFORM';
+        objectId: string;
+        transform: Transform;
+        batchId?: string;
     }
     | {
         id: string;        // Operation ID (UUID)
         type: 'REMOVE_STROKE';
-        strokeId: string;  // The ID of the stroke being removed
+        strokeId: string;  // The ID of the stroke (or any other object) being removed
+        batchId?: string;
+    }
+    | {
+        // Puts a new layer on top of the others. No-op if a layer with that ID exists.
+        id: string;        // Operation ID (UUID)
+        type: 'ADD_LAYER';
+        layer: Layer;
+        batchId?: string;
+    }
+    | {
+        // Renames, hides/shows or locks/unlocks a layer. No-op if the layer doesn't exist.
+        id: string;        // Operation ID (UUID)
+        type: 'UPDATE_LAYER';
+        layerId: string;
+        changes: LayerChanges;
+        batchId?: string;
+    }
+    | {
+        // Moves a layer to `index` in the bottom-first layer order (clamped to the last).
+        id: string;        // Operation ID (UUID)
+        type: 'MOVE_LAYER';
+        layerId: string;
+        index: number;
+        batchId?: string;
+    }
+    | {
+        // Puts an existing object on another layer, keeping its z-order.
+        // No-op if the object is not visible. Moving a selection is one batch.
+        id: string;        // Operation ID (UUID)
+        type: 'MOVE_TO_LAYER';
+        objectId: string;
+        layerId: string;
+        batchId?: string;
     };
 
 /**
@@ -92,19 +300,110 @@ export type ServerCanvasOperation =
         id: string;        // Operation ID (UUID)
         type: 'ADD_STROKE';
         stroke: Stroke;
+        batchId?: string;  // Operations sharing a batch are undone/redone as one step
+        authorId: string;  // Stable ID of the user who created the operation (scopes undo/redo)
         seq: number;       // REQUIRED: Server-assigned sequence number
     }
+    | {
+        id: string;        // Operation ID (UUID)
+        type: 'ADD_SHAPE';
+        shape: Shape;
+        batchId?: string;
+        authorId: string;
+        seq: number;
+    }
+    | {
+        id: string;        // Operation ID (UUID)
+        type: 'ADD_TEXT';
+        text: TextBox;
+        batchId?: string;
+        authorId: string;
+        seq: number;
+    }
+    | {
+        id: string;        // Operation ID (UUID)
+        type: 'UPDATE_TEXT';
+        text: TextBox;
+        batchId?: string;
+        authorId: string;
+        seq: number;
+    }
+    | {
+        id: string;        // Operation ID (UUID)
+        type: 'TRANSFORM';
+        objectId: string;
+        transform: Transform;
+        batchId?: string;
+        authorId: string;
+        seq: number;
+    }
     | {
         id: string;        // Operation ID (UUID)
         type: 'REMOVE_STROKE';
-        strokeId: string;  // The ID of the stroke being removed
+        strokeId: string;  // The ID of the stroke (or any other object) being removed
+        batchId?: string;
+        authorId: string;  // Stable ID of the user who created the operation (scopes undo/redo)
         seq: number;       // REQUIRED: Server-assigned sequence number
+    }
+    | {
+        id: string;        // Operation ID (UUID)
+        type: 'ADD_LAYER';
+        layer: Layer;
+        batchId?: string;
+        authorId: string;
+        seq: number;
+    }
+    | {
+        id: string;        // Operation ID (UUID)
+        type: 'UPDATE_LAYER';
+        layerId: string;
+        changes: LayerChanges;
+        batchId?: string;
+        authorId: string;
+        seq: number;
+    }
+    | {
+        id: string;        // Operation ID (UUID)
+        type: 'MOVE_LAYER';
+        layerId: string;
+        index: number;
+        batchId?: string;
+        authorId: string;
+        seq: number;
+    }
+    | {
+        id: string;        // Operation ID (UUID)
+        type: 'MOVE_TO_LAYER';
+        objectId: string;
+        layerId: string;
+        batchId?: string;
+        authorId: string;
+        seq: number;
     };
 
 // ==========================================
 // 3. WebSocket Protocol (Client -> Server)
 // ==========================================
 
+/**
+ * What a connection may do in a room (see shared/roles.ts).
+ * - owner: everything an editor can, plus minting share links
+ * - editor: draw, erase, edit, undo/redo
+ * - viewer: read-only; receives SYNC and live streams, may only move its cursor and rename itself
+ */
+export type Role = 'owner' | 'editor' | 'viewer';
+
+/**
+ * Payload of the Socket.io handshake `auth` field.
+ * The client re-evaluates it on every (re)connection.
+ */
+export interface HandshakeAuth {
+    lastSeq: number;   // Highest seq the client has applied (0 = needs a full sync)
+    name?: string;     // Display name for the presence roster
+    token?: string;    // Signed access token; required by rooms created through POST /rooms
+    userToken?: string; // Signed user identity from S_IDENTITY; without it the server assigns a new user ID
+}
+
 export enum ClientMessageType {
     STROKE_START = 'C_STROKE_START',
     STROKE_MOVE = 'C_STROKE_MOVE',
@@ -112,6 +411,16 @@ export enum ClientMessageType {
     UNDO = 'C_UNDO',
     REDO = 'C_REDO',
     CURSOR_MOVE = 'C_CURSOR_MOVE',
+    ERASE = 'C_ERASE',
+    UPDATE_PROFILE = 'C_UPDATE_PROFILE',
+    ADD_SHAPE = 'C_ADD_SHAPE',
+    ADD_TEXT = 'C_ADD_TEXT',
+    UPDATE_TEXT = 'C_UPDATE_TEXT',
+    TRANSFORM = 'C_TRANSFORM',
+    ADD_LAYER = 'C_ADD_LAYER',
+    UPDATE_LAYER = 'C_UPDATE_LAYER',
+    MOVE_LAYER = 'C_MOVE_LAYER',
+    MOVE_TO_LAYER = 'C_MOVE_TO_LAYER',
 }
 
 export type ClientMessage =
@@ -121,6 +430,9 @@ export type ClientMessage =
         id: string;       // Client-generated UUID for the new stroke
         color: string;
         size: number;
+        brush: BrushKind; // Sent up front so others see the right brush while it is drawn
+        layerId?: string; // Layer the stroke is committed to; absent = the default layer
+        tolerance?: number; // World units the sender can't see at its zoom; the committed stroke is simplified by this much
         startPoint: Point;
     }
     | {
@@ -137,18 +449,85 @@ export type ClientMessage =
     | {
         type: ClientMessageType.UNDO;
         roomId: string;
-        // No payload; implies "undo the last operation in the global stack"
+        // No payload; implies "undo the sender's most recent operation"
     }
     | {
         type: ClientMessageType.REDO;
         roomId: string;
-        // No payload; implies "redo the last undone operation"
+        // No payload; implies "redo the sender's last undone operation"
     }
     | {
         type: ClientMessageType.CURSOR_MOVE;
         roomId: string;
         x: number;
         y: number;
+    }
+    | {
+        // Object eraser hit these objects, or the user deleted a selection (the client
+        // does the hit-testing). The server commits one REMOVE_STROKE operation per
+        // object that is still visible, as one batch.
+        type: ClientMessageType.ERASE;
+        roomId: string;
+        strokeIds: string[];
+    }
+    | {
+        // The user renamed themselves. (The name is also sent in every handshake.)
+        type: ClientMessageType.UPDATE_PROFILE;
+        roomId: string;
+        name: string;
+    }
+    | {
+        // A finished shape. Unlike strokes, shapes are sent once on release
+        // (the drag preview is local only). Committed as an ADD_SHAPE operation.
+        type: ClientMessageType.ADD_SHAPE;
+        roomId: string;
+        shape: Shape;
+    }
+    | {
+        // A new text box, sent when the user finishes typing it
+        type: ClientMessageType.ADD_TEXT;
+        roomId: string;
+        text: TextBox;
+    }
+    | {
+        // New content/style for an existing text box, sent when the user finishes editing
+        type: ClientMessageType.UPDATE_TEXT;
+        roomId: string;
+        text: TextBox;
+    }
+    | {
+        // The selection tool moved/scaled/rotated these objects, sent on release.
+        // Committed as one batch of TRANSFORM operations (one per object still visible).
+        type: ClientMessageType.TRANSFORM;
+        roomId: string;
+        objectIds: string[];
+        transform: Transform;
+    }
+    | {
+        // A new layer, committed as an ADD_LAYER operation
+        type: ClientMessageType.ADD_LAYER;
+        roomId: string;
+        layer: Layer;
+    }
+    | {
+        type: ClientMessageType.UPDATE_LAYER;
+        roomId: string;
+        layerId: string;
+        changes: LayerChanges;
+    }
+    | {
+        type: ClientMessageType.MOVE_LAYER;
+        roomId: string;
+        layerId: string;
+        index: number;
+    }
+    | {
+        // Moves these objects to a layer. Committed as one batch of MOVE_TO_LAYER
+        // operations (one per object still visible and not already there).
+        type: ClientMessageType.MOVE_TO_LAYER;
+        roomId: string;
+        objectIds: string[];
+        layerId: string;
     };
 
 // ==========================================
@@ -164,15 +543,50 @@ export enum ServerMessageType {
     BROADCAST_UNDO = 'S_UNDO', // Kept for signaling the "action" of undoing
     BROADCAST_REDO = 'S_REDO',
     BROADCAST_CURSOR = 'S_CURSOR',
+    ROSTER = 'S_ROSTER',
+    USER_JOINED = 'S_USER_JOINED',
+    USER_LEFT = 'S_USER_LEFT',
+    ERROR = 'S_ERROR',
+    DISCONNECT = 'S_DISCONNECT',
+    CHECKPOINTS = 'S_CHECKPOINTS',
+    IDENTITY = 'S_IDENTITY',
 }
 
+/**
+ * Why the server rejected a client message (see shared/validation.ts and server/rate-limit.ts).
+ * - INVALID_MESSAGE: malformed (wrong field types, bad color, non-finite coordinates, ...)
+ * - LIMIT_EXCEEDED: well-formed, but over a size limit (points per message or per stroke,
+ *   IDs per message, active strokes, room history)
+ * - RATE_LIMITED: sent too fast (by this connection or by the whole room)
+ * - FORBIDDEN: the connection's role doesn't allow this message type
+ * - LOCKED: it would change (or add to) a locked layer
+ * - SERVER_ERROR: the server failed while handling it (a bug, or the room couldn't be reached)
+ */
+export type ServerErrorCode = 'INVALID_MESSAGE' | 'LIMIT_EXCEEDED' | 'RATE_LIMITED' | 'FORBIDDEN' | 'LOCKED' | 'SERVER_ERROR';
+
+/**
+ * Why the server closed (or refused) a connection.
+ * - RATE_LIMITED: kept sending refused or invalid messages
+ * - ROOM_FULL: the room already has the maximum number of connections
+ * - UNAUTHORIZED: missing, invalid or expired access token. Refused during the handshake,
+ *   so it arrives as the `connect_error`'s `data.reason`, not as S_DISCONNECT.
+ * - ROOM_DELETED: the room was deleted through the admin API
+ */
+export type DisconnectReason = 'RATE_LIMITED' | 'ROOM_FULL' | 'UNAUTHORIZED' | 'ROOM_DELETED';
+
 export type ServerMessage =
     | {
-        // Sent on connection to bring client up to speed.
-        // Sends the FULL operation history for deterministic replay.
+        // Sent on connection to bring client up to speed. Two forms:
+        // - FULL (`snapshot` present): replace local state with the snapshot,
+        //   then replay `operations` (the tail after the snapshot).
+        // - INCREMENTAL (`snapshot` absent): the client resumed from a known `seq`.
+        //   Drop `removedOperationIds` (undone since then), then append `operations`.
         type: ServerMessageType.SYNC;
         roomId: string;
+        snapshot?: StrokeSnapshot;
         operations: ServerCanvasOperation[]; // MUST be authoritative operations
+        removedOperationIds: string[];
+        seq: number;                         // Latest sequence number in the room
     }
     | {
         // Forwarding a start event to other clients (streaming)
@@ -182,6 +596,7 @@ export type ServerMessage =
         id: string;
         color: string;
         size: number;
+        brush: BrushKind;
         startPoint: Point;
     }
     | {
@@ -201,24 +616,27 @@ export type ServerMessage =
         id: string;
     }
     | {
-        // Broadcasts a completed operation (ADD or REMOVE) that has been committed.
+        // Broadcasts completed operations (ADD or REMOVE) that have been committed, in seq order.
+        // Usually one; a batch (e.g. an import) arrives in a single message.
         // This is the authoritative signal to update the local history stack.
         type: ServerMessageType.BROADCAST_OPERATION;
         roomId: string;
-        operation: ServerCanvasOperation; // MUST be authoritative
+        operations: ServerCanvasOperation[]; // MUST be authoritative
     }
     | {
-        // Global undo occurred. Clients should pop the last operation from their stack.
-        // We send the full operation so clients know WHAT was undone (e.g. ADD vs REMOVE).
+        // A user undid one of their operations (or a whole batch). Clients should remove them
+        // from their stack by ID (not necessarily the last ones, since undo is scoped to the author).
+        // We send the full operations so clients know WHAT was undone (e.g. ADD vs REMOVE).
         type: ServerMessageType.BROADCAST_UNDO;
         roomId: string;
-        operation: ServerCanvasOperation;
+        operations: ServerCanvasOperation[];
+        seq: number; // Undo is itself sequenced, so resuming clients can catch up on it
     }
     | {
-        // Global redo occurred. Clients should re-apply the operation.
+        // A user redid one of their operations (or a whole batch). Clients should re-apply (append) them.
         type: ServerMessageType.BROADCAST_REDO;
         roomId: string;
-        operation: ServerCanvasOperation; // MUST be authoritative (new sequence number)
+        operations: ServerCanvasOperation[]; // MUST be authoritative (new sequence numbers)
     }
     | {
         type: ServerMessageType.BROADCAST_CURSOR;
@@ -227,4 +645,57 @@ export type ServerMessage =
         x: number;
         y: number;
         color: string;
+    }
+    | {
+        // Everyone currently in the room (including the recipient).
+        // Sent on every (re)connection; replaces the client's participant list.
+        type: ServerMessageType.ROSTER;
+        roomId: string;
+        users: UserProfile[];
+        role: Role;        // The recipient's role on this connection
+    }
+    | {
+        // Who the recipient is. Sent first on every connection; the client keeps
+        // the token and presents it (HandshakeAuth.userToken, or the X-User-Token
+        // header over HTTP) to stay the same user.
+        type: ServerMessageType.IDENTITY;
+        roomId: string;
+        userId: string;
+        userToken: string;
+    }
+    | {
+        // A user joined the room, or changed their profile (upsert by userId)
+        type: ServerMessageType.USER_JOINED;
+        roomId: string;
+        user: UserProfile;
+    }
+    | {
+        // A user's last connection to the room closed. Drop their cursor and live strokes.
+        type: ServerMessageType.USER_LEFT;
+        roomId: string;
+        userId: string;
+    }
+    | {
+        // One of the recipient's messages was rejected; nothing from it was stored or broadcast.
+        // Sent only to the sender.
+        type: ServerMessageType.ERROR;
+        roomId: string;
+        code: ServerErrorCode;
+        message: string;             // Human-readable reason (for logs, not for display)
+        rejectedType: string | null; // `type` of the rejected message, if it had one
+        id?: string;                 // The stroke or object the rejected message was about, if known
+    }
+    | {
+        // The server is about to close this connection and it should not reconnect on its own.
+        type: ServerMessageType.DISCONNECT;
+        roomId: string;
+        reason: DisconnectReason;
+        message: string;             // Human-readable, can be shown to the user
+    }
+    | {
+        // The room's checkpoints, oldest first. Sent after the initial SYNC and to
+        // everyone whenever one is saved or deleted; replaces the client's list.
+        type: ServerMessageType.CHECKPOINTS;
+        roomId: string;
+        checkpoints: CheckpointSummary[];
     };
@@ -0,0 +1,337 @@
+import { ClientMessage, ClientMessageType, Point, ServerErrorCode, TextBox } from './types';
+import { DEFAULT_BRUSH, isBrushKind } from './brushes';
+import { isColor } from './color';
+import { parseLayer, parseLayerChanges } from './layers';
+import { parseShape } from './shapes';
+import { parseTextBox } from './text';
+import { parseTransform } from './transform';
+
+/**
+ * shared/validation.ts
+ *
+ * Runtime validation of client messages. Types don't exist at runtime, so
+ * nothing guarantees that what arrives over the socket really is a
+ * `ClientMessage`; without these checks one bad client could store NaN
+ * coordinates, giant batches or CSS-injecting colors in a room's history,
+ * and every other client would replay them.
+ *
+ * DESIGN:
+ * - One validator per ClientMessageType, in a table typed from `ClientMessage`
+ *   itself: a new message type (or a new required field) that isn't validated
+ *   is a compile error.
+ * - Validators build a clean copy with only the known fields (like parseShape),
+ *   so the server never stores or forwards anything it didn't check.
+ * - Failures throw a ValidationError, which the server turns into an ERROR
+ *   reply to the sender.
+ *
+ * The limits are shared so the client can stay within them (SocketClient splits
+ * a long re-sent stroke into several STROKE_MOVE messages).
+ */
+
+export const MAX_POINTS_PER_STROKE = 10000;
+export const MAX_POINTS_PER_MESSAGE = 1000;
+export const MAX_IDS_PER_MESSAGE = 10000; // ERASE, TRANSFORM and MOVE_TO_LAYER
+export const MAX_STROKE_SIZE = 100;
+export const MAX_ID_LENGTH = 128;
+
+// World coordinates beyond this are rejected (the same bound as transform components)
+const MAX_COORDINATE = 1e7;
+
+type Fields = Record<string, unknown>;
+type MessageOf<T extends ClientMessageType> = Extract<ClientMessage, { type: T }>;
+
+/**
+ * Thrown when a client message is malformed or over a limit.
+ * The message is safe to send back to the client.
+ */
+export class ValidationError extends Error {
+    constructor(
+        public readonly code: ServerErrorCode,
+        message: string,
+        public readonly messageType: ClientMessageType | null = null, // Of the rejected message, if it had a known one
+        public readonly subjectId?: string                              // The stroke or object it was about, if known
+    ) {
+        super(message);
+        this.name = 'ValidationError';
+    }
+}
+
+const MESSAGE_TYPES = new Set<string>(Object.values(ClientMessageType));
+
+/**
+ * Checks an untrusted message against the protocol.
+ * @returns A clean copy with only known fields.
+ * @throws ValidationError
+ */
+export function validateClientMessage(raw: unknown): ClientMessage {
+    if (!isObject(raw)) {
+        throw new ValidationError('INVALID_MESSAGE', 'Message is not an object');
+    }
+
+    const type = raw.type;
+    if (typeof type !== 'string' || !MESSAGE_TYPES.has(type)) {
+        throw new ValidationError('INVALID_MESSAGE', `Unknown message type: ${String(type).slice(0, MAX_ID_LENGTH)}`);
+    }
+    const messageType = type as ClientMessageType;
+
+    try {
+        if (typeof raw.roomId !== 'string') {
+            throw invalid('roomId must be a string');
+        }
+        return validators[messageType](raw, raw.roomId);
+    } catch (err) {
+        if (!(err instanceof ValidationError)) throw err;
+        throw new ValidationError(err.code, err.message, messageType, getRawSubjectId(raw));
+    }
+}
+
+/**
+ * The stroke or object a message is about, if any. Sent back with an error, so
+ * the sender can drop the optimistic copy of something that won't be committed.
+ */
+export function getSubjectId(msg: ClientMessage): string | undefined {
+    switch (msg.type) {
+        case ClientMessageType.STROKE_START:
+        case ClientMessageType.STROKE_MOVE:
+        case ClientMessageType.STROKE_END:
+            return msg.id;
+        case ClientMessageType.ADD_SHAPE:
+            return msg.shape.id;
+        case ClientMessageType.ADD_TEXT:
+        case ClientMessageType.UPDATE_TEXT:
+            return msg.text.id;
+        default:
+            return undefined;
+    }
+}
+
+// ==========================================
+// Validators (one per message type)
+// ==========================================
+
+const validators: { [T in ClientMessageType]: (raw: Fields, roomId: string) => MessageOf<T> } = {
+    [ClientMessageType.STROKE_START]: (raw, roomId) => {
+        const msg: MessageOf<ClientMessageType.STROKE_START> = {
+            type: ClientMessageType.STROKE_START,
+            roomId,
+            id: expectId(raw.id, 'id'),
+            color: expectColor(raw.color, 'color'),
+            size: expectSize(raw.size),
+            // Older clients don't send a brush; one this build doesn't know falls back to the pen too
+            brush: isBrushKind(raw.brush) ? raw.brush : DEFAULT_BRUSH,
+            startPoint: expectPoint(raw.startPoint, 'startPoint')
+        };
+        if (raw.layerId !== undefined) {
+            msg.layerId = expectId(raw.layerId, 'layerId');
+        }
+        if (raw.tolerance !== undefined) {
+            if (typeof raw.tolerance !== 'number' || !(raw.tolerance >= 0) || !Number.isFinite(raw.tolerance)) {
+                throw invalid('tolerance must be a non-negative number');
+            }
+            msg.tolerance = raw.tolerance;
+        }
+        return msg;
+    },
+
+    [ClientMessageType.STROKE_MOVE]: (raw, roomId) => ({
+        type: ClientMessageType.STROKE_MOVE,
+        roomId,
+        id: expectId(raw.id, 'id'),
+        points: expectPoints(raw.points, 'points')
+    }),
+
+    [ClientMessageType.STROKE_END]: (raw, roomId) => ({
+        type: ClientMessageType.STROKE_END,
+        roomId,
+        id: expectId(raw.id, 'id')
+    }),
+
+    [ClientMessageType.UNDO]: (_raw, roomId) => ({ type: ClientMessageType.UNDO, roomId }),
+
+    [ClientMessageType.REDO]: (_raw, roomId) => ({ type: ClientMessageType.REDO, roomId }),
+
+    [ClientMessageType.CURSOR_MOVE]: (raw, roomId) => {
+        if (!isCoordinate(raw.x) || !isCoordinate(raw.y)) {
+            throw invalid('x and y must be finite coordinates');
+        }
+        return { type: ClientMessageType.CURSOR_MOVE, roomId, x: raw.x, y: raw.y };
+    },
+
+    [ClientMessageType.ERASE]: (raw, roomId) => ({
+        type: ClientMessageType.ERASE,
+        roomId,
+        strokeIds: expectIds(raw.strokeIds, 'strokeIds')
+    }),
+
+    [ClientMessageType.UPDATE_PROFILE]: (raw, roomId) => {
+        // Trimmed and capped by presence.ts
+        if (typeof raw.name !== 'string') {
+            throw invalid('name must be a string');
+        }
+        return { type: ClientMessageType.UPDATE_PROFILE, roomId, name: raw.name };
+    },
+
+    [ClientMessageType.ADD_SHAPE]: (raw, roomId) => {
+        const shape = parseShape(raw.shape);
+        if (!shape) {
+            throw invalid('shape is not a valid shape');
+        }
+        expectId(shape.id, 'shape.id');
+        return { type: ClientMessageType.ADD_SHAPE, roomId, shape: withLayerId(shape, raw.shape, 'shape.layerId') };
+    },
+
+    [ClientMessageType.ADD_TEXT]: (raw, roomId) => ({
+        type: ClientMessageType.ADD_TEXT,
+        roomId,
+        text: withLayerId(expectTextBox(raw.text), raw.text, 'text.layerId')
+    }),
+
+    [ClientMessageType.UPDATE_TEXT]: (raw, roomId) => ({
+        type: ClientMessageType.UPDATE_TEXT,
+        roomId,
+        text: expectTextBox(raw.text)
+    }),
+
+    [ClientMessageType.TRANSFORM]: (raw, roomId) => {
+        const transform = parseTransform(raw.transform);
+        if (!transform) {
+            throw invalid('transform is not a valid, invertible transform');
+        }
+        return { type: ClientMessageType.TRANSFORM, roomId, objectIds: expectIds(raw.objectIds, 'objectIds'), transform };
+    },
+
+    [ClientMessageType.ADD_LAYER]: (raw, roomId) => {
+        const layer = parseLayer(raw.layer);
+        if (!layer) {
+            throw invalid('layer is not a valid layer');
+        }
+        expectId(layer.id, 'layer.id');
+        return { type: ClientMessageType.ADD_LAYER, roomId, layer };
+    },
+
+    [ClientMessageType.UPDATE_LAYER]: (raw, roomId) => {
+        const changes = parseLayerChanges(raw.changes);
+        if (!changes) {
+            throw invalid('changes must set a name, hidden or locked');
+        }
+        return { type: ClientMessageType.UPDATE_LAYER, roomId, layerId: expectId(raw.layerId, 'layerId'), changes };
+    },
+
+    [ClientMessageType.MOVE_LAYER]: (raw, roomId) => {
+        if (typeof raw.index !== 'number' || !Number.isInteger(raw.index) || raw.index < 0) {
+            throw invalid('index must be a non-negative integer');
+        }
+        return { type: ClientMessageType.MOVE_LAYER, roomId, layerId: expectId(raw.layerId, 'layerId'), index: raw.index };
+    },
+
+    [ClientMessageType.MOVE_TO_LAYER]: (raw, roomId) => ({
+        type: ClientMessageType.MOVE_TO_LAYER,
+        roomId,
+        objectIds: expectIds(raw.objectIds, 'objectIds'),
+        layerId: expectId(raw.layerId, 'layerId')
+    })
+};
+
+// ==========================================
+// Field Checks
+// ==========================================
+
+function expectId(value: unknown, field: string): string {
+    if (typeof value !== 'string' || value.length === 0 || value.length > MAX_ID_LENGTH) {
+        throw invalid(`${field} must be a non-empty string of at most ${MAX_ID_LENGTH} characters`);
+    }
+    return value;
+}
+
+function expectIds(value: unknown, field: string): string[] {
+    if (!Array.isArray(value)) {
+        throw invalid(`${field} must be an array`);
+    }
+    if (value.length > MAX_IDS_PER_MESSAGE) {
+        throw new ValidationError('LIMIT_EXCEEDED', `${field} has too many IDs (${value.length} > ${MAX_IDS_PER_MESSAGE})`);
+    }
+    return value.map((id, i) => expectId(id, `${field}[${i}]`));
+}
+
+function expectColor(value: unknown, field: string): string {
+    if (!isColor(value)) {
+        throw invalid(`${field} must be a CSS color`);
+    }
+    return value;
+}
+
+function expectSize(value: unknown): number {
+    if (!isStrokeSize(value)) {
+        throw invalid(`size must be greater than 0 and at most ${MAX_STROKE_SIZE}`);
+    }
+    return value;
+}
+
+function expectPoints(value: unknown, field: string): Point[] {
+    if (!Array.isArray(value)) {
+        throw invalid(`${field} must be an array`);
+    }
+    if (value.length > MAX_POINTS_PER_MESSAGE) {
+        throw new ValidationError('LIMIT_EXCEEDED', `${field} has too many points (${value.length} > ${MAX_POINTS_PER_MESSAGE})`);
+    }
+    return value.map((point, i) => expectPoint(point, `${field}[${i}]`));
+}
+
+function expectPoint(value: unknown, field: string): Point {
+    if (!isObject(value)) {
+        throw invalid(`${field} must be a point`);
+    }
+    const { x, y, p, t } = value;
+    if (!isCoordinate(x) || !isCoordinate(y)) {
+        throw invalid(`${field} needs finite x and y`);
+    }
+    if (typeof p !== 'number' || !(p >= 0 && p <= 1)) {
+        throw invalid(`${field} needs a pressure between 0 and 1`);
+    }
+    if (typeof t !== 'number' || !Number.isFinite(t)) {
+        throw invalid(`${field} needs a finite timestamp`);
+    }
+    return { x, y, p, t };
+}
+
+function expectTextBox(value: unknown): TextBox {
+    const text = parseTextBox(value);
+    if (!text) {
+        throw invalid('text is not a valid text box');
+    }
+    expectId(text.id, 'text.id');
+    return text;
+}
+
+// The parsers drop `layerId`, since imported objects don't keep theirs; new objects do
+function withLayerId<T extends { layerId?: string }>(object: T, raw: unknown, field: string): T {
+    const layerId = isObject(raw) ? raw.layerId : undefined;
+    if (layerId !== undefined) {
+        object.layerId = expectId(layerId, field);
+    }
+    return object;
+}
+
+// getSubjectId for a message that failed validation (only well-formed IDs are echoed)
+function getRawSubjectId(raw: Fields): string | undefined {
+    const subject = isObject(raw.shape) ? raw.shape.id : isObject(raw.text) ? raw.text.id : raw.id;
+    return typeof subject === 'string' && subject.length > 0 && subject.length <= MAX_ID_LENGTH ? subject : undefined;
+}
+
+function invalid(message: string): ValidationError {
+    return new ValidationError('INVALID_MESSAGE', message);
+}
+
+// Also used by shared/import.ts, so imported strokes meet the same limits as drawn ones
+
+export function isCoordinate(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= MAX_COORDINATE;
+}
+
+export function isStrokeSize(value: unknown): value is number {
+    return typeof value === 'number' && value > 0 && value <= MAX_STROKE_SIZE;
+}
+
+function isObject(value: unknown): value is Fields {
+    return typeof value === 'object' && value !== null;
+}